@@ -0,0 +1,46 @@
+/// <reference types="vite/client" />
+
+/**
+ * Variables de entorno de la aplicación
+ *
+ * Se definen en un fichero `.env.local` (ver `.env.example`)
+ * y Vite las expone en `import.meta.env`.
+ */
+interface ImportMetaEnv {
+  /** Motor de routing: "osrm" | "graphhopper" | "valhalla" */
+  readonly VITE_ROUTING_PROVIDER?: string;
+
+  /** URL base del motor de routing (ej: http://localhost:5000) */
+  readonly VITE_ROUTING_BASE_URL?: string;
+
+  /** API key del motor de routing (solo GraphHopper en la nube) */
+  readonly VITE_ROUTING_API_KEY?: string;
+
+  /** Servidor dedicado al perfil de bici (OSRM con bicycle.lua) */
+  readonly VITE_ROUTING_CYCLING_URL?: string;
+
+  /** Servidor dedicado al perfil a pie (OSRM con foot.lua) */
+  readonly VITE_ROUTING_WALKING_URL?: string;
+
+  /** Geocodificación inversa: "nominatim" | "coordinates" (sin red) */
+  readonly VITE_GEOCODING_PROVIDER?: string;
+
+  /** URL base de Nominatim (ej: http://localhost:8080) */
+  readonly VITE_GEOCODING_BASE_URL?: string;
+
+  /** Email de contacto que se envía a Nominatim (política de uso) */
+  readonly VITE_NOMINATIM_EMAIL?: string;
+
+  /** Minutos que una ruta sigue en la caché (0 = sin caché) */
+  readonly VITE_ROUTE_CACHE_TTL_MINUTES?: string;
+
+  /** Elevación de las rutas: "open-meteo" | "terrarium" | "none" (desactivada) */
+  readonly VITE_ELEVATION_PROVIDER?: string;
+
+  /** URL base de Open-Meteo o plantilla de teselas Terrarium ({z}/{x}/{y}) */
+  readonly VITE_ELEVATION_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
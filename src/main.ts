@@ -3,6 +3,7 @@ import { createPinia } from "pinia";
 import "./assets/style.css";
 import App from "./App.vue";
 import router from "./router/index";
+import { t } from "./modules/i18n/i18n";
 
 const app = createApp(App);
 const pinia = createPinia();
@@ -16,7 +17,7 @@ app.mount("#app");
 const originalTitle = document.title;
 
 window.addEventListener("blur", () => {
-  document.title = "Busca aquí tu ruta !!️";
+  document.title = t("app.blurTitle");
 });
 
 window.addEventListener("focus", () => {
@@ -0,0 +1,56 @@
+/**
+ * USE FORMAT
+ *
+ * Formato de distancias, duraciones, tiempos relativos y nombres de
+ * países e idiomas desde los componentes, con el idioma y las
+ * unidades activos:
+ *
+ * const { formatDistance } = useFormat();
+ * formatDistance(2500) → "2,5 km" / "1.6 mi"
+ */
+
+import { computed } from "vue";
+import {
+  AVAILABLE_UNIT_SYSTEMS,
+  formatClockTime,
+  formatDistance,
+  formatDistanceDifference,
+  formatDuration,
+  formatDurationDifference,
+  formatElevation,
+  formatLanguageName,
+  formatNumber,
+  formatRegionName,
+  formatRelativeTime,
+  setUnitSystem,
+  unitSystem,
+} from "../format";
+import { t } from "../i18n";
+
+export function useFormat() {
+  /**
+   * unitOptions: Sistemas de unidades para el selector de los ajustes
+   */
+  const unitOptions = computed(() =>
+    AVAILABLE_UNIT_SYSTEMS.map((value) => ({
+      value,
+      label: t(`settings.unitSystems.${value}`),
+    }))
+  );
+
+  return {
+    unitSystem,
+    setUnitSystem,
+    unitOptions,
+    formatNumber,
+    formatDistance,
+    formatDuration,
+    formatElevation,
+    formatDistanceDifference,
+    formatDurationDifference,
+    formatClockTime,
+    formatRelativeTime,
+    formatRegionName,
+    formatLanguageName,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * USE I18N
+ *
+ * Acceso a las traducciones desde los componentes:
+ *
+ * const { t, locale } = useI18n();
+ * t('directions.title') → "Direcciones" / "Directions"
+ */
+
+import { computed } from "vue";
+import {
+  AVAILABLE_LOCALES,
+  LOCALE_NAMES,
+  locale,
+  setLocale,
+  t,
+} from "../i18n";
+
+export function useI18n() {
+  /**
+   * localeOptions: Idiomas para el selector de los ajustes
+   */
+  const localeOptions = computed(() =>
+    AVAILABLE_LOCALES.map((value) => ({ value, label: LOCALE_NAMES[value] }))
+  );
+
+  return {
+    t,
+    locale,
+    setLocale,
+    localeOptions,
+  };
+}
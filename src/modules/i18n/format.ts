@@ -0,0 +1,333 @@
+/**
+ * FORMAT
+ *
+ * Formato de números, distancias, duraciones, horas y tiempos relativos:
+ * - Todo sale de Intl (NumberFormat, DateTimeFormat y RelativeTimeFormat)
+ *   con el idioma activo, así "1,5 km" / "1.5 km" o "1 h 5 min" / "1 hr 5 min"
+ * - Sistema de unidades métrico (km, m) o imperial (mi, ft): por defecto
+ *   el de la región del navegador y se puede cambiar en los ajustes
+ *
+ * Como t(), las funciones leen estado reactivo (idioma y unidades):
+ * dentro de un computed o de una plantilla se actualizan solas.
+ */
+
+import { ref } from "vue";
+import { locale } from "./i18n";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * UnitSystem: Sistema de unidades para distancias
+ */
+export type UnitSystem = "metric" | "imperial";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+export const AVAILABLE_UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+/**
+ * Regiones que usan millas en carretera (el resto del mundo, métrico)
+ */
+const IMPERIAL_REGIONS = ["US", "GB", "LR", "MM"];
+
+/**
+ * Clave de localStorage donde se guarda el sistema elegido en los ajustes
+ */
+const STORAGE_KEY = "vueflet:units";
+
+const METERS_PER_MILE = 1609.344;
+const FEET_PER_METER = 3.28084;
+
+/**
+ * Por debajo de esta distancia se usan metros/pies en vez de km/millas
+ */
+const SHORT_DISTANCE_METERS = 1000;
+const SHORT_DISTANCE_MILES = 0.1;
+
+// ============================================
+// ESTADO
+// ============================================
+
+/**
+ * detectUnitSystem: Sistema de la región del navegador
+ *
+ * @returns Ejemplo: "en-US" → "imperial", "es-ES" / "en" → "metric"
+ */
+const detectUnitSystem = (): UnitSystem => {
+  const language = typeof navigator !== "undefined" ? navigator.language : "";
+  const region = language?.split("-")[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.includes(region) ? "imperial" : "metric";
+};
+
+/**
+ * loadStoredUnitSystem: Sistema elegido en los ajustes (si lo hay)
+ */
+const loadStoredUnitSystem = (): UnitSystem | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return AVAILABLE_UNIT_SYSTEMS.includes(stored as UnitSystem)
+      ? (stored as UnitSystem)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * unitSystem: Sistema de unidades activo (reactivo)
+ */
+export const unitSystem = ref<UnitSystem>(
+  loadStoredUnitSystem() ?? detectUnitSystem()
+);
+
+/**
+ * setUnitSystem: Cambia el sistema de unidades
+ *
+ * @param target - Sistema elegido, o null para volver al de la región
+ */
+export const setUnitSystem = (target: UnitSystem | null) => {
+  try {
+    if (target) {
+      localStorage.setItem(STORAGE_KEY, target);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("No se pudo guardar el sistema de unidades:", error);
+  }
+
+  unitSystem.value = target ?? detectUnitSystem();
+};
+
+/**
+ * hasStoredUnitSystem: ¿El usuario eligió unas unidades en los ajustes?
+ */
+export const hasStoredUnitSystem = (): boolean =>
+  loadStoredUnitSystem() !== null;
+
+// ============================================
+// FORMATEADORES DE INTL
+// ============================================
+
+/**
+ * Los Intl.* son caros de crear: se guardan por idioma y opciones
+ */
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const relativeTimeFormats = new Map<string, Intl.RelativeTimeFormat>();
+const clockFormats = new Map<string, Intl.DateTimeFormat>();
+const displayNames = new Map<string, Intl.DisplayNames>();
+
+const getNumberFormat = (
+  options: Intl.NumberFormatOptions
+): Intl.NumberFormat => {
+  const key = `${locale.value}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale.value, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+const getRelativeTimeFormat = (): Intl.RelativeTimeFormat => {
+  let format = relativeTimeFormats.get(locale.value);
+  if (!format) {
+    format = new Intl.RelativeTimeFormat(locale.value, { numeric: "auto" });
+    relativeTimeFormats.set(locale.value, format);
+  }
+  return format;
+};
+
+const getClockFormat = (): Intl.DateTimeFormat => {
+  let format = clockFormats.get(locale.value);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale.value, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+    clockFormats.set(locale.value, format);
+  }
+  return format;
+};
+
+const getDisplayNames = (
+  type: Intl.DisplayNamesType
+): Intl.DisplayNames => {
+  const key = `${locale.value}|${type}`;
+  let names = displayNames.get(key);
+  if (!names) {
+    names = new Intl.DisplayNames(locale.value, { type });
+    displayNames.set(key, names);
+  }
+  return names;
+};
+
+/**
+ * formatUnit: Número con su unidad abreviada en el idioma activo
+ *
+ * @example formatUnit(1.5, "kilometer", 1) → "1,5 km" (es) / "1.5 km" (en)
+ */
+const formatUnit = (
+  value: number,
+  unit: string,
+  maximumFractionDigits = 0
+): string => {
+  return getNumberFormat({
+    style: "unit",
+    unit,
+    unitDisplay: "short",
+    maximumFractionDigits,
+  }).format(value);
+};
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * formatNumber: Número con los separadores del idioma activo
+ *
+ * @example formatNumber(12345.6) → "12.345,6" (es) / "12,345.6" (en)
+ */
+export const formatNumber = (
+  value: number,
+  options: Intl.NumberFormatOptions = {}
+): string => {
+  return getNumberFormat(options).format(value);
+};
+
+/**
+ * formatDistance: Distancia en las unidades activas
+ *
+ * @param meters - Distancia en metros
+ * @returns Métrico: "450 m", "2,5 km", "120 km"
+ *          Imperial: "300 ft", "1.6 mi", "120 mi"
+ */
+export const formatDistance = (meters: number): string => {
+  if (unitSystem.value === "imperial") {
+    const miles = meters / METERS_PER_MILE;
+    if (miles < SHORT_DISTANCE_MILES) {
+      // Pies redondeados a decenas: la precisión del GPS no da para más
+      return formatUnit(Math.round((meters * FEET_PER_METER) / 10) * 10, "foot");
+    }
+    return formatUnit(miles, "mile", miles < 100 ? 1 : 0);
+  }
+
+  if (meters < SHORT_DISTANCE_METERS) {
+    return formatUnit(Math.round(meters), "meter");
+  }
+  const kilometers = meters / 1000;
+  return formatUnit(kilometers, "kilometer", kilometers < 100 ? 1 : 0);
+};
+
+/**
+ * formatElevation: Altitud o desnivel en las unidades activas
+ *
+ * @param meters - Altitud en metros
+ * @returns Métrico: "655 m"; imperial: "2,149 ft"
+ */
+export const formatElevation = (meters: number): string => {
+  return unitSystem.value === "imperial"
+    ? formatUnit(Math.round(meters * FEET_PER_METER), "foot")
+    : formatUnit(Math.round(meters), "meter");
+};
+
+/**
+ * formatDuration: Duración legible en el idioma activo
+ *
+ * @param seconds - Duración en segundos
+ * @returns "45 s", "25 min", "1 h 30 min" (es) / "1 hr 30 min" (en)
+ */
+export const formatDuration = (seconds: number): string => {
+  if (seconds < 60) {
+    return formatUnit(Math.round(seconds), "second");
+  }
+
+  const totalMinutes = Math.round(seconds / 60);
+  if (totalMinutes < 60) {
+    return formatUnit(totalMinutes, "minute");
+  }
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0
+    ? `${formatUnit(hours, "hour")} ${formatUnit(minutes, "minute")}`
+    : formatUnit(hours, "hour");
+};
+
+/**
+ * formatDistanceDifference: Diferencia de distancia con signo
+ *
+ * @example formatDistanceDifference(-1200) → "-1,2 km"
+ */
+export const formatDistanceDifference = (diffMeters: number): string => {
+  const sign = diffMeters >= 0 ? "+" : "-";
+  return `${sign}${formatDistance(Math.abs(diffMeters))}`;
+};
+
+/**
+ * formatDurationDifference: Diferencia de tiempo con signo
+ *
+ * @example formatDurationDifference(330) → "+6 min"
+ */
+export const formatDurationDifference = (diffSeconds: number): string => {
+  const sign = diffSeconds >= 0 ? "+" : "-";
+  return `${sign}${formatDuration(Math.abs(diffSeconds))}`;
+};
+
+/**
+ * formatClockTime: Hora del día en el formato del idioma activo
+ *
+ * @param timestamp - Fecha en milisegundos
+ * @returns "14:35" (es) / "2:35 PM" (en)
+ */
+export const formatClockTime = (timestamp: number): string => {
+  return getClockFormat().format(timestamp);
+};
+
+/**
+ * formatRelativeTime: Cuánto hace de una fecha, en el idioma activo
+ *
+ * @param timestamp - Fecha en milisegundos
+ * @param now - Fecha de referencia (por defecto, ahora)
+ * @returns "ahora", "hace 5 minutos", "hace 2 horas", "ayer" / "5 minutes ago"...
+ */
+export const formatRelativeTime = (
+  timestamp: number,
+  now: number = Date.now()
+): string => {
+  const format = getRelativeTimeFormat();
+  const diffMinutes = Math.floor((now - timestamp) / 1000 / 60);
+
+  if (diffMinutes < 1) return format.format(0, "second");
+  if (diffMinutes < 60) return format.format(-diffMinutes, "minute");
+
+  const diffHours = Math.floor(diffMinutes / 60);
+  if (diffHours < 24) return format.format(-diffHours, "hour");
+
+  return format.format(-Math.floor(diffHours / 24), "day");
+};
+
+/**
+ * formatRegionName: Nombre de un país en el idioma activo
+ *
+ * @param code - Código ISO de dos letras (ej: "fr")
+ * @returns "Francia" (es) / "France" (en); el código si no se conoce
+ */
+export const formatRegionName = (code: string): string => {
+  return getDisplayNames("region").of(code.toUpperCase()) ?? code;
+};
+
+/**
+ * formatLanguageName: Nombre de un idioma en el idioma activo
+ *
+ * @param code - Código del idioma (ej: "de")
+ * @returns "alemán" (es) / "German" (en); el código si no se conoce
+ */
+export const formatLanguageName = (code: string): string => {
+  return getDisplayNames("language").of(code) ?? code;
+};
@@ -0,0 +1,242 @@
+/**
+ * I18N
+ *
+ * Capa de traducción de la app:
+ * - Catálogos de mensajes por idioma (locales/es.ts, locales/en.ts)
+ * - t(clave, parámetros): busca el mensaje, elige la forma de plural
+ *   según el idioma (Intl.PluralRules) y rellena los {parámetros}
+ * - El idioma sale del navegador y se puede cambiar en los ajustes;
+ *   la elección se guarda en localStorage
+ *
+ * El idioma activo es reactivo: todo lo que llame a t() dentro de un
+ * computed o de una plantilla se actualiza al cambiarlo. También lo
+ * usan los servicios (instrucciones, errores) fuera de los componentes.
+ */
+
+import { ref } from "vue";
+import { es } from "./locales/es";
+import { en } from "./locales/en";
+import type { Messages } from "./locales/es";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Locale: Idiomas disponibles
+ */
+export type Locale = "es" | "en";
+
+/**
+ * PluralForms: Mensaje con una forma por categoría de plural
+ * (las categorías de Intl.PluralRules: "one", "other", "few"...)
+ */
+export interface PluralForms {
+  one: string;
+  other: string;
+  zero?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+}
+
+/**
+ * MessageKey: Claves válidas del catálogo, con puntos
+ * Ejemplo: "directions.title" | "errors.rateLimitedWait" | ...
+ */
+type MessageKeys<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string | PluralForms
+    ? `${Prefix}${K}`
+    : MessageKeys<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = MessageKeys<Messages>;
+
+/**
+ * MessageParams: Valores para rellenar los {parámetros} del mensaje
+ * "count" además elige la forma de plural
+ */
+export type MessageParams = Record<string, string | number>;
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Catálogo de cada idioma
+ */
+const MESSAGES: Record<Locale, Messages> = { es, en };
+
+/**
+ * Nombre de cada idioma en su propio idioma (para el selector)
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  es: "Español",
+  en: "English",
+};
+
+export const AVAILABLE_LOCALES = Object.keys(MESSAGES) as Locale[];
+
+/**
+ * Idioma si el navegador no pide ninguno de los disponibles
+ */
+const FALLBACK_LOCALE: Locale = "es";
+
+/**
+ * Clave de localStorage donde se guarda el idioma elegido en los ajustes
+ */
+const STORAGE_KEY = "vueflet:locale";
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * isLocale: Comprueba si un string es un idioma disponible
+ */
+const isLocale = (value: unknown): value is Locale => {
+  return AVAILABLE_LOCALES.includes(value as Locale);
+};
+
+/**
+ * detectBrowserLocale: Primer idioma del navegador que tengamos
+ *
+ * @returns Ejemplo: ["en-GB", "es"] → "en"
+ */
+const detectBrowserLocale = (): Locale => {
+  const languages =
+    typeof navigator !== "undefined"
+      ? navigator.languages?.length
+        ? navigator.languages
+        : [navigator.language]
+      : [];
+
+  for (const language of languages) {
+    const base = language?.toLowerCase().split("-")[0];
+    if (isLocale(base)) return base;
+  }
+
+  return FALLBACK_LOCALE;
+};
+
+/**
+ * loadStoredLocale: Idioma elegido en los ajustes (si lo hay)
+ */
+const loadStoredLocale = (): Locale | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isLocale(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+// ============================================
+// ESTADO
+// ============================================
+
+/**
+ * locale: Idioma activo (reactivo)
+ */
+export const locale = ref<Locale>(loadStoredLocale() ?? detectBrowserLocale());
+
+/**
+ * Reglas de plural de cada idioma (se crean una vez)
+ */
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const getPluralRules = (target: Locale): Intl.PluralRules => {
+  let rules = pluralRules.get(target);
+  if (!rules) {
+    rules = new Intl.PluralRules(target);
+    pluralRules.set(target, rules);
+  }
+  return rules;
+};
+
+/**
+ * applyDocumentLang: Actualiza el atributo lang del documento
+ * (lectores de pantalla y corrector ortográfico)
+ */
+const applyDocumentLang = (target: Locale) => {
+  if (typeof document !== "undefined") {
+    document.documentElement.lang = target;
+  }
+};
+
+applyDocumentLang(locale.value);
+
+/**
+ * setLocale: Cambia el idioma activo
+ *
+ * @param target - Idioma elegido, o null para volver al del navegador
+ */
+export const setLocale = (target: Locale | null) => {
+  try {
+    if (target) {
+      localStorage.setItem(STORAGE_KEY, target);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("No se pudo guardar el idioma:", error);
+  }
+
+  locale.value = target ?? detectBrowserLocale();
+  applyDocumentLang(locale.value);
+};
+
+/**
+ * hasStoredLocale: ¿El usuario eligió un idioma en los ajustes?
+ */
+export const hasStoredLocale = (): boolean => loadStoredLocale() !== null;
+
+/**
+ * lookup: Busca un mensaje en un catálogo por su clave con puntos
+ */
+const lookup = (
+  messages: Messages,
+  key: string
+): string | PluralForms | undefined => {
+  let node: unknown = messages;
+  for (const part of key.split(".")) {
+    if (typeof node !== "object" || node === null) return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return node as string | PluralForms | undefined;
+};
+
+/**
+ * t: Traduce una clave al idioma activo
+ *
+ * @param key - Clave del catálogo (ej: "directions.title")
+ * @param params - Valores para los {parámetros}; "count" elige el plural
+ * @returns El mensaje traducido (o la clave, si falta en los catálogos)
+ *
+ * Ejemplos:
+ * t('errors.rateLimitedWait', { host, count: 1 }) → "... Espera 1 segundo ..."
+ * t('errors.rateLimitedWait', { host, count: 5 }) → "... Espera unos 5 segundos ..."
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const active = locale.value;
+  const message =
+    lookup(MESSAGES[active], key) ?? lookup(MESSAGES[FALLBACK_LOCALE], key);
+
+  if (message === undefined) {
+    console.warn(`Falta la traducción de "${key}"`);
+    return key;
+  }
+
+  let text: string;
+  if (typeof message === "string") {
+    text = message;
+  } else {
+    const count = Number(params.count ?? 0);
+    const category = getPluralRules(active).select(count);
+    text = message[category] ?? message.other;
+  }
+
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
@@ -0,0 +1,479 @@
+/**
+ * CATÁLOGO EN INGLÉS
+ *
+ * Mismas claves que el catálogo en español (ver es.ts)
+ */
+
+import type { Messages } from "./es";
+
+export const en: Messages = {
+  app: {
+    blurTitle: "Find your route here!",
+  },
+
+  common: {
+    back: "Back",
+    clear: "Clear",
+    retry: "Retry",
+    loading: "Loading...",
+    cancel: "Cancel",
+    save: "Save",
+  },
+
+  settings: {
+    title: "Settings",
+    language: "Language",
+    browserLanguage: "Browser language",
+    units: "Units",
+    regionUnits: "My region's units",
+    unitSystems: {
+      metric: "Metric (km, m)",
+      imperial: "Imperial (mi, ft)",
+    },
+    location: {
+      title: "Location",
+      sources: {
+        browser: "Browser GPS",
+        fixed: "Fixed position",
+        replay: "Replay a track",
+      },
+      coordinatesPlaceholder: "lat, lon (e.g. 40.4168, -3.7038)",
+      apply: "Use",
+      invalidCoordinates: "Enter the coordinates as “lat, lon”",
+      trackFile: "Track (GPX or GeoJSON)",
+      trackLoaded: {
+        one: "{name}: {count} point",
+        other: "{name}: {count} points",
+      },
+      invalidTrack: "The track could not be read",
+      speed: "Speed",
+      restart: "Back to start",
+    },
+  },
+
+  search: {
+    barPlaceholder: "Search places...",
+    placeholder: "Search place...",
+    searching: "Searching...",
+    searchingPlaces: "Searching places...",
+    noResults: "No places found",
+    centerOnMyLocation: "Center on my location",
+    searchingNearPoint: "Searching near the selected point",
+    searchAnywhere: "Search anywhere",
+    searchingInArea: "Searching in the selected map area",
+    searchThisArea: "Search this area",
+    searchThisAreaTitle: "Repeat the search only in the area shown on the map",
+    moreResults: "More results",
+    filters: {
+      toggle: "Search filters",
+      category: "Place type",
+      country: "Country",
+      anyCountry: "Any country",
+      language: "Results language",
+      appLanguage: "App language",
+      clear: "Clear filters",
+      categories: {
+        restaurant: "Restaurants",
+        cafe: "Cafés",
+        station: "Stations",
+        parking: "Parking",
+        fuel: "Gas stations",
+        hotel: "Hotels",
+      },
+    },
+    directions: "Directions",
+    directionsTitle: "Get a route to this place",
+    save: "Save",
+    saveTitle: "Save this place",
+    sections: {
+      coordinates: "Coordinates",
+      saved: "Saved places",
+      recent: "Recent searches",
+      remote: "Results",
+    },
+    clearRecent: "Clear",
+    clearRecentTitle: "Clear recent searches",
+    removeRecent: "Remove from recent searches",
+    errors: {
+      timeout: "The search took too long. Please try again.",
+      failed: "The search could not be completed",
+    },
+  },
+
+  map: {
+    myLocation: "My location",
+    pendingPoint: "Point on the map",
+    badges: {
+      current: "Current",
+      search: "Search",
+      origin: "Origin",
+      destination: "Destination",
+      saved: "Saved",
+    },
+  },
+
+  contextMenu: {
+    searchingAddress: "Looking up address...",
+    actions: {
+      origin: "Directions from here",
+      destination: "Directions to here",
+      waypoint: "Add stop",
+      copy: "Copy coordinates",
+      "search-nearby": "Search nearby",
+      save: "Save place",
+    },
+  },
+
+  savedPlaces: {
+    title: "Saved places",
+    empty:
+      "No saved places yet. Save a search result, a point on the map (right click) or a point of the route.",
+    categories: {
+      home: "Home",
+      work: "Work",
+      favorite: "Favorite",
+    },
+    save: "Save place",
+    saveTitle: "Save place",
+    editTitle: "Edit place",
+    label: "Name",
+    category: "Type",
+    edit: "Edit",
+    remove: "Delete",
+    show: "Show on map",
+    import: "Import",
+    export: "Export",
+    importTitle: "Add places from a GeoJSON file",
+    exportTitle: "Download the places as GeoJSON",
+    imported: {
+      one: "{count} place imported",
+      other: "{count} places imported",
+    },
+    importFailed: "The GeoJSON file could not be read",
+  },
+
+  routeHistory: {
+    title: "Route history",
+    searchPlaceholder: "Search routes and trips...",
+    empty: "No routes yet. The routes you calculate will appear here.",
+    noMatches: "No route matches your search",
+    savedTrips: "Saved trips",
+    recent: "Recent",
+    restoreTitle: "Open this route",
+    stops: {
+      one: "{count} stop",
+      other: "{count} stops",
+    },
+    saveTrip: "Save trip",
+    rename: "Rename",
+    tripName: "Trip name",
+    unsave: "Remove from saved",
+    remove: "Delete",
+    clear: "Clear history",
+  },
+
+  location: {
+    loading: "Getting your location...",
+    retry: "Try again",
+    deniedHeading: "Permission denied:",
+    tipsHeading: "Tips:",
+    deniedSteps: {
+      lockIcon: "Click the 🔒 or ⓘ icon in the browser's address bar",
+      findPermissions: 'Look for "Permissions" or "Location" in the site settings',
+      allow: 'Change the permission from "Blocked" to "Allow"',
+      reload: "Reload the page after changing the permission",
+    },
+    tips: {
+      allowAccess: "Make sure your browser is allowed to access your location",
+      servicesOn: "Check that location services are turned on",
+      reload: "Reload the page if the problem persists",
+    },
+    errors: {
+      denied: {
+        title: "Location permission denied",
+        message:
+          "You have blocked access to your location. To use this app you need to change the permissions manually in your browser.",
+      },
+      unavailable: {
+        title: "Location unavailable",
+        message:
+          "Your location could not be determined. Check that location services are turned on.",
+      },
+      timeout: {
+        title: "Request timed out",
+        message: "The location request took too long. Please try again.",
+      },
+      unknown: {
+        title: "Could not get your location",
+        message:
+          "This app needs access to your location. Please check your browser permissions.",
+      },
+    },
+  },
+
+  directions: {
+    title: "Directions",
+    originPlaceholder: "Choose starting point",
+    destinationPlaceholder: "Choose destination",
+    swap: "Swap origin and destination",
+    calculate: "Get route",
+    calculating: "Calculating route...",
+    recalculate: "Recalculate route",
+    recalculating: "Recalculating...",
+    startNavigation: "Start navigation",
+    copyLink: "Copy link",
+    linkCopied: "Link copied",
+    copyLinkManually: "Copy this link to share the route:",
+    clearAll: "Clear all",
+    locationUnavailable:
+      "Your location could not be determined. Make sure location permissions are granted.",
+    missing: {
+      both: "Set an origin and a destination to get a route",
+      origin: "Set a starting point",
+      destination: "Set a destination",
+    },
+  },
+
+  directionsInput: {
+    useMyLocation: "Use my location",
+    removeStop: "Remove stop",
+  },
+
+  stops: {
+    stopNumber: "Stop {number}",
+    add: "Add stop",
+    addTitle: "Add an intermediate stop",
+    needOriginAndDestination: "Set an origin and a destination first",
+    dragToReorder: "Drag to reorder",
+  },
+
+  travelModes: {
+    title: "Travel mode",
+    driving: {
+      short: "Car",
+      summary: "By car",
+      description: "Driving route on roads",
+    },
+    cycling: {
+      short: "Bike",
+      summary: "By bike",
+      description: "Cycling route on bike lanes and streets",
+    },
+    walking: {
+      short: "Walk",
+      summary: "On foot",
+      description: "Walking route on sidewalks and paths",
+    },
+  },
+
+  preferences: {
+    title: "Route preference",
+    fastest: {
+      short: "Fast",
+      label: "Fastest",
+      description: "The route that takes the least time",
+    },
+    shortest: {
+      short: "Short",
+      label: "Shortest",
+      description: "The route with the fewest kilometers",
+    },
+    balanced: {
+      short: "Balanced",
+      label: "Balanced",
+      description: "A balance between time and distance",
+    },
+  },
+
+  avoid: {
+    title: "Avoid",
+    avoidHighways: {
+      label: "Highways",
+      description: "Avoid highways and motorways",
+    },
+    avoidTolls: {
+      label: "Tolls",
+      description: "Avoid toll roads",
+    },
+    avoidFerries: {
+      label: "Ferries",
+      description: "Avoid ferry crossings",
+    },
+  },
+
+  optimizer: {
+    optimize: "Optimize order",
+    optimizing: "Optimizing...",
+    optimizeTitle: "Reorder the stops to take as little time as possible",
+    roundTrip: "Round trip",
+    roundTripTitle: "End the route at the origin",
+    alreadyRoundTrip: "The route already returns to the origin",
+    saved: "You save {time} compared with the previous order",
+    alreadyOptimal: "The previous order was already the fastest",
+  },
+
+  routeInfo: {
+    title: "Calculated route",
+    distance: "Distance",
+    time: "Time",
+    estimatedTime: "Estimated time",
+    durationEstimated: "Time estimated from average speed",
+    durationFromEngine: "Exact time from the routing engine",
+    durationEstimatedWithClimb: "Time estimated from average speed and slopes",
+    showInstructions: "Show instructions",
+    hideInstructions: "Hide instructions",
+    calculatedAt: "Route calculated {time}",
+    noRoute: "No route calculated",
+    stepsLabel: "Route steps",
+    stepHint: "Click a step or use the arrow keys to walk through the route",
+    stepCounter: "Step {current} of {total}",
+    previousStep: "Previous step",
+    nextStep: "Next step",
+    clearStep: "Stop highlighting the step",
+    roadClasses: {
+      motorway: {
+        included: "Includes highways",
+        notAvoided: "Highways could not be avoided",
+      },
+      toll: {
+        included: "Includes tolls",
+        notAvoided: "Tolls could not be avoided",
+      },
+      ferry: {
+        included: "Includes ferries",
+        notAvoided: "Ferries could not be avoided",
+      },
+    },
+  },
+
+  elevation: {
+    title: "Elevation profile",
+    loading: "Loading elevation profile...",
+    ascent: "Total ascent",
+    descent: "Total descent",
+    chartLabel: "Elevation profile: climbs {ascent} and descends {descent}",
+    pointDetail: "{elevation} at {distance}",
+  },
+
+  navigation: {
+    title: "Navigation",
+    exit: "Exit",
+    exitTitle: "Exit navigation",
+    waitingForGps: "Waiting for GPS signal...",
+    offRoute: "You left the route",
+    rerouting: "Recalculating the route from your position...",
+    rerouteFailed: "The route could not be recalculated. Trying again shortly.",
+    arrived: "You have arrived at your destination",
+    finish: "Finish",
+    remainingTime: "Time",
+    remainingDistance: "Distance",
+    arrival: "Arrival",
+    recenter: "Back to my position",
+  },
+
+  alternatives: {
+    title: "Available routes",
+    current: "Current route",
+    alternative: "Alternative {number}",
+  },
+
+  routingError: {
+    title: "Could not calculate the route",
+    thePoint: "the point",
+    movePointNearRoad: "Drag {point} on the map closer to a road.",
+    movePointIntoCoverage: "Drag {point} on the map into the covered area.",
+    showPoint: "Show point",
+    removeStopsHint: "Remove some intermediate stops and try again.",
+    removeRestrictions: "Remove restrictions",
+    tryMode: {
+      driving: "Try by car",
+      cycling: "Try by bike",
+      walking: "Try on foot",
+    },
+  },
+
+  routingErrors: {
+    NO_ROUTE: "There is no way between these points with this travel mode.",
+    POINT_TOO_FAR: "One of the points is too far from any road or path.",
+    OUT_OF_COVERAGE: "One of the points is outside the area covered by the routing server.",
+    TOO_MANY_WAYPOINTS: "There are too many stops to calculate the route at once.",
+    ROUTE_TOO_LONG: "The route is too long for this travel mode.",
+    UNSUPPORTED_OPTIONS: "The routing server cannot avoid the selected road types.",
+    INVALID_WAYPOINTS: "Some of the route points are not valid.",
+    OFFLINE: "There is no internet connection.",
+    NETWORK_ERROR: "The routing server is not available right now.",
+    TIMEOUT: "The routing server took too long to respond.",
+    RATE_LIMITED: "Too many requests to the routing server. Wait a few seconds.",
+    API_ERROR: "The routing server could not process the request.",
+  },
+
+  errors: {
+    missingWaypoints: "You need at least an origin and a destination",
+    noRouteFound: "No route was found",
+    routeFailed: "The route could not be calculated",
+    durationsFailed: "The travel times could not be recalculated",
+    optimizationFailed: "The stop order could not be optimized",
+    optimizationNeedsStops: "At least one intermediate stop is needed to optimize the order",
+    optimizationUnsupported: "The configured routing engine cannot optimize the stop order",
+    apiKeyRejected: "The routing server rejected the request (check the API key).",
+    rateLimited: "Too many requests to {host}. Wait a few seconds and try again.",
+    rateLimitedWait: {
+      one: "Too many requests to {host}. Wait {count} second and try again.",
+      other: "Too many requests to {host}. Wait about {count} seconds and try again.",
+    },
+  },
+
+  instructions: {
+    onRoad: "on {road}",
+    ontoRoad: "onto {road}",
+    intoRoad: "onto {road}",
+    towards: "toward {target}",
+    depart: "Head out{road}",
+    arrive: "You have arrived at your destination",
+    via: "You have arrived at your stop",
+    uturn: "Make a U-turn{road}",
+    straight: "Go straight{road}",
+    turn: "Turn {direction}{road}{towards}",
+    merge: "Merge{side}{road}{towards}",
+    fork: "At the fork, keep{side}{target}",
+    endOfRoad: "At the end of the road, turn{side}{road}{towards}",
+    onRamp: "Take the ramp{side}{target}",
+    offRamp: "Take {exit}{side}{target}",
+    anyExit: "the exit",
+    exitNumber: "exit {exit}",
+    ordinalExit: "the {ordinal} exit",
+    roundabout: "Enter the roundabout and exit{target}",
+    roundaboutExit: "At the roundabout, take {exit}{target}",
+    exitRoundabout: "Exit the roundabout{target}",
+    ferry: "Take the ferry{name}",
+    continue: "Continue{road}",
+    continueDirection: "Continue {direction}{road}",
+    sides: {
+      right: "right",
+      left: "left",
+      straight: "straight",
+    },
+    directions: {
+      uturn: "with a U-turn",
+      sharpRight: "sharp right",
+      right: "right",
+      slightRight: "slightly right",
+      straight: "straight",
+      slightLeft: "slightly left",
+      left: "left",
+      sharpLeft: "sharp left",
+    },
+    ordinals: {
+      first: "first",
+      second: "second",
+      third: "third",
+      fourth: "fourth",
+      fifth: "fifth",
+      sixth: "sixth",
+      seventh: "seventh",
+      eighth: "eighth",
+      ninth: "ninth",
+      tenth: "tenth",
+    },
+  },
+};
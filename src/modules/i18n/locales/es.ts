@@ -0,0 +1,489 @@
+/**
+ * CATÁLOGO EN ESPAÑOL
+ *
+ * Es el catálogo de referencia: su forma define las claves válidas
+ * (Messages) y los demás idiomas tienen que tener las mismas.
+ *
+ * - {nombre}: parámetro que se rellena al traducir
+ * - { one, other }: formas de plural, se elige según {count}
+ */
+
+export const es = {
+  app: {
+    blurTitle: "Busca aquí tu ruta !!️",
+  },
+
+  common: {
+    back: "Volver",
+    clear: "Limpiar",
+    retry: "Reintentar",
+    loading: "Cargando...",
+    cancel: "Cancelar",
+    save: "Guardar",
+  },
+
+  settings: {
+    title: "Ajustes",
+    language: "Idioma",
+    browserLanguage: "Idioma del navegador",
+    units: "Unidades",
+    regionUnits: "Las de mi región",
+    unitSystems: {
+      metric: "Métricas (km, m)",
+      imperial: "Imperiales (mi, ft)",
+    },
+    location: {
+      title: "Ubicación",
+      sources: {
+        browser: "GPS del navegador",
+        fixed: "Posición fija",
+        replay: "Reproducir recorrido",
+      },
+      coordinatesPlaceholder: "lat, lon (p. ej. 40.4168, -3.7038)",
+      apply: "Usar",
+      invalidCoordinates: "Escribe las coordenadas como «lat, lon»",
+      trackFile: "Recorrido (GPX o GeoJSON)",
+      trackLoaded: {
+        one: "{name}: {count} punto",
+        other: "{name}: {count} puntos",
+      },
+      invalidTrack: "No se pudo leer el recorrido",
+      speed: "Velocidad",
+      restart: "Volver al principio",
+    },
+  },
+
+  search: {
+    barPlaceholder: "Buscar lugares...",
+    placeholder: "Buscar lugar...",
+    searching: "Buscando...",
+    searchingPlaces: "Buscando lugares...",
+    noResults: "No se encontraron lugares",
+    centerOnMyLocation: "Centrar en mi ubicación",
+    searchingNearPoint: "Buscando cerca del punto elegido",
+    searchAnywhere: "Buscar en cualquier sitio",
+    searchingInArea: "Buscando en la zona elegida del mapa",
+    searchThisArea: "Buscar en esta zona",
+    searchThisAreaTitle: "Repetir la búsqueda solo en la zona que se ve en el mapa",
+    moreResults: "Más resultados",
+    filters: {
+      toggle: "Filtros de búsqueda",
+      category: "Tipo de lugar",
+      country: "País",
+      anyCountry: "Cualquier país",
+      language: "Idioma de los resultados",
+      appLanguage: "El de la app",
+      clear: "Quitar filtros",
+      categories: {
+        restaurant: "Restaurantes",
+        cafe: "Cafeterías",
+        station: "Estaciones",
+        parking: "Aparcamientos",
+        fuel: "Gasolineras",
+        hotel: "Hoteles",
+      },
+    },
+    directions: "Cómo llegar",
+    directionsTitle: "Calcular ruta hacia este lugar",
+    save: "Guardar",
+    saveTitle: "Guardar este lugar",
+    sections: {
+      coordinates: "Coordenadas",
+      saved: "Lugares guardados",
+      recent: "Búsquedas recientes",
+      remote: "Resultados",
+    },
+    clearRecent: "Borrar",
+    clearRecentTitle: "Borrar las búsquedas recientes",
+    removeRecent: "Quitar de las búsquedas recientes",
+    errors: {
+      timeout: "La búsqueda tardó demasiado. Inténtalo de nuevo.",
+      failed: "No se pudo completar la búsqueda",
+    },
+  },
+
+  map: {
+    myLocation: "Mi ubicación",
+    pendingPoint: "Punto en el mapa",
+    badges: {
+      current: "Actual",
+      search: "Búsqueda",
+      origin: "Origen",
+      destination: "Destino",
+      saved: "Guardado",
+    },
+  },
+
+  contextMenu: {
+    searchingAddress: "Buscando dirección...",
+    actions: {
+      origin: "Ruta desde aquí",
+      destination: "Ruta hasta aquí",
+      waypoint: "Añadir parada",
+      copy: "Copiar coordenadas",
+      "search-nearby": "Buscar cerca de aquí",
+      save: "Guardar lugar",
+    },
+  },
+
+  savedPlaces: {
+    title: "Lugares guardados",
+    empty:
+      "Aún no hay lugares guardados. Guarda un resultado de búsqueda, un punto del mapa (click derecho) o un punto de la ruta.",
+    categories: {
+      home: "Casa",
+      work: "Trabajo",
+      favorite: "Favorito",
+    },
+    save: "Guardar lugar",
+    saveTitle: "Guardar lugar",
+    editTitle: "Editar lugar",
+    label: "Nombre",
+    category: "Tipo",
+    edit: "Editar",
+    remove: "Borrar",
+    show: "Ver en el mapa",
+    import: "Importar",
+    export: "Exportar",
+    importTitle: "Añadir lugares desde un archivo GeoJSON",
+    exportTitle: "Descargar los lugares como GeoJSON",
+    imported: {
+      one: "{count} lugar importado",
+      other: "{count} lugares importados",
+    },
+    importFailed: "No se pudo leer el archivo GeoJSON",
+  },
+
+  routeHistory: {
+    title: "Historial de rutas",
+    searchPlaceholder: "Buscar rutas y viajes...",
+    empty: "Aún no hay rutas. Las rutas que calcules aparecerán aquí.",
+    noMatches: "Ninguna ruta coincide con la búsqueda",
+    savedTrips: "Viajes guardados",
+    recent: "Recientes",
+    restoreTitle: "Abrir esta ruta",
+    stops: {
+      one: "{count} parada",
+      other: "{count} paradas",
+    },
+    saveTrip: "Guardar viaje",
+    rename: "Renombrar",
+    tripName: "Nombre del viaje",
+    unsave: "Quitar de guardados",
+    remove: "Borrar",
+    clear: "Borrar historial",
+  },
+
+  location: {
+    loading: "Obteniendo ubicación...",
+    retry: "Volver a intentar",
+    deniedHeading: "Permiso denegado:",
+    tipsHeading: "Consejos:",
+    deniedSteps: {
+      lockIcon: "Haz clic en el icono 🔒 o ⓘ en la barra de direcciones del navegador",
+      findPermissions: 'Busca "Permisos" o "Ubicación" en la configuración del sitio',
+      allow: 'Cambia el permiso de "Bloqueado" a "Permitir"',
+      reload: "Recarga la página después de cambiar el permiso",
+    },
+    tips: {
+      allowAccess: "Asegúrate de permitir el acceso a la ubicación en tu navegador",
+      servicesOn: "Verifica que los servicios de ubicación estén activados",
+      reload: "Recarga la página si el problema persiste",
+    },
+    errors: {
+      denied: {
+        title: "Permiso de ubicación denegado",
+        message:
+          "Has bloqueado el acceso a tu ubicación. Para usar esta aplicación necesitas cambiar los permisos manualmente en tu navegador.",
+      },
+      unavailable: {
+        title: "Ubicación no disponible",
+        message:
+          "No se pudo determinar tu ubicación. Verifica que tus servicios de ubicación estén activados.",
+      },
+      timeout: {
+        title: "Tiempo de espera agotado",
+        message:
+          "La solicitud de ubicación tardó demasiado tiempo. Por favor, inténtalo de nuevo.",
+      },
+      unknown: {
+        title: "No se pudo obtener tu ubicación",
+        message:
+          "Para usar esta aplicación necesitamos acceder a tu ubicación. Por favor, verifica los permisos de tu navegador.",
+      },
+    },
+  },
+
+  directions: {
+    title: "Direcciones",
+    originPlaceholder: "Elige punto de partida",
+    destinationPlaceholder: "Elige destino",
+    swap: "Intercambiar origen y destino",
+    calculate: "Calcular ruta",
+    calculating: "Calculando ruta...",
+    recalculate: "Recalcular ruta",
+    recalculating: "Recalculando...",
+    startNavigation: "Iniciar navegación",
+    copyLink: "Copiar enlace",
+    linkCopied: "Enlace copiado",
+    copyLinkManually: "Copia este enlace para compartir la ruta:",
+    clearAll: "Limpiar todo",
+    locationUnavailable:
+      "No se pudo obtener tu ubicación. Asegúrate de dar permisos de ubicación.",
+    missing: {
+      both: "Establece un origen y un destino para calcular la ruta",
+      origin: "Establece un punto de partida",
+      destination: "Establece un destino",
+    },
+  },
+
+  directionsInput: {
+    useMyLocation: "Usar mi ubicación",
+    removeStop: "Eliminar parada",
+  },
+
+  stops: {
+    stopNumber: "Parada {number}",
+    add: "Añadir parada",
+    addTitle: "Añadir una parada intermedia",
+    needOriginAndDestination: "Establece primero origen y destino",
+    dragToReorder: "Arrastra para reordenar",
+  },
+
+  travelModes: {
+    title: "Modo de transporte",
+    driving: {
+      short: "Coche",
+      summary: "En coche",
+      description: "Ruta en coche por carretera",
+    },
+    cycling: {
+      short: "Bici",
+      summary: "En bicicleta",
+      description: "Ruta en bicicleta por carriles y calles",
+    },
+    walking: {
+      short: "Pie",
+      summary: "A pie",
+      description: "Ruta a pie por aceras y senderos",
+    },
+  },
+
+  preferences: {
+    title: "Preferencia de ruta",
+    fastest: {
+      short: "Rápida",
+      label: "Más rápida",
+      description: "La ruta que tarda menos tiempo",
+    },
+    shortest: {
+      short: "Corta",
+      label: "Más corta",
+      description: "La ruta con menos kilómetros",
+    },
+    balanced: {
+      short: "Equilibrada",
+      label: "Equilibrada",
+      description: "Equilibrio entre tiempo y distancia",
+    },
+  },
+
+  avoid: {
+    title: "Evitar",
+    avoidHighways: {
+      label: "Autopistas",
+      description: "Evitar autopistas y autovías",
+    },
+    avoidTolls: {
+      label: "Peajes",
+      description: "Evitar vías de peaje",
+    },
+    avoidFerries: {
+      label: "Ferris",
+      description: "Evitar trayectos en ferry",
+    },
+  },
+
+  optimizer: {
+    optimize: "Optimizar orden",
+    optimizing: "Optimizando...",
+    optimizeTitle: "Reordenar las paradas para tardar lo menos posible",
+    roundTrip: "Ida y vuelta",
+    roundTripTitle: "Terminar la ruta en el origen",
+    alreadyRoundTrip: "La ruta ya vuelve al origen",
+    saved: "Ahorras {time} respecto al orden anterior",
+    alreadyOptimal: "El orden anterior ya era el más rápido",
+  },
+
+  routeInfo: {
+    title: "Ruta calculada",
+    distance: "Distancia",
+    time: "Tiempo",
+    estimatedTime: "Tiempo estimado",
+    durationEstimated: "Tiempo estimado con velocidad media",
+    durationFromEngine: "Tiempo exacto del motor de routing",
+    durationEstimatedWithClimb: "Tiempo estimado con velocidad media y pendientes",
+    showInstructions: "Ver instrucciones",
+    hideInstructions: "Ocultar instrucciones",
+    calculatedAt: "La ruta se calculó {time}",
+    noRoute: "No hay ruta calculada",
+    stepsLabel: "Pasos de la ruta",
+    stepHint: "Pulsa un paso o usa las flechas para recorrer la ruta",
+    stepCounter: "Paso {current} de {total}",
+    previousStep: "Paso anterior",
+    nextStep: "Paso siguiente",
+    clearStep: "Dejar de resaltar el paso",
+    roadClasses: {
+      motorway: {
+        included: "Incluye autopistas",
+        notAvoided: "No se pudieron evitar las autopistas",
+      },
+      toll: {
+        included: "Incluye peajes",
+        notAvoided: "No se pudieron evitar los peajes",
+      },
+      ferry: {
+        included: "Incluye ferris",
+        notAvoided: "No se pudieron evitar los ferris",
+      },
+    },
+  },
+
+  elevation: {
+    title: "Perfil de elevación",
+    loading: "Cargando perfil de elevación...",
+    ascent: "Subida acumulada",
+    descent: "Bajada acumulada",
+    chartLabel: "Perfil de elevación: sube {ascent} y baja {descent}",
+    pointDetail: "{elevation} a {distance}",
+  },
+
+  navigation: {
+    title: "Navegación",
+    exit: "Salir",
+    exitTitle: "Salir de la navegación",
+    waitingForGps: "Esperando la señal del GPS...",
+    offRoute: "Te has salido de la ruta",
+    rerouting: "Recalculando la ruta desde tu posición...",
+    rerouteFailed: "No se pudo recalcular la ruta. Se volverá a intentar.",
+    arrived: "Has llegado a tu destino",
+    finish: "Terminar",
+    remainingTime: "Tiempo",
+    remainingDistance: "Distancia",
+    arrival: "Llegada",
+    recenter: "Volver a mi posición",
+  },
+
+  alternatives: {
+    title: "Rutas disponibles",
+    current: "Ruta actual",
+    alternative: "Alternativa {number}",
+  },
+
+  routingError: {
+    title: "Error al calcular la ruta",
+    thePoint: "el punto",
+    movePointNearRoad: "Mueve {point} más cerca de una calle arrastrándolo en el mapa.",
+    movePointIntoCoverage: "Mueve {point} dentro de la zona del mapa arrastrándolo en el mapa.",
+    showPoint: "Ver punto",
+    removeStopsHint: "Quita alguna parada intermedia y vuelve a intentarlo.",
+    removeRestrictions: "Quitar restricciones",
+    tryMode: {
+      driving: "Probar en coche",
+      cycling: "Probar en bici",
+      walking: "Probar a pie",
+    },
+  },
+
+  routingErrors: {
+    NO_ROUTE: "No hay ningún camino entre estos puntos con este modo de transporte.",
+    POINT_TOO_FAR: "Uno de los puntos está demasiado lejos de cualquier calle o camino.",
+    OUT_OF_COVERAGE: "Uno de los puntos está fuera de la zona que cubre el servidor de rutas.",
+    TOO_MANY_WAYPOINTS: "Hay demasiadas paradas para calcular la ruta de una vez.",
+    ROUTE_TOO_LONG: "La ruta es demasiado larga para este modo de transporte.",
+    UNSUPPORTED_OPTIONS: "El servidor de rutas no permite evitar los tipos de vía elegidos.",
+    INVALID_WAYPOINTS: "Alguno de los puntos de la ruta no es válido.",
+    OFFLINE: "No hay conexión a internet.",
+    NETWORK_ERROR: "El servidor de rutas no está disponible ahora mismo.",
+    TIMEOUT: "El servidor de rutas tardó demasiado en responder.",
+    RATE_LIMITED: "Demasiadas peticiones al servidor de rutas. Espera unos segundos.",
+    API_ERROR: "El servidor de rutas no pudo procesar la petición.",
+  },
+
+  errors: {
+    missingWaypoints: "Necesitas al menos un origen y un destino",
+    noRouteFound: "No se encontró ninguna ruta",
+    routeFailed: "No se pudo calcular la ruta",
+    durationsFailed: "No se pudieron recalcular los tiempos",
+    optimizationFailed: "No se pudo optimizar el orden de las paradas",
+    optimizationNeedsStops:
+      "Se necesita al menos una parada intermedia para optimizar el orden",
+    optimizationUnsupported:
+      "El motor de rutas configurado no permite optimizar el orden de las paradas",
+    apiKeyRejected: "El servidor de rutas rechazó la petición (revisa la API key).",
+    rateLimited: "Demasiadas peticiones a {host}. Espera unos segundos y vuelve a intentarlo.",
+    rateLimitedWait: {
+      one: "Demasiadas peticiones a {host}. Espera {count} segundo y vuelve a intentarlo.",
+      other: "Demasiadas peticiones a {host}. Espera unos {count} segundos y vuelve a intentarlo.",
+    },
+  },
+
+  instructions: {
+    onRoad: "por {road}",
+    ontoRoad: "por {road}",
+    intoRoad: "a {road}",
+    towards: "hacia {target}",
+    depart: "Sal{road}",
+    arrive: "Llegarás a tu destino",
+    via: "Llegarás a la parada",
+    uturn: "Cambia de sentido{road}",
+    straight: "Sigue recto{road}",
+    turn: "Gira {direction}{road}{towards}",
+    merge: "Incorpórate{side}{road}{towards}",
+    fork: "En la bifurcación, mantente{side}{target}",
+    endOfRoad: "Al final de la vía, gira{side}{road}{towards}",
+    onRamp: "Toma el acceso{side}{target}",
+    offRamp: "Toma {exit}{side}{target}",
+    anyExit: "la salida",
+    exitNumber: "la salida {exit}",
+    ordinalExit: "la {ordinal} salida",
+    roundabout: "Entra en la rotonda y sal{target}",
+    roundaboutExit: "En la rotonda, toma {exit}{target}",
+    exitRoundabout: "Sal de la rotonda{target}",
+    ferry: "Toma el ferri{name}",
+    continue: "Continúa{road}",
+    continueDirection: "Continúa {direction}{road}",
+    sides: {
+      right: "a la derecha",
+      left: "a la izquierda",
+      straight: "recto",
+    },
+    directions: {
+      uturn: "cambiando de sentido",
+      sharpRight: "bruscamente a la derecha",
+      right: "a la derecha",
+      slightRight: "ligeramente a la derecha",
+      straight: "recto",
+      slightLeft: "ligeramente a la izquierda",
+      left: "a la izquierda",
+      sharpLeft: "bruscamente a la izquierda",
+    },
+    ordinals: {
+      first: "primera",
+      second: "segunda",
+      third: "tercera",
+      fourth: "cuarta",
+      fifth: "quinta",
+      sixth: "sexta",
+      seventh: "séptima",
+      eighth: "octava",
+      ninth: "novena",
+      tenth: "décima",
+    },
+  },
+};
+
+/**
+ * Messages: Forma que tienen que cumplir todos los catálogos
+ */
+export type Messages = typeof es;
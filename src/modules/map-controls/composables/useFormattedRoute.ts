@@ -2,93 +2,139 @@
 
 import { computed } from "vue";
 import type { Ref } from "vue";
-import type { Route } from "@/modules/map/interfaces/routing.interfaces";
+import type {
+  RoadClass,
+  Route,
+  RouteAvoidOptions,
+  RouteSegment,
+} from "@/modules/map/interfaces/routing.interfaces";
+import { buildInstruction } from "@/modules/map/services/instructions";
+import { t } from "@/modules/i18n/i18n";
+import {
+  formatDistance,
+  formatDuration,
+  formatRelativeTime,
+} from "@/modules/i18n/format";
 
 // El composable recibe la prop 'route' como una Ref.
 // Esto es para que cuando la prop cambie, los 'computed' también cambien.
 export function useFormattedRoute(route: Ref<Route | null>) {
-  // --- 1. UTILS GENÉRICAS
-  // Las ponemos aquí. Ahora son "ayudantes" privados de este composable.
-  // Pero también las devolveremos por si el componente las necesita (como en tu v-for).
-
-  const formatDistance = (meters: number): string => {
-    if (meters >= 1000) {
-      return `${(meters / 1000).toFixed(1)} km`;
-    }
-    return `${Math.round(meters)} m`;
-  };
-
-  const formatDuration = (seconds: number): string => {
-    if (seconds < 60) {
-      return `${Math.round(seconds)} seg`;
-    }
-    const minutes = Math.floor(seconds / 60);
-    if (minutes < 60) {
-      return `${minutes} min`;
-    }
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return `${hours}h ${remainingMinutes}min`;
-  };
-
-  // --- 2. PROPIEDADES COMPUTADAS
+  // --- 1. PROPIEDADES COMPUTADAS
   // Ahora dependen de 'route.value' en lugar de 'props.route'.
+  // El formato (idioma y km/mi) sale del módulo común de i18n/format.
 
   const formattedDistance = computed(() => {
     if (!route.value) return "";
-    // Usamos nuestra propia función ayudante
     return formatDistance(route.value.distance);
   });
 
   const formattedDuration = computed(() => {
     if (!route.value) return "";
-    const seconds = route.value.duration;
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}min`;
-    }
-    return `${minutes} min`;
+    return formatDuration(route.value.duration);
   });
 
   const travelModeText = computed((): string => {
     if (!route.value) return "";
-    const modeTexts = {
-      driving: "En coche",
-      cycling: "En bicicleta",
-      walking: "A pie",
-    };
-    return modeTexts[route.value.travelMode] || "";
+    return t(`travelModes.${route.value.travelMode}.summary`);
   });
 
-  const calculatedAtText = computed((): string => {
+  // Las rutas sin durationMethod son de antes de tener perfiles reales:
+  // en coche el tiempo era del motor y en bici/a pie se estimaba.
+  const isEstimatedDuration = computed((): boolean => {
+    if (!route.value) return false;
+    if (route.value.durationMethod) {
+      return route.value.durationMethod === "estimated";
+    }
+    return route.value.travelMode !== "driving";
+  });
+
+  const durationMethodText = computed((): string => {
     if (!route.value) return "";
-    const date = new Date(route.value.calculatedAt);
-    const now = new Date();
-    const diffMinutes = Math.floor(
-      (now.getTime() - date.getTime()) / 1000 / 60
+    if (!isEstimatedDuration.value) return t("routeInfo.durationFromEngine");
+
+    // En bici y a pie, con perfil de elevación se tienen en cuenta las pendientes
+    return route.value.elevation && route.value.travelMode !== "driving"
+      ? t("routeInfo.durationEstimatedWithClimb")
+      : t("routeInfo.durationEstimated");
+  });
+
+  // Avisos de tipos de vía: si la ruta pasa por autopistas, peajes o ferris
+  // (según las "classes" de sus segmentos), y si el usuario pidió evitarlos.
+  const roadClassWarnings = computed(() => {
+    if (!route.value) return [];
+
+    const avoidKeys: Record<RoadClass, keyof RouteAvoidOptions> = {
+      motorway: "avoidHighways",
+      toll: "avoidTolls",
+      ferry: "avoidFerries",
+    };
+
+    const usedClasses = new Set(
+      route.value.segments.flatMap((segment) => segment.classes || [])
     );
 
-    if (diffMinutes < 1) return "hace un momento";
-    if (diffMinutes < 60)
-      return `hace ${diffMinutes} minuto${diffMinutes > 1 ? "s" : ""}`;
+    return (Object.keys(avoidKeys) as RoadClass[])
+      .filter((roadClass) => usedClasses.has(roadClass))
+      .map((roadClass) => {
+        const wasAvoided = !!route.value?.options?.[avoidKeys[roadClass]];
+        return {
+          roadClass,
+          wasAvoided,
+          text: wasAvoided
+            ? t(`routeInfo.roadClasses.${roadClass}.notAvoided`)
+            : t(`routeInfo.roadClasses.${roadClass}.included`),
+        };
+      });
+  });
+
+  // Resumen de cada tramo (origen → parada 1 → ... → destino).
+  // Solo tiene sentido con paradas intermedias: con un tramo es la ruta entera.
+  const legSummaries = computed(() => {
+    if (!route.value?.legs || route.value.legs.length < 2) return [];
 
-    const hours = Math.floor(diffMinutes / 60);
-    return `hace ${hours} hora${hours > 1 ? "s" : ""}`;
+    const names = [...route.value.waypoints]
+      .sort((a, b) => a.order - b.order)
+      .map((wp) => wp.name);
+
+    return route.value.legs.map((leg) => ({
+      index: leg.index,
+      from: names[leg.index] ?? "",
+      to: names[leg.index + 1] ?? "",
+      distance: formatDistance(leg.distance),
+      duration: formatDuration(leg.duration),
+    }));
   });
 
-  // --- 3. LO QUE DEVOLVEMOS ---
+  const calculatedAtText = computed((): string => {
+    if (!route.value) return "";
+    // Las rutas de la caché traen la fecha como string
+    return formatRelativeTime(new Date(route.value.calculatedAt).getTime());
+  });
+
+  // Texto de cada paso: con maniobra se construye en el idioma activo;
+  // sin ella (rutas antiguas en caché) se usa el texto guardado.
+  const formatInstruction = (segment: RouteSegment): string => {
+    return segment.maneuver
+      ? buildInstruction(segment.maneuver)
+      : segment.instruction;
+  };
+
+  // --- 2. LO QUE DEVOLVEMOS ---
   // Devolvemos todo lo que el componente necesita usar.
   return {
     // Las propiedades computadas para el resumen
     formattedDistance,
     formattedDuration,
     travelModeText,
+    isEstimatedDuration,
+    durationMethodText,
+    roadClassWarnings,
+    legSummaries,
     calculatedAtText,
 
     // Las funciones genéricas para el v-for de instrucciones
     formatDistance,
     formatDuration,
+    formatInstruction,
   };
 }
@@ -0,0 +1,244 @@
+import { computed, onBeforeUnmount, ref, watch } from "vue";
+import { useRoute, useRouter } from "vue-router";
+import { useMapStore } from "@/modules/map/stores/map.store";
+import { usePlacesStore } from "@/modules/map/stores/places.store";
+import { useRoutingStore } from "@/modules/map/stores/routing.store";
+import {
+  buildMapLinkQuery,
+  isSameMapLinkQuery,
+  parseMapLink,
+} from "@/modules/map/services/map-link";
+import type {
+  MapLinkState,
+  MapViewport,
+} from "@/modules/map/interfaces/map-link.interfaces";
+import { t } from "@/modules/i18n/i18n";
+
+/**
+ * Espera (ms) antes de actualizar la URL: al mover el mapa o escribir
+ * se cambia una sola vez al terminar
+ */
+const URL_UPDATE_DELAY_MS = 500;
+
+/**
+ * Tiempo (ms) que se muestra "Enlace copiado"
+ */
+const LINK_COPIED_MS = 2000;
+
+/**
+ * getMapViewport: Centro y zoom actuales del mapa (null si aún no hay mapa)
+ */
+const getMapViewport = (): MapViewport | null => {
+  const map = useMapStore().getMapInstance();
+  if (!map) return null;
+
+  const { lat, lng } = map.getCenter();
+  return { center: [lat, lng], zoom: map.getZoom() };
+};
+
+/**
+ * getMapLinkState: Estado actual de la app que se guarda en el enlace
+ *
+ * @param viewport - Centro y zoom del mapa
+ */
+const getMapLinkState = (viewport: MapViewport | null): MapLinkState => {
+  const routingStore = useRoutingStore();
+  const placesStore = usePlacesStore();
+
+  return {
+    mode: routingStore.uiMode,
+    waypoints: routingStore.waypoints.map(({ name, coordinates }) => ({
+      name,
+      coordinates,
+    })),
+    travelMode: routingStore.travelMode,
+    alternative: routingStore.alternativeRoutes.findIndex(
+      (route) => route.isSelected
+    ),
+    query: placesStore.searchQuery,
+    viewport,
+  };
+};
+
+/**
+ * Composable que mantiene la URL sincronizada con el estado del mapa
+ *
+ * Características:
+ * - Al abrir la app con un enlace (?mode=directions&wp=...), reconstruye
+ *   el modo, los puntos, el modo de transporte, la alternativa elegida,
+ *   la búsqueda y la vista del mapa (y vuelve a calcular la ruta)
+ * - Después, cada cambio se refleja en la URL (sin añadir entradas
+ *   al historial), así que copiar la URL del navegador también sirve
+ *
+ * Se usa una sola vez, en la vista del mapa (el mapa aún puede no
+ * existir: el enlace se aplica cuando esté listo).
+ */
+export const useMapLinkSync = () => {
+  const route = useRoute();
+  const router = useRouter();
+  const mapStore = useMapStore();
+  const routingStore = useRoutingStore();
+  const placesStore = usePlacesStore();
+
+  /**
+   * viewport: Centro y zoom del mapa (se actualiza al terminar de moverlo)
+   */
+  const viewport = ref<MapViewport | null>(null);
+
+  /**
+   * isSyncing: La URL solo se actualiza después de aplicar el enlace
+   * (si no, la primera actualización lo borraría)
+   */
+  const isSyncing = ref(false);
+
+  let urlTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const handleMoveEnd = () => {
+    viewport.value = getMapViewport();
+  };
+
+  /**
+   * applyMapLink: Reconstruye el estado guardado en el enlace
+   */
+  const applyMapLink = async (state: MapLinkState) => {
+    if (state.viewport) {
+      const [lat, lng] = state.viewport.center;
+      mapStore.setCenter(lat, lng, state.viewport.zoom);
+    }
+
+    if (state.mode === "directions") {
+      routingStore.setDirectionsMode();
+    }
+    routingStore.setTravelMode(state.travelMode);
+
+    if (state.waypoints.length > 0) {
+      routingStore.replaceWaypoints(state.waypoints);
+    }
+
+    if (state.mode === "search" && state.query) {
+      placesStore.searchPlaces(state.query);
+    }
+
+    if (routingStore.canCalculateRoute) {
+      // Con vista en el enlace, el mapa no se ajusta a la ruta
+      mapStore.setKeepViewOnNextRoute(state.viewport !== null);
+      await routingStore.calculateRoute();
+      mapStore.setKeepViewOnNextRoute(false);
+
+      if (state.alternative < routingStore.alternativeRoutes.length) {
+        routingStore.selectAlternativeRoute(state.alternative);
+      }
+    }
+  };
+
+  /**
+   * start: Aplica el enlace (si lo hay) y empieza a seguir los cambios
+   */
+  const start = async () => {
+    const map = mapStore.getMapInstance();
+    if (!map || isSyncing.value) return;
+
+    const state = parseMapLink(route.query);
+    if (state) {
+      try {
+        await applyMapLink(state);
+      } catch (error) {
+        console.error("Error abriendo el enlace:", error);
+      }
+    }
+
+    map.on("moveend", handleMoveEnd);
+    viewport.value = getMapViewport();
+    isSyncing.value = true;
+  };
+
+  /**
+   * linkQuery: Parámetros de la URL para el estado actual
+   */
+  const linkQuery = computed(() =>
+    buildMapLinkQuery(getMapLinkState(viewport.value), route.query)
+  );
+
+  watch(() => mapStore.mapInstance, start, { immediate: true });
+
+  watch([linkQuery, isSyncing], ([query, syncing]) => {
+    if (!syncing) return;
+
+    if (urlTimer) clearTimeout(urlTimer);
+    urlTimer = setTimeout(() => {
+      urlTimer = null;
+      if (!isSameMapLinkQuery(query, route.query)) {
+        router.replace({ query });
+      }
+    }, URL_UPDATE_DELAY_MS);
+  });
+
+  onBeforeUnmount(() => {
+    if (urlTimer) clearTimeout(urlTimer);
+    mapStore.getMapInstance()?.off("moveend", handleMoveEnd);
+  });
+};
+
+/**
+ * Composable para compartir el estado actual con un enlace
+ *
+ * copyLink copia al portapapeles la URL que reconstruye la búsqueda
+ * o la ruta actual (ver useMapLinkSync). Si el navegador no deja
+ * usar el portapapeles, se muestra el enlace para copiarlo a mano.
+ */
+export const useMapLink = () => {
+  const route = useRoute();
+  const router = useRouter();
+
+  /**
+   * isLinkCopied: true durante un momento después de copiar el enlace
+   */
+  const isLinkCopied = ref(false);
+  let copiedTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * getShareUrl: URL completa del estado actual
+   */
+  const getShareUrl = (): string => {
+    const query = buildMapLinkQuery(
+      getMapLinkState(getMapViewport()),
+      route.query
+    );
+    return new URL(router.resolve({ query }).href, window.location.origin)
+      .href;
+  };
+
+  /**
+   * copyLink: Copia el enlace al portapapeles
+   */
+  const copyLink = async () => {
+    const url = getShareUrl();
+
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (error) {
+      console.warn("No se pudo copiar el enlace:", error);
+      window.prompt(t("directions.copyLinkManually"), url);
+      return;
+    }
+
+    isLinkCopied.value = true;
+    if (copiedTimer) clearTimeout(copiedTimer);
+    copiedTimer = setTimeout(() => {
+      isLinkCopied.value = false;
+    }, LINK_COPIED_MS);
+  };
+
+  onBeforeUnmount(() => {
+    if (copiedTimer) clearTimeout(copiedTimer);
+  });
+
+  return {
+    // State
+    isLinkCopied,
+
+    // Actions
+    getShareUrl,
+    copyLink,
+  };
+};
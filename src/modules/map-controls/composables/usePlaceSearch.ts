@@ -33,6 +33,11 @@ export const usePlaceSearch = (options?: {
     return placesStore.searchResults.slice(0, maxResults);
   });
 
+  /**
+   * Mensaje de error de la última búsqueda (ej: demasiadas peticiones)
+   */
+  const searchError = computed(() => placesStore.searchError);
+
   /**
    * Ejecuta la búsqueda con debounce
    * @param query - Texto a buscar
@@ -86,6 +91,7 @@ export const usePlaceSearch = (options?: {
 
     // Getters
     filteredResults,
+    searchError,
 
     // Actions
     search,
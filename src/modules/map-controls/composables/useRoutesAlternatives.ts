@@ -1,5 +1,14 @@
 import { computed } from "vue";
 import { useRoutingStore } from "@/modules/map/stores/routing.store";
+import { getRouteScore } from "@/modules/map/services/route-ranking";
+import { t } from "@/modules/i18n/i18n";
+import {
+  formatDistance,
+  formatDistanceDifference,
+  formatDuration,
+  formatDurationDifference,
+} from "@/modules/i18n/format";
+
 export const useRoutesAlternatives = () => {
   const routingStore = useRoutingStore();
 
@@ -19,7 +28,7 @@ export const useRoutesAlternatives = () => {
 
   /**
    * allRoutes: Todas las rutas (principal + alternativas) con info adicional
-   * ORDENADAS de más rápida a más lenta
+   * ORDENADAS según la preferencia del usuario (la mejor primero)
    */
   const allRoutes = computed(() => {
     if (!currentRoute.value) return [];
@@ -40,18 +49,32 @@ export const useRoutesAlternatives = () => {
     // Encontrar la ruta más rápida
     const fastestDuration = Math.min(...routes.map((r) => r.route.duration));
 
-    const routesWithInfo = routes.map((r) => ({
+    // La mejor según la preferencia es la referencia para las diferencias
+    const preference = routingStore.routePreference;
+    const candidates = routes.map((r) => r.route);
+    const sortedRoutes = [...routes].sort(
+      (a, b) =>
+        getRouteScore(a.route, preference, candidates) -
+        getRouteScore(b.route, preference, candidates)
+    );
+    const bestRoute = sortedRoutes[0]!.route;
+
+    return sortedRoutes.map((r) => ({
       ...r,
+      isBest: r.route === bestRoute,
       isFastest: r.route.duration === fastestDuration,
-      timeDiff: r.route.duration - fastestDuration,
-      distanceDiff:
-        r.route.distance -
-        routes.find((fr) => fr.route.duration === fastestDuration)!.route
-          .distance,
+      timeDiff: r.route.duration - bestRoute.duration,
+      distanceDiff: r.route.distance - bestRoute.distance,
     }));
+  });
 
-    // Ordenar por duración (más rápida primero)
-    return routesWithInfo.sort((a, b) => a.route.duration - b.route.duration);
+  /**
+   * bestRouteLabel: Texto del badge de la mejor ruta según la preferencia
+   */
+  const bestRouteLabel = computed(() => {
+    const icons = { fastest: "⚡", shortest: "📏", balanced: "⚖️" };
+    const preference = routingStore.routePreference;
+    return `${icons[preference]} ${t(`preferences.${preference}.label`)}`;
   });
 
   // ============================================
@@ -68,68 +91,18 @@ export const useRoutesAlternatives = () => {
     routingStore.selectAlternativeRoute(index);
   };
 
-  /**
-   * formatDuration: Formatea la duración en formato legible
-   */
-  const formatDuration = (seconds: number): string => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}min`;
-    }
-    return `${minutes}min`;
-  };
-
-  /**
-   * formatDistance: Formatea la distancia en formato legible
-   */
-  const formatDistance = (meters: number): string => {
-    if (meters >= 1000) {
-      return `${(meters / 1000).toFixed(1)} km`;
-    }
-    return `${Math.round(meters)} m`;
-  };
-
-  /**
-   * formatTimeDifference: Formatea la diferencia de tiempo
-   */
-  const formatTimeDifference = (diffSeconds: number): string => {
-    const absMinutes = Math.abs(Math.floor(diffSeconds / 60));
-    const sign = diffSeconds >= 0 ? "+" : "-";
-
-    if (absMinutes < 1) return `${sign}<1 min`;
-    if (absMinutes < 60) return `${sign}${absMinutes} min`;
-
-    const hours = Math.floor(absMinutes / 60);
-    const remainingMinutes = absMinutes % 60;
-    return `${sign}${hours}h ${remainingMinutes}min`;
-  };
-
-  /**
-   * formatDistanceDifference: Formatea la diferencia de distancia
-   */
-  const formatDistanceDifference = (diffMeters: number): string => {
-    const absMeters = Math.abs(diffMeters);
-    const sign = diffMeters >= 0 ? "+" : "-";
-
-    if (absMeters >= 1000) {
-      return `${sign}${(absMeters / 1000).toFixed(1)} km`;
-    }
-    return `${sign}${Math.round(absMeters)} m`;
-  };
-
   return {
     // State
     currentRoute,
     alternativeRoutes,
     hasAlternatives,
     allRoutes,
+    bestRouteLabel,
     // Methods
     handleSelectRoute,
     formatDuration,
     formatDistance,
-    formatTimeDifference,
+    formatDurationDifference,
     formatDistanceDifference,
   };
 };
@@ -0,0 +1,78 @@
+import { computed, onBeforeUnmount, ref, watch } from "vue";
+import { useMapStore } from "@/modules/map/stores/map.store";
+import { usePlacesStore } from "@/modules/map/stores/places.store";
+import { hasSearchTerms } from "@/modules/map/services/place-search";
+
+/**
+ * Composable para el botón "Buscar en esta zona"
+ *
+ * Características:
+ * - El botón aparece cuando el mapa se mueve después de una búsqueda
+ *   (con texto o con un tipo de lugar)
+ * - Al pulsarlo, la búsqueda se repite solo dentro de la vista del mapa
+ * - Se oculta en cuanto empieza otra búsqueda
+ *
+ * El mapa puede no existir aún: se escucha cuando esté listo.
+ */
+export const useSearchArea = () => {
+  const mapStore = useMapStore();
+  const placesStore = usePlacesStore();
+
+  /**
+   * hasMapMoved: ¿Se ha movido el mapa desde la última búsqueda?
+   */
+  const hasMapMoved = ref(false);
+
+  const handleMoveEnd = () => {
+    hasMapMoved.value = true;
+  };
+
+  /**
+   * showSearchAreaButton: ¿Se ofrece "Buscar en esta zona"?
+   */
+  const showSearchAreaButton = computed(
+    () =>
+      hasMapMoved.value &&
+      !placesStore.isSearching &&
+      hasSearchTerms(placesStore.searchQuery, placesStore.searchFilters)
+  );
+
+  /**
+   * searchThisArea: Repite la búsqueda en la vista del mapa
+   */
+  const searchThisArea = () => {
+    placesStore.searchInMapArea();
+  };
+
+  // Escuchar el mapa cuando esté listo (y dejar de escuchar el anterior)
+  let listenedMap: ReturnType<typeof mapStore.getMapInstance> = null;
+  watch(
+    () => mapStore.mapInstance,
+    () => {
+      listenedMap?.off("moveend", handleMoveEnd);
+      listenedMap = mapStore.getMapInstance();
+      listenedMap?.on("moveend", handleMoveEnd);
+    },
+    { immediate: true }
+  );
+
+  // Cada búsqueda parte de la vista actual
+  watch(
+    () => placesStore.isSearching,
+    (isSearching) => {
+      if (isSearching) hasMapMoved.value = false;
+    }
+  );
+
+  onBeforeUnmount(() => {
+    listenedMap?.off("moveend", handleMoveEnd);
+  });
+
+  return {
+    // Getters
+    showSearchAreaButton,
+
+    // Actions
+    searchThisArea,
+  };
+};
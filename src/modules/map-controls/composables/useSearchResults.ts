@@ -2,12 +2,28 @@
 import { usePlacesStore } from "@/modules/map/stores/places.store";
 import { useMapStore } from "@/modules/map/stores/map.store";
 import { useRoutingStore } from "@/modules/map/stores/routing.store";
-import { computed, watch } from "vue";
-
-export const useSearchResults = () => {
+import { useSavedPlacesStore } from "@/modules/map/stores/saved-places.store";
+import { useSearchHistoryStore } from "@/modules/map/stores/search-history.store";
+import type { PlaceSuggestion } from "@/modules/map/interfaces/search.interfaces";
+import { useSearchSuggestions } from "./useSearchSuggestions";
+import { computed, watch, type MaybeRefOrGetter } from "vue";
+
+/**
+ * @param query - Texto escrito en el buscador (para las sugerencias locales)
+ */
+export const useSearchResults = (query: MaybeRefOrGetter<string>) => {
   const placesStore = usePlacesStore();
   const mapStore = useMapStore();
   const routingStore = useRoutingStore();
+  const savedPlacesStore = useSavedPlacesStore();
+  const searchHistoryStore = useSearchHistoryStore();
+
+  // Sugerencias por secciones: coordenadas, guardados, recientes y resultados
+  // (todos los resultados, también los de "Más resultados")
+  const { sections, recordSelection } = useSearchSuggestions(query, {
+    maxRemote: Infinity,
+    remoteWhenEmpty: true,
+  });
 
   // Función para determinar el zoom según el tipo de dirección
   const getZoomByAddressType = (addresstype: string): number => {
@@ -46,6 +62,10 @@ export const useSearchResults = () => {
       poi: 17,
       shop: 18,
       restaurant: 18,
+
+      // Lugares guardados y coordenadas escritas - zoom cercano
+      saved: 17,
+      coordinates: 17,
     };
 
     // Retornar el zoom específico o un valor por defecto
@@ -62,6 +82,7 @@ export const useSearchResults = () => {
       const [lat, lon] = place.coordinates;
       const zoom = getZoomByAddressType(place.addresstype);
       mapStore.setCenterWithAnimation(lat, lon, zoom, 2100);
+      searchHistoryStore.addPlace(place);
     }
     placesStore.setActivePlaceId(placeId);
   };
@@ -94,6 +115,8 @@ export const useSearchResults = () => {
       return;
     }
 
+    searchHistoryStore.addPlace(place);
+
     // 1. Cambiar al modo de direcciones
     routingStore.setDirectionsMode();
 
@@ -108,7 +131,7 @@ export const useSearchResults = () => {
     // 3. Intentar establecer la ubicación actual como ORIGEN
     if (placesStore.isUserLocationReady && placesStore.userLocation) {
       const [userLat, userLon] = placesStore.userLocation;
-      routingStore.setOrigin("Mi ubicación", [userLat, userLon]);
+      routingStore.setOrigin(placesStore.userLocationName, [userLat, userLon]);
 
       // 4. Calcular la ruta automáticamente
       // (solo si tenemos origen y destino)
@@ -122,16 +145,90 @@ export const useSearchResults = () => {
     mapStore.setCenterWithAnimation(lat, lon, zoom, 2100);
   };
 
+  /**
+   * onSuggestionClick: Mueve el mapa a una sugerencia local
+   * (coordenadas, lugar guardado o búsqueda reciente)
+   */
+  const onSuggestionClick = (suggestion: PlaceSuggestion) => {
+    const [lat, lon] = suggestion.place.coordinates;
+    const zoom = getZoomByAddressType(suggestion.place.addresstype);
+    mapStore.setCenterWithAnimation(lat, lon, zoom, 2100);
+    recordSelection(suggestion);
+  };
+
+  /**
+   * handleSuggestionDirections: "Cómo llegar" a una sugerencia local
+   * (desde la ubicación del usuario; un lugar guardado, con el nombre que le dio)
+   */
+  const handleSuggestionDirections = (suggestion: PlaceSuggestion) => {
+    recordSelection(suggestion);
+    routingStore.setWaypointFromMap(
+      "destination",
+      suggestion.place.coordinates,
+      suggestion.place.name
+    );
+  };
+
+  /**
+   * handleSaveSuggestion: Abre el diálogo para guardar una sugerencia local
+   */
+  const handleSaveSuggestion = (suggestion: PlaceSuggestion) => {
+    const { name, coordinates, id } = suggestion.place;
+    savedPlacesStore.startSaving(name, coordinates, id);
+  };
+
+  /**
+   * removeRecentSearch: Quita una búsqueda reciente del historial
+   */
+  const removeRecentSearch = (suggestion: PlaceSuggestion) => {
+    if (suggestion.recentSearch) {
+      searchHistoryStore.removeEntry(suggestion.recentSearch);
+    }
+  };
+
+  /**
+   * canLoadMore: ¿Se ofrece "Más resultados"?
+   * (solo con los resultados del texto escrito a la vista)
+   */
+  const canLoadMore = computed(
+    () =>
+      placesStore.hasMoreResults &&
+      !placesStore.isSearching &&
+      sections.value.some((section) => section.source === "remote")
+  );
+
+  /**
+   * handleSavePlace: Abre el diálogo para guardar un resultado de búsqueda
+   *
+   * @param placeId - ID del lugar en los resultados
+   */
+  const handleSavePlace = (placeId: number) => {
+    const place = placesStore.searchResults.find((p) => p.id === placeId);
+    if (place) {
+      savedPlacesStore.startSaving(place.name, place.coordinates, place.id);
+    }
+  };
+
   return {
     // State
     results: computed(() => placesStore.searchResults),
+    sections,
     isSearching: computed(() => placesStore.isSearching),
+    searchError: computed(() => placesStore.searchError),
     activePlace: computed(() => placesStore.activePlaceId),
 
     // Getters
+    canLoadMore,
 
     // Actions
     onPlaceClick,
     handleGetDirections, // Nueva acción
+    onSuggestionClick,
+    handleSuggestionDirections,
+    handleSaveSuggestion,
+    handleSavePlace,
+    removeRecentSearch,
+    clearRecentSearches: searchHistoryStore.clearHistory,
+    loadMoreResults: placesStore.loadMoreResults,
   };
 };
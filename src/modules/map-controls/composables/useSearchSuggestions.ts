@@ -0,0 +1,141 @@
+import { computed, toValue, type MaybeRefOrGetter } from "vue";
+import { usePlacesStore } from "@/modules/map/stores/places.store";
+import { useSavedPlacesStore } from "@/modules/map/stores/saved-places.store";
+import { useSearchHistoryStore } from "@/modules/map/stores/search-history.store";
+import type {
+  PlaceSuggestion,
+  SuggestionSection,
+} from "@/modules/map/interfaces/search.interfaces";
+import {
+  coordinatesSuggestion,
+  mergeSuggestionSections,
+  recentSearchSuggestion,
+  remotePlaceSuggestion,
+  savedPlaceSuggestion,
+} from "@/modules/map/services/search-suggestions";
+
+/**
+ * Composable con las sugerencias del autocompletado, por secciones
+ *
+ * Características:
+ * - Coordenadas escritas, lugares guardados y búsquedas recientes al instante
+ * - Resultados de Nominatim cuando llegan (solo los del texto actual:
+ *   mientras se escribe no se mezclan resultados de un texto anterior)
+ * - Sin lugares repetidos entre secciones
+ * - Con el texto vacío, las búsquedas recientes (y los lugares guardados
+ *   si se pide, o los resultados de buscar solo un tipo de lugar)
+ *
+ * La búsqueda en Nominatim la lanza quien usa el composable
+ * (normalmente con usePlaceSearch)
+ *
+ * @param query - Texto escrito
+ * @param options - Opciones de configuración
+ * @param options.maxSaved - Máximo de lugares guardados (default: 3)
+ * @param options.maxRecent - Máximo de búsquedas recientes (default: 3)
+ * @param options.maxRecentWhenEmpty - Máximo de recientes con el texto vacío (default: 5)
+ * @param options.maxRemote - Máximo de resultados de Nominatim (default: 5)
+ * @param options.savedWhenEmpty - Ofrecer los lugares guardados con el texto vacío (default: false)
+ * @param options.remoteWhenEmpty - Ofrecer con el texto vacío los resultados de buscar
+ * solo un tipo de lugar, ej: restaurantes en la zona (default: false)
+ */
+export const useSearchSuggestions = (
+  query: MaybeRefOrGetter<string>,
+  options?: {
+    maxSaved?: number;
+    maxRecent?: number;
+    maxRecentWhenEmpty?: number;
+    maxRemote?: number;
+    savedWhenEmpty?: boolean;
+    remoteWhenEmpty?: boolean;
+  }
+) => {
+  const {
+    maxSaved = 3,
+    maxRecent = 3,
+    maxRecentWhenEmpty = 5,
+    maxRemote = 5,
+    savedWhenEmpty = false,
+    remoteWhenEmpty = false,
+  } = options || {};
+
+  const placesStore = usePlacesStore();
+  const savedPlacesStore = useSavedPlacesStore();
+  const searchHistoryStore = useSearchHistoryStore();
+
+  /**
+   * Secciones con sugerencias, en orden: coordenadas, guardados,
+   * recientes y resultados de Nominatim
+   */
+  const sections = computed<SuggestionSection[]>(() => {
+    const text = toValue(query).trim();
+    const remoteResults =
+      placesStore.searchQuery.trim() === text
+        ? placesStore.searchResults.slice(0, maxRemote)
+        : [];
+
+    if (!text) {
+      return mergeSuggestionSections([
+        {
+          source: "saved",
+          suggestions: savedWhenEmpty
+            ? savedPlacesStore.findPlaces("", maxSaved).map(savedPlaceSuggestion)
+            : [],
+        },
+        {
+          source: "recent",
+          suggestions: searchHistoryStore
+            .findEntries("", maxRecentWhenEmpty)
+            .map(recentSearchSuggestion),
+        },
+        {
+          source: "remote",
+          suggestions: remoteWhenEmpty
+            ? remoteResults.map(remotePlaceSuggestion)
+            : [],
+        },
+      ]);
+    }
+
+    const coordinates = coordinatesSuggestion(text);
+
+    return mergeSuggestionSections([
+      { source: "coordinates", suggestions: coordinates ? [coordinates] : [] },
+      {
+        source: "saved",
+        suggestions: savedPlacesStore
+          .findPlaces(text, maxSaved)
+          .map(savedPlaceSuggestion),
+      },
+      {
+        source: "recent",
+        suggestions: searchHistoryStore
+          .findEntries(text, maxRecent)
+          .map(recentSearchSuggestion),
+      },
+      { source: "remote", suggestions: remoteResults.map(remotePlaceSuggestion) },
+    ]);
+  });
+
+  /**
+   * ¿Hay alguna sugerencia?
+   */
+  const hasSuggestions = computed(() => sections.value.length > 0);
+
+  /**
+   * Apunta en el historial la sugerencia elegida
+   * (los lugares guardados no: ya tienen su propia lista)
+   */
+  const recordSelection = (suggestion: PlaceSuggestion) => {
+    if (suggestion.source === "saved") return;
+    searchHistoryStore.addPlace(suggestion.place);
+  };
+
+  return {
+    // Getters
+    sections,
+    hasSuggestions,
+
+    // Actions
+    recordSelection,
+  };
+};
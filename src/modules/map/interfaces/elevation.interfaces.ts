@@ -0,0 +1,89 @@
+/**
+ * INTERFACES DE ELEVACIÓN
+ *
+ * Tipos para consultar la altitud de los puntos de una ruta con
+ * proveedores intercambiables y construir su perfil de elevación.
+ */
+
+// ============================================
+// TIPOS BÁSICOS
+// ============================================
+
+/**
+ * ElevationProviderId: Proveedores de elevación soportados
+ * - open-meteo: API de elevación de Open-Meteo (pública, sin API key)
+ * - terrarium: lee la altitud de teselas DEM en formato Terrarium (PNG),
+ *   del servidor público de AWS o de un servidor de teselas local
+ */
+export type ElevationProviderId = "open-meteo" | "terrarium";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * ElevationPoint: Un punto del perfil de elevación
+ */
+export interface ElevationPoint {
+  /** Distancia desde el inicio de la ruta (metros) */
+  distance: number;
+
+  /** Altitud sobre el nivel del mar (metros) */
+  elevation: number;
+
+  /** Coordenadas del punto [lat, lon] */
+  coordinates: [number, number];
+}
+
+/**
+ * ElevationProfile: Perfil de elevación de una ruta
+ *
+ * Ejemplo:
+ * {
+ *   points: [{ distance: 0, elevation: 655, coordinates: [...] }, ...],
+ *   ascent: 120,
+ *   descent: 85,
+ *   minElevation: 600,
+ *   maxElevation: 710,
+ *   providerId: "open-meteo"
+ * }
+ */
+export interface ElevationProfile {
+  /** Puntos muestreados a lo largo de la ruta, en orden */
+  points: ElevationPoint[];
+
+  /** Desnivel positivo acumulado (metros) */
+  ascent: number;
+
+  /** Desnivel negativo acumulado (metros, en positivo) */
+  descent: number;
+
+  /** Altitud mínima del recorrido (metros) */
+  minElevation: number;
+
+  /** Altitud máxima del recorrido (metros) */
+  maxElevation: number;
+
+  /** Proveedor que dio las altitudes */
+  providerId: ElevationProviderId;
+}
+
+/**
+ * ElevationProvider: Contrato que cumple cada proveedor de elevación
+ */
+export interface ElevationProvider {
+  /** Identificador del proveedor */
+  readonly id: ElevationProviderId;
+
+  /**
+   * getElevations: Altitud de varios puntos
+   *
+   * @param points - Coordenadas [lat, lon]
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns Altitud en metros de cada punto, en el mismo orden
+   */
+  getElevations(
+    points: [number, number][],
+    signal?: AbortSignal
+  ): Promise<number[]>;
+}
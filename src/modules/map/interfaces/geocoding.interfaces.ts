@@ -0,0 +1,66 @@
+/**
+ * INTERFACES DE GEOCODIFICACIÓN
+ *
+ * Tipos para convertir coordenadas en direcciones legibles
+ * (geocodificación inversa) con proveedores intercambiables.
+ */
+
+// ============================================
+// TIPOS BÁSICOS
+// ============================================
+
+/**
+ * GeocodingProviderId: Proveedores de geocodificación soportados
+ * - nominatim: API /reverse de Nominatim (pública o autoalojada)
+ * - coordinates: sustituto local sin red, devuelve las coordenadas como nombre
+ */
+export type GeocodingProviderId = "nominatim" | "coordinates";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * ReverseGeocodeResult: Dirección encontrada para unas coordenadas
+ *
+ * Ejemplo:
+ * {
+ *   name: "Calle Mayor 5, Madrid",
+ *   displayName: "5, Calle Mayor, Sol, Centro, Madrid, 28013, España",
+ *   coordinates: [40.4168, -3.7038],
+ *   placeId: 12345
+ * }
+ */
+export interface ReverseGeocodeResult {
+  /** Nombre corto para mostrar (calle y número, o nombre del lugar) */
+  name: string;
+
+  /** Dirección completa */
+  displayName: string;
+
+  /** Coordenadas consultadas [lat, lon] */
+  coordinates: [number, number];
+
+  /** ID del lugar en el proveedor (opcional) */
+  placeId?: number;
+}
+
+/**
+ * GeocodingProvider: Contrato que cumple cada proveedor de geocodificación
+ */
+export interface GeocodingProvider {
+  /** Identificador del proveedor */
+  readonly id: GeocodingProviderId;
+
+  /**
+   * reverse: Busca la dirección de unas coordenadas
+   *
+   * @param coordinates - [latitud, longitud]
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns La dirección, o null si no hay nada en ese punto
+   */
+  reverse(
+    coordinates: [number, number],
+    signal?: AbortSignal
+  ): Promise<ReverseGeocodeResult | null>;
+}
@@ -0,0 +1,128 @@
+/**
+ * INTERFACES DE UBICACIÓN
+ *
+ * Tipos para obtener la posición del usuario de fuentes intercambiables:
+ * el GPS del navegador, una posición fija o un recorrido grabado
+ * (GPX/GeoJSON) que se reproduce como si el usuario se moviera.
+ */
+
+// ============================================
+// TIPOS BÁSICOS
+// ============================================
+
+/**
+ * LocationSourceId: Fuentes de ubicación disponibles
+ * - browser: GPS del navegador (navigator.geolocation)
+ * - fixed: siempre la misma posición (demos, desarrollo)
+ * - replay: reproduce un recorrido grabado a la velocidad elegida
+ */
+export type LocationSourceId = "browser" | "fixed" | "replay";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * LocationPosition: Posición del usuario
+ *
+ * Ejemplo:
+ * {
+ *   coordinates: [40.4168, -3.7038],
+ *   accuracy: 8,
+ *   heading: 90,
+ *   speed: 12.5,
+ *   timestamp: 1718000000000
+ * }
+ */
+export interface LocationPosition {
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+
+  /** Precisión de la posición en metros */
+  accuracy: number;
+
+  /** Rumbo en grados (0 = norte), null si no se conoce */
+  heading: number | null;
+
+  /** Velocidad en m/s, null si no se conoce */
+  speed: number | null;
+
+  /** Momento de la medida (milisegundos) */
+  timestamp: number;
+}
+
+/**
+ * LocationSourceError: Error al obtener la posición
+ *
+ * Usa los mismos códigos que GeolocationPositionError:
+ * 1 = permiso denegado, 2 = no disponible, 3 = tiempo agotado
+ */
+export interface LocationSourceError {
+  /** Código del error */
+  code: number;
+
+  /** Descripción técnica (para la consola) */
+  message: string;
+}
+
+/**
+ * TrackPoint: Punto de un recorrido grabado
+ */
+export interface TrackPoint {
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+
+  /** Momento en que se grabó (milisegundos, opcional) */
+  time?: number;
+}
+
+/**
+ * LocationSourceConfig: Fuente de ubicación elegida y sus datos
+ *
+ * Ejemplos:
+ * { id: 'browser' }
+ * { id: 'fixed', coordinates: [40.4168, -3.7038] }
+ * { id: 'replay', track: [...], speed: 4, name: 'paseo.gpx' }
+ */
+export type LocationSourceConfig =
+  | { id: "browser" }
+  | { id: "fixed"; coordinates: [number, number] }
+  | {
+      id: "replay";
+      /** Puntos del recorrido (vacío si aún hay que descargarlo de trackUrl) */
+      track: TrackPoint[];
+      /** Multiplicador de velocidad (1 = tiempo real) */
+      speed: number;
+      /** Nombre del archivo del recorrido (opcional) */
+      name?: string;
+      /** URL de la que descargar el recorrido (opcional, desde la URL de la app) */
+      trackUrl?: string;
+    };
+
+/**
+ * LocationSource: Contrato que cumple cada fuente de ubicación
+ */
+export interface LocationSource {
+  /** Identificador de la fuente */
+  readonly id: LocationSourceId;
+
+  /**
+   * getCurrentPosition: Posición actual
+   *
+   * @returns La posición
+   * @throws LocationSourceError si no se puede obtener
+   */
+  getCurrentPosition(): Promise<LocationPosition>;
+
+  /**
+   * watchPosition: Avisa de cada posición nueva
+   *
+   * @param onPosition - Se llama con cada posición
+   * @param onError - Se llama si la fuente falla
+   * @returns Función para dejar de escuchar
+   */
+  watchPosition(
+    onPosition: (position: LocationPosition) => void,
+    onError: (error: LocationSourceError) => void
+  ): () => void;
+}
@@ -0,0 +1,65 @@
+/**
+ * INTERFACES DE ENLACES COMPARTIDOS
+ *
+ * Tipos del estado de la app que se guarda en la URL para poder
+ * compartir o guardar en marcadores una búsqueda o una ruta.
+ */
+
+import type { TravelMode, UIMode } from "./routing.interfaces";
+
+// ============================================
+// TIPOS BÁSICOS
+// ============================================
+
+/**
+ * MapViewport: Parte del mapa que se ve
+ */
+export interface MapViewport {
+  /** Centro [latitud, longitud] */
+  center: [number, number];
+
+  /** Nivel de zoom */
+  zoom: number;
+}
+
+/**
+ * MapLinkWaypoint: Punto de la ruta guardado en el enlace
+ */
+export interface MapLinkWaypoint {
+  /** Nombre que se muestra (dirección, lugar...) */
+  name: string;
+
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+}
+
+// ============================================
+// ESTADO DEL ENLACE
+// ============================================
+
+/**
+ * MapLinkState: Todo lo que un enlace puede reconstruir
+ *
+ * Ejemplo de URL:
+ * ?mode=directions&wp=40.41680,-3.70380,Sol&wp=40.42030,-3.68840,Retiro
+ *  &travel=walking&alt=1&map=40.41850,-3.69610,15
+ */
+export interface MapLinkState {
+  /** Modo de la interfaz (búsqueda o direcciones) */
+  mode: UIMode;
+
+  /** Puntos de la ruta en orden: origen, paradas y destino */
+  waypoints: MapLinkWaypoint[];
+
+  /** Modo de transporte */
+  travelMode: TravelMode;
+
+  /** Alternativa elegida (-1 = la ruta principal) */
+  alternative: number;
+
+  /** Texto buscado (modo búsqueda) */
+  query: string;
+
+  /** Centro y zoom del mapa (null = los de siempre) */
+  viewport: MapViewport | null;
+}
@@ -0,0 +1,54 @@
+/**
+ * INTERFACES DE NAVEGACIÓN
+ *
+ * Tipos del modo navegación: dónde cae la posición del usuario sobre
+ * la ruta y cuánto falta para la siguiente maniobra y el destino.
+ * (La posición en sí está en location.interfaces.ts)
+ */
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * RouteSnap: Punto de la ruta más cercano a una posición
+ */
+export interface RouteSnap {
+  /** Coordenadas [lat, lon] del punto sobre la línea */
+  coordinates: [number, number];
+
+  /** Distancia entre la posición y la línea (metros) */
+  distanceFromRoute: number;
+
+  /** Distancia recorrida desde el inicio de la geometría (metros) */
+  distanceAlong: number;
+
+  /** Índice del vértice donde empieza el tramo de la línea */
+  pointIndex: number;
+}
+
+/**
+ * NavigationProgress: Avance sobre la ruta
+ *
+ * Las distancias están en la escala del motor de routing
+ * (route.distance), no en la medida sobre la geometría.
+ */
+export interface NavigationProgress {
+  /** Paso de las instrucciones que se está recorriendo */
+  segmentIndex: number;
+
+  /** Paso cuya maniobra viene a continuación (null = ya en el último) */
+  nextSegmentIndex: number | null;
+
+  /** Distancia hasta la siguiente maniobra (o hasta el destino) */
+  distanceToManeuver: number;
+
+  /** Distancia que queda hasta el destino */
+  distanceRemaining: number;
+
+  /** Tiempo que queda hasta el destino (segundos) */
+  durationRemaining: number;
+
+  /** Tramos entre waypoints ya completados (paradas pasadas) */
+  completedLegs: number;
+}
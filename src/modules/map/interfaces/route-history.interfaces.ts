@@ -0,0 +1,74 @@
+/**
+ * INTERFACES DEL HISTORIAL DE RUTAS
+ *
+ * Tipos de las rutas calculadas que se recuerdan (historial) y de las
+ * que el usuario guarda con un nombre (viajes guardados).
+ */
+
+import type { RoutingOptions } from "./routing.interfaces";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * RouteHistoryWaypoint: Punto de una ruta del historial
+ * (solo lo necesario para volver a pedirla)
+ */
+export interface RouteHistoryWaypoint {
+  /** Nombre del lugar */
+  name: string;
+
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+}
+
+/**
+ * RouteHistorySummary: Resumen de la ruta principal cuando se calculó
+ */
+export interface RouteHistorySummary {
+  /** Distancia total en metros */
+  distance: number;
+
+  /** Duración estimada en segundos */
+  duration: number;
+}
+
+/**
+ * RouteHistoryEntry: Ruta calculada (y, si tiene nombre, viaje guardado)
+ *
+ * Ejemplo:
+ * {
+ *   id: "9b2e...",
+ *   waypoints: [
+ *     { name: "Sol", coordinates: [40.4168, -3.7038] },
+ *     { name: "Retiro", coordinates: [40.4203, -3.6884] }
+ *   ],
+ *   options: { travelMode: "walking", preference: "fastest" },
+ *   summary: { distance: 1850, duration: 1380 },
+ *   calculatedAt: 1735689600000,
+ *   tripName: "Paseo al Retiro"
+ * }
+ */
+export interface RouteHistoryEntry {
+  /** Identificador único */
+  id: string;
+
+  /** Puntos en orden: origen, paradas y destino */
+  waypoints: RouteHistoryWaypoint[];
+
+  /** Modo de transporte, preferencia y vías a evitar */
+  options: RoutingOptions;
+
+  /** Distancia y duración de la ruta principal */
+  summary: RouteHistorySummary;
+
+  /** Cuándo se calculó por última vez (ms desde 1970) */
+  calculatedAt: number;
+
+  /**
+   * Nombre del viaje guardado
+   * Sin nombre es una ruta más del historial (y puede descartarse)
+   */
+  tripName?: string;
+}
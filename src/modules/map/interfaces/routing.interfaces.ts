@@ -5,6 +5,8 @@
  * para el sistema de direcciones (routing).
  */
 
+import type { ElevationProfile } from "./elevation.interfaces";
+
 // ============================================
 // TIPOS BÁSICOS
 // ============================================
@@ -25,6 +27,21 @@ export type TravelMode = "driving" | "cycling" | "walking";
  */
 export type RoutePreference = "fastest" | "shortest" | "balanced";
 
+/**
+ * DurationMethod: Cómo se obtuvo la duración de una ruta
+ * - routed: La calculó el motor de routing con el perfil del modo (exacta)
+ * - estimated: La estimamos nosotros con una velocidad media (aproximada)
+ */
+export type DurationMethod = "routed" | "estimated";
+
+/**
+ * RoadClass: Tipos de vía que el usuario puede querer evitar
+ * - motorway: Autopistas y autovías
+ * - toll: Vías de peaje
+ * - ferry: Trayectos en ferry
+ */
+export type RoadClass = "motorway" | "toll" | "ferry";
+
 /**
  * UIMode: El modo de la interfaz de usuario
  * - search: Modo de búsqueda normal (el que ya tienes)
@@ -76,6 +93,69 @@ export interface Waypoint {
   placeId?: number;
 }
 
+/**
+ * ManeuverType: Tipo de maniobra de una instrucción
+ * - depart / arrive: salida del origen y llegada al destino
+ * - via: llegada a una parada intermedia
+ * - turn, continue, merge, fork, end-of-road: giros y cambios de vía
+ * - on-ramp / off-ramp: entrada y salida de autovías
+ * - roundabout / exit-roundabout: entrada y salida de rotondas
+ * - ferry: embarque en un ferri
+ */
+export type ManeuverType =
+  | "depart"
+  | "arrive"
+  | "via"
+  | "turn"
+  | "continue"
+  | "merge"
+  | "fork"
+  | "end-of-road"
+  | "on-ramp"
+  | "off-ramp"
+  | "roundabout"
+  | "exit-roundabout"
+  | "ferry";
+
+/**
+ * ManeuverModifier: Dirección de la maniobra
+ */
+export type ManeuverModifier =
+  | "uturn"
+  | "sharp right"
+  | "right"
+  | "slight right"
+  | "straight"
+  | "slight left"
+  | "left"
+  | "sharp left";
+
+/**
+ * RouteManeuver: Maniobra de una instrucción, con datos estructurados
+ *
+ * Ejemplo (rotonda):
+ * { type: 'roundabout', exit: 2, streetName: 'Avenida de América', ref: 'A-2' }
+ */
+export interface RouteManeuver {
+  /** Tipo de maniobra */
+  type: ManeuverType;
+
+  /** Dirección (opcional: no todas las maniobras la tienen) */
+  modifier?: ManeuverModifier;
+
+  /** Número de salida (rotondas y salidas de autovía) */
+  exit?: number;
+
+  /** Nombre de la calle a la que se entra (opcional) */
+  streetName?: string;
+
+  /** Referencia de la vía, ej: "A-6" (opcional) */
+  ref?: string;
+
+  /** Destinos indicados en los carteles, ej: "Madrid, Burgos" (opcional) */
+  destinations?: string;
+}
+
 /**
  * RouteSegment: Representa un tramo de la ruta
  *
@@ -92,11 +172,37 @@ export interface RouteSegment {
   /** Instrucción de navegación (ej: "Gira a la derecha") */
   instruction: string;
 
+  /** Maniobra estructurada, para dibujar su icono (opcional) */
+  maneuver?: RouteManeuver;
+
   /** Coordenadas que forman este segmento de la ruta */
   coordinates: [number, number][];
 
   /** Índice del segmento en la ruta */
   index: number;
+
+  /**
+   * Tipos de vía por los que pasa el segmento (opcional)
+   * Ejemplo: ['motorway', 'toll']
+   */
+  classes?: RoadClass[];
+}
+
+/**
+ * RouteLeg: Representa un tramo entre dos waypoints consecutivos
+ *
+ * Una ruta con origen, 2 paradas y destino tiene 3 tramos:
+ * origen → parada 1 → parada 2 → destino
+ */
+export interface RouteLeg {
+  /** Distancia del tramo en metros */
+  distance: number;
+
+  /** Duración del tramo en segundos */
+  duration: number;
+
+  /** Índice del tramo (0 = desde el origen hasta el siguiente punto) */
+  index: number;
 }
 
 /**
@@ -118,6 +224,9 @@ export interface Route {
   /** Array de segmentos que componen la ruta */
   segments: RouteSegment[];
 
+  /** Tramos entre waypoints consecutivos (opcional) */
+  legs?: RouteLeg[];
+
   /** Todas las coordenadas de la ruta (para dibujar en el mapa) */
   geometry: [number, number][];
 
@@ -130,10 +239,26 @@ export interface Route {
   /** Array de waypoints usados para calcular esta ruta */
   waypoints: Waypoint[];
 
+  /** Opciones con las que se pidió la ruta (opcional) */
+  options?: RoutingOptions;
+
+  /**
+   * Cómo se obtuvo la duración (opcional)
+   * - routed: tiempo real del motor para este modo de transporte
+   * - estimated: tiempo estimado con velocidades promedio
+   */
+  durationMethod?: DurationMethod;
+
+  /**
+   * Perfil con el que el motor de routing calculó la geometría (opcional)
+   * osrmDuration y osrmSegmentDurations corresponden a este perfil
+   */
+  providerTravelMode?: TravelMode;
+
   /**
-   * Duración original de OSRM para driving (opcional)
-   * Se guarda para poder volver a los tiempos precisos de OSRM
-   * cuando se cambia de cycling/walking de vuelta a driving
+   * Duración original del motor de routing (opcional)
+   * Se guarda para poder volver a los tiempos precisos del motor
+   * cuando se cambia de un modo estimado de vuelta a providerTravelMode
    */
   osrmDuration?: number;
 
@@ -143,9 +268,22 @@ export interface Route {
    */
   osrmSegmentDurations?: number[];
 
+  /**
+   * Duraciones originales del motor para cada tramo (opcional)
+   * Igual que osrmSegmentDurations, pero por tramo entre waypoints
+   */
+  osrmLegDurations?: number[];
+
+  /**
+   * Perfil de elevación de la ruta (opcional)
+   * Llega después de la ruta; con él, los tiempos estimados en bici
+   * y a pie tienen en cuenta las pendientes
+   */
+  elevation?: ElevationProfile;
+
   /**
    * Índice de la ruta alternativa (opcional)
-   * - undefined o 0: Ruta principal (la más rápida)
+   * - undefined o 0: Ruta principal (la mejor según la preferencia)
    * - 1, 2: Rutas alternativas
    */
   alternativeIndex?: number;
@@ -157,16 +295,80 @@ export interface Route {
   isSelected?: boolean;
 }
 
+/**
+ * SegmentSelection: Paso de las instrucciones elegido en una ruta
+ *
+ * Guarda el id de la ruta: al seleccionar otra ruta o recalcular,
+ * el paso elegido deja de valer sin tener que limpiarlo a mano.
+ */
+export interface SegmentSelection {
+  /** ID de la ruta a la que pertenece el paso */
+  routeId: string;
+
+  /** Índice del paso en route.segments */
+  index: number;
+}
+
+/**
+ * RoutingErrorCode: Tipos de error al calcular rutas
+ * - NO_ROUTE: no hay camino entre los puntos con este modo de transporte
+ * - POINT_TOO_FAR: un punto está demasiado lejos de cualquier calle
+ * - OUT_OF_COVERAGE: un punto está fuera de la zona que cubre el motor
+ * - TOO_MANY_WAYPOINTS: demasiados puntos para una sola petición
+ * - ROUTE_TOO_LONG: la ruta supera la distancia máxima del motor
+ * - UNSUPPORTED_OPTIONS: el motor no admite las vías a evitar elegidas
+ * - INVALID_WAYPOINTS: faltan puntos o sus coordenadas no son válidas
+ * - OFFLINE: el dispositivo no tiene conexión
+ * - NETWORK_ERROR: el servidor no responde o responde con error
+ * - TIMEOUT: el servidor no respondió a tiempo
+ * - RATE_LIMITED: el servidor rechaza más peticiones por ahora (429)
+ * - API_ERROR: cualquier otro fallo del motor o de la app
+ */
+export type RoutingErrorCode =
+  | "NO_ROUTE"
+  | "POINT_TOO_FAR"
+  | "OUT_OF_COVERAGE"
+  | "TOO_MANY_WAYPOINTS"
+  | "ROUTE_TOO_LONG"
+  | "UNSUPPORTED_OPTIONS"
+  | "INVALID_WAYPOINTS"
+  | "OFFLINE"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "RATE_LIMITED"
+  | "API_ERROR";
+
+/**
+ * RoutingErrorAction: Qué puede hacer el usuario para solucionar el error
+ * - retry: volver a intentarlo
+ * - move-point: mover un punto (más cerca de una calle, dentro del mapa...)
+ * - change-mode: probar con otro modo de transporte
+ * - change-options: quitar las vías a evitar
+ * - remove-stops: quitar alguna parada
+ */
+export type RoutingErrorAction =
+  | "retry"
+  | "move-point"
+  | "change-mode"
+  | "change-options"
+  | "remove-stops";
+
 /**
  * RoutingError: Errores que pueden ocurrir al calcular rutas
  */
 export interface RoutingError {
   /** Código del error */
-  code: "NO_ROUTE" | "NETWORK_ERROR" | "INVALID_WAYPOINTS" | "API_ERROR";
+  code: RoutingErrorCode;
 
-  /** Mensaje descriptivo del error */
+  /** Mensaje descriptivo del error (pensado para el usuario) */
   message: string;
 
+  /** Acción sugerida para solucionarlo (opcional) */
+  action?: RoutingErrorAction;
+
+  /** Posición del waypoint que causa el error, si se sabe (opcional) */
+  waypointIndex?: number;
+
   /** Detalles adicionales (opcional) */
   details?: any;
 }
@@ -174,8 +376,11 @@ export interface RoutingError {
 /**
  * RoutingOptions: Opciones para calcular una ruta
  *
- * Estas opciones se pueden expandir en el futuro para añadir
- * más funcionalidades como evitar autopistas, peajes, etc.
+ * Ejemplo:
+ * {
+ *   travelMode: 'driving',
+ *   avoidTolls: true
+ * }
  */
 export interface RoutingOptions {
   /** Modo de transporte */
@@ -184,9 +389,169 @@ export interface RoutingOptions {
   /** Preferencia de ruta */
   preference?: RoutePreference;
 
-  /** Evitar autopistas (futuro) */
+  /** Evitar autopistas */
   avoidHighways?: boolean;
 
-  /** Evitar peajes (futuro) */
+  /** Evitar peajes */
   avoidTolls?: boolean;
+
+  /** Evitar ferris */
+  avoidFerries?: boolean;
+}
+
+/**
+ * RouteAvoidOptions: Solo las opciones de "evitar" de RoutingOptions
+ */
+export type RouteAvoidOptions = Pick<
+  RoutingOptions,
+  "avoidHighways" | "avoidTolls" | "avoidFerries"
+>;
+
+// ============================================
+// PROVEEDORES DE ROUTING
+// ============================================
+
+/**
+ * RoutingProviderId: Motores de routing soportados
+ * - osrm: Open Source Routing Machine (público o autoalojado)
+ * - graphhopper: GraphHopper (API en la nube o servidor propio)
+ * - valhalla: Valhalla (servidor de FOSSGIS o propio)
+ */
+export type RoutingProviderId = "osrm" | "graphhopper" | "valhalla";
+
+/**
+ * RoutingProviderConfig: Configuración de un proveedor de routing
+ *
+ * Ejemplo (OSRM autoalojado):
+ * {
+ *   id: 'osrm',
+ *   baseUrl: 'http://localhost:5000'
+ * }
+ */
+export interface RoutingProviderConfig {
+  /** Motor de routing a usar */
+  id: RoutingProviderId;
+
+  /** URL base del servidor (sin barra final) */
+  baseUrl: string;
+
+  /** API key (solo necesaria para la API en la nube de GraphHopper) */
+  apiKey?: string;
+
+  /**
+   * URLs de servidores dedicados a un perfil (opcional)
+   *
+   * OSRM carga un solo perfil por servidor, así que para tener rutas
+   * reales en bici o a pie hay que levantar un servidor por perfil.
+   * Ejemplo: { cycling: 'http://localhost:5001', walking: 'http://localhost:5002' }
+   */
+  profileUrls?: Partial<Record<TravelMode, string>>;
+}
+
+/**
+ * RoutingProvider: Contrato que cumple cada adaptador de routing
+ *
+ * Cada proveedor habla con su API y traduce la respuesta a nuestros
+ * tipos Route/RouteSegment. Así el resto de la app no sabe (ni le
+ * importa) qué motor de routing hay detrás.
+ */
+export interface RoutingProvider {
+  /** Identificador del motor */
+  readonly id: RoutingProviderId;
+
+  /** URL base a la que se hacen las peticiones */
+  readonly baseUrl: string;
+
+  /**
+   * ¿El mismo servidor atiende todos los perfiles (coche, bici, a pie)?
+   * true en GraphHopper y Valhalla, false en OSRM (un perfil por servidor)
+   */
+  readonly multiProfile: boolean;
+
+  /**
+   * getRoutes: Pide la ruta principal y sus alternativas
+   *
+   * @param waypoints - Waypoints ordenados (origen, paradas, destino)
+   * @param options - Opciones de la ruta (options.travelMode es el perfil a solicitar)
+   * @param maxAlternatives - Número máximo de alternativas
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns Rutas en nuestro formato (la primera es la principal)
+   * @throws RoutingError si el motor no encuentra ruta o responde con error
+   */
+  getRoutes(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<Route[]>;
+
+  /**
+   * getMatrix: Duraciones y distancias entre todos los pares de puntos (opcional)
+   *
+   * @param waypoints - Puntos de la matriz
+   * @param options - Opciones de la ruta (perfil y vías a evitar)
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns Matriz NxN (fila = desde, columna = hasta)
+   */
+  getMatrix?(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<RouteMatrix>;
+
+  /**
+   * getTripOrder: Orden de visita óptimo calculado por el motor (opcional)
+   *
+   * @param waypoints - Origen, paradas y destino
+   * @param options - Opciones de la ruta
+   * @param roundTrip - true: se vuelve al origen y el destino es una parada más
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns Índices de waypoints en orden de visita (sin la vuelta al origen)
+   */
+  getTripOrder?(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    roundTrip: boolean,
+    signal?: AbortSignal
+  ): Promise<number[]>;
+}
+
+/**
+ * RouteMatrix: Matriz de duraciones y distancias entre puntos
+ *
+ * durations[i][j] es el tiempo para ir del punto i al j.
+ * Los pares sin ruta valen Infinity.
+ */
+export interface RouteMatrix {
+  /** Duraciones en segundos */
+  durations: number[][];
+
+  /** Distancias en metros */
+  distances: number[][];
+}
+
+/**
+ * TripOptimization: Resultado de optimizar el orden de las paradas
+ */
+export interface TripOptimization {
+  /**
+   * Índices de los waypoints originales en el nuevo orden de visita
+   * Siempre empieza por el origen (0). En ida y vuelta no incluye el regreso.
+   */
+  order: number[];
+
+  /** ¿Se optimizó como ida y vuelta (volviendo al origen)? */
+  roundTrip: boolean;
+
+  /** Duración total con el orden original (segundos) */
+  originalDuration: number;
+
+  /** Duración total con el orden optimizado (segundos) */
+  optimizedDuration: number;
+
+  /** "trip": orden del servicio /trip del motor, "table": heurística local sobre la matriz */
+  method: "trip" | "table";
+
+  /** Si las duraciones son del motor o estimadas con velocidad media */
+  durationMethod: DurationMethod;
 }
@@ -0,0 +1,82 @@
+/**
+ * INTERFACES DE LUGARES GUARDADOS
+ *
+ * Tipos de los lugares que el usuario guarda (Casa, Trabajo y
+ * favoritos) para no tener que escribir otra vez la misma dirección.
+ */
+
+// ============================================
+// TIPOS BÁSICOS
+// ============================================
+
+/**
+ * SavedPlaceCategory: Tipo de lugar guardado
+ * - 'home': Casa (solo hay una)
+ * - 'work': Trabajo (solo hay uno)
+ * - 'favorite': Cualquier otro lugar
+ */
+export type SavedPlaceCategory = "home" | "work" | "favorite";
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * SavedPlace: Lugar guardado por el usuario
+ *
+ * Ejemplo:
+ * {
+ *   id: "5f1c...",
+ *   label: "Casa",
+ *   category: "home",
+ *   name: "Calle Mayor 5, Madrid",
+ *   coordinates: [40.4155, -3.7074],
+ *   createdAt: 1735689600000
+ * }
+ */
+export interface SavedPlace {
+  /** Identificador único */
+  id: string;
+
+  /** Nombre que le da el usuario (ej: "Casa", "Gimnasio") */
+  label: string;
+
+  /** Tipo de lugar */
+  category: SavedPlaceCategory;
+
+  /** Dirección o nombre del lugar */
+  name: string;
+
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+
+  /** ID del lugar en Nominatim (si se guardó desde una búsqueda) */
+  placeId?: number;
+
+  /** Cuándo se guardó (ms desde 1970) */
+  createdAt: number;
+}
+
+/**
+ * SavedPlaceDraft: Lugar a punto de guardarse (o de editarse)
+ * Es lo que rellena el diálogo de "Guardar lugar"
+ */
+export interface SavedPlaceDraft {
+  /** ID del lugar si se está editando uno ya guardado */
+  id?: string;
+
+  /** Nombre propuesto (el usuario lo puede cambiar) */
+  label: string;
+
+  /** Tipo propuesto */
+  category: SavedPlaceCategory;
+
+  /** Dirección o nombre del lugar */
+  name: string;
+
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+
+  /** ID del lugar en Nominatim (opcional) */
+  placeId?: number;
+}
@@ -0,0 +1,145 @@
+/**
+ * INTERFACES DE BÚSQUEDA
+ *
+ * Tipos del historial de búsquedas y de las sugerencias del
+ * autocompletado, que mezclan fuentes locales (coordenadas escritas,
+ * lugares guardados, búsquedas recientes) con los resultados de Nominatim,
+ * y los filtros y la zona de la búsqueda de lugares.
+ */
+
+import type { Place } from "./place.interfaces";
+import type { SavedPlace } from "./saved-place.interfaces";
+
+// ============================================
+// HISTORIAL DE BÚSQUEDAS
+// ============================================
+
+/**
+ * RecentSearch: Lugar elegido en una búsqueda anterior
+ *
+ * Ejemplo:
+ * {
+ *   name: "Museo del Prado, Paseo del Prado, Madrid",
+ *   coordinates: [40.4138, -3.6921],
+ *   placeId: 12345,
+ *   addresstype: "tourism",
+ *   usedAt: 1735689600000
+ * }
+ */
+export interface RecentSearch {
+  /** Nombre del lugar */
+  name: string;
+
+  /** Coordenadas [latitud, longitud] */
+  coordinates: [number, number];
+
+  /** ID del lugar en Nominatim (si vino de una búsqueda) */
+  placeId?: number;
+
+  /** Tipo de dirección (para el zoom al volver a elegirlo) */
+  addresstype?: string;
+
+  /** Última vez que se eligió (ms desde 1970) */
+  usedAt: number;
+}
+
+// ============================================
+// SUGERENCIAS DEL AUTOCOMPLETADO
+// ============================================
+
+/**
+ * SuggestionSource: De dónde sale una sugerencia
+ * (también es el orden de las secciones en la lista)
+ * - 'coordinates': El texto escrito son coordenadas
+ * - 'saved': Lugar guardado (Casa, Trabajo, favoritos)
+ * - 'recent': Búsqueda reciente
+ * - 'remote': Resultado de Nominatim
+ */
+export type SuggestionSource = "coordinates" | "saved" | "recent" | "remote";
+
+/**
+ * PlaceSuggestion: Una opción del autocompletado
+ */
+export interface PlaceSuggestion {
+  /** Clave única en la lista (para el v-for) */
+  key: string;
+
+  /** Fuente de la sugerencia */
+  source: SuggestionSource;
+
+  /** Texto principal */
+  title: string;
+
+  /** Texto secundario (dirección) */
+  subtitle?: string;
+
+  /** Icono delante del título (emoji) */
+  icon: string;
+
+  /** Lugar a usar al elegirla (mismo formato que un resultado de búsqueda) */
+  place: Place;
+
+  /** Lugar guardado del que sale (solo source = 'saved') */
+  savedPlace?: SavedPlace;
+
+  /** Búsqueda reciente de la que sale (solo source = 'recent') */
+  recentSearch?: RecentSearch;
+}
+
+/**
+ * SuggestionSection: Sugerencias de una misma fuente
+ */
+export interface SuggestionSection {
+  /** Fuente de las sugerencias */
+  source: SuggestionSource;
+
+  /** Sugerencias (nunca vacío) */
+  suggestions: PlaceSuggestion[];
+}
+
+// ============================================
+// FILTROS Y ZONA DE BÚSQUEDA
+// ============================================
+
+/**
+ * PlaceCategory: Tipo de lugar por el que se puede filtrar la búsqueda
+ */
+export type PlaceCategory =
+  | "restaurant"
+  | "cafe"
+  | "station"
+  | "parking"
+  | "fuel"
+  | "hotel";
+
+/**
+ * PlaceSearchFilters: Filtros de la búsqueda de lugares (se guardan
+ * en el navegador)
+ *
+ * Ejemplo:
+ * {
+ *   countryCode: "es",
+ *   language: null,
+ *   category: "parking"
+ * }
+ */
+export interface PlaceSearchFilters {
+  /** País (código ISO de dos letras), o null para cualquiera */
+  countryCode: string | null;
+
+  /** Idioma de los resultados, o null para el de la app */
+  language: string | null;
+
+  /** Tipo de lugar, o null para cualquiera */
+  category: PlaceCategory | null;
+}
+
+/**
+ * SearchBounds: Zona rectangular del mapa (en grados)
+ */
+export interface SearchBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
@@ -0,0 +1,195 @@
+/**
+ * ELEVATION SERVICE
+ *
+ * Consulta la altitud a lo largo de la geometría de una ruta delegando
+ * en un proveedor intercambiable (API de Open-Meteo o teselas DEM
+ * Terrarium) y construye su perfil de elevación.
+ *
+ * La geometría se muestrea cada ~50 m (con un máximo de puntos), así
+ * una ruta larga no dispara cientos de consultas. Los perfiles se
+ * guardan en caché por geometría: cambiar de modo de transporte o
+ * volver a una ruta ya vista no repite la petición.
+ */
+
+import type {
+  ElevationProfile,
+  ElevationProvider,
+  ElevationProviderId,
+} from "../interfaces/elevation.interfaces";
+import { createElevationProvider } from "./elevation";
+import { buildElevationProfile, sampleGeometry } from "./route-elevation";
+import { createRequestSignal } from "./request.utils";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Distancia deseada entre puntos del perfil (metros)
+ */
+const SAMPLE_SPACING_M = 50;
+
+/**
+ * Número máximo de puntos del perfil (una petición a Open-Meteo)
+ */
+const MAX_SAMPLES = 100;
+
+/**
+ * Número máximo de perfiles en caché (se descartan los más antiguos)
+ */
+const MAX_CACHE_ENTRIES = 50;
+
+/**
+ * Tiempo máximo de espera de un perfil (ms)
+ */
+const ELEVATION_TIMEOUT_MS = 15000;
+
+/**
+ * getEnvProviderId: Proveedor definido en las variables de entorno
+ *
+ * @returns El proveedor, o null si la elevación está desactivada ("none")
+ */
+const getEnvProviderId = (): ElevationProviderId | null => {
+  const envProvider = import.meta.env.VITE_ELEVATION_PROVIDER;
+  if (envProvider === "none") return null;
+  if (envProvider === "open-meteo" || envProvider === "terrarium") {
+    return envProvider;
+  }
+  if (envProvider) {
+    console.warn(
+      `VITE_ELEVATION_PROVIDER desconocido: "${envProvider}". Usando Open-Meteo.`
+    );
+  }
+  return "open-meteo";
+};
+
+// ============================================
+// CLASE DEL SERVICIO
+// ============================================
+
+/**
+ * ElevationService: Perfiles de elevación de rutas con caché
+ */
+class ElevationService {
+  /** Proveedor activo (null = elevación desactivada) */
+  private provider: ElevationProvider | null;
+
+  /** Perfiles ya calculados (clave = firma de la geometría) */
+  private cache = new Map<string, ElevationProfile>();
+
+  /**
+   * @param provider - Proveedor a usar (por defecto el de las variables de entorno)
+   */
+  constructor(provider: ElevationProvider | null = ElevationService.fromEnv()) {
+    this.provider = provider;
+  }
+
+  /**
+   * fromEnv: Proveedor de las variables de entorno
+   */
+  private static fromEnv(): ElevationProvider | null {
+    const id = getEnvProviderId();
+    return id
+      ? createElevationProvider(id, import.meta.env.VITE_ELEVATION_BASE_URL)
+      : null;
+  }
+
+  /**
+   * isEnabled: ¿Hay un proveedor de elevación configurado?
+   */
+  isEnabled(): boolean {
+    return this.provider !== null;
+  }
+
+  /**
+   * setProvider: Cambia el proveedor en tiempo de ejecución
+   *
+   * @param provider - Nuevo proveedor (null = desactivar la elevación)
+   *
+   * Ejemplo (teselas DEM servidas en local):
+   * elevationService.setProvider(
+   *   createElevationProvider('terrarium', 'http://localhost:8081/{z}/{x}/{y}.png')
+   * );
+   */
+  setProvider(provider: ElevationProvider | null) {
+    this.provider = provider;
+    this.cache.clear();
+  }
+
+  /**
+   * getProfile: Perfil de elevación de la geometría de una ruta
+   *
+   * @param geometry - Coordenadas [lat, lon] de la ruta
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns El perfil, o null si la elevación está desactivada
+   * @throws Error si el proveedor falla o no responde a tiempo
+   * @throws El motivo de la cancelación si se aborta con signal
+   */
+  async getProfile(
+    geometry: [number, number][],
+    signal?: AbortSignal
+  ): Promise<ElevationProfile | null> {
+    if (!this.provider || geometry.length < 2) return null;
+
+    const key = this.getCacheKey(geometry);
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const samples = sampleGeometry(geometry, SAMPLE_SPACING_M, MAX_SAMPLES);
+    const request = createRequestSignal(ELEVATION_TIMEOUT_MS, signal);
+
+    try {
+      const elevations = await this.provider.getElevations(
+        samples.map((sample) => sample.coordinates),
+        request.signal
+      );
+      const profile = buildElevationProfile(
+        samples,
+        elevations,
+        this.provider.id
+      );
+      this.saveToCache(key, profile);
+      return profile;
+    } finally {
+      request.dispose();
+    }
+  }
+
+  /**
+   * getCacheKey: Firma de una geometría (número de puntos, extremos y centro)
+   *
+   * @returns Ejemplo: "412|40.41680,-3.70380|40.42010,-3.69120|40.45300,-3.68800"
+   */
+  private getCacheKey(geometry: [number, number][]): string {
+    const format = ([lat, lon]: [number, number]) =>
+      `${lat.toFixed(5)},${lon.toFixed(5)}`;
+
+    return [
+      geometry.length,
+      format(geometry[0]!),
+      format(geometry[Math.floor(geometry.length / 2)]!),
+      format(geometry[geometry.length - 1]!),
+    ].join("|");
+  }
+
+  /**
+   * saveToCache: Guarda un perfil descartando el más antiguo si está llena
+   */
+  private saveToCache(key: string, profile: ElevationProfile) {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+    this.cache.set(key, profile);
+  }
+}
+
+// ============================================
+// EXPORTAR INSTANCIA ÚNICA (SINGLETON)
+// ============================================
+
+export const elevationService = new ElevationService();
+
+export default ElevationService;
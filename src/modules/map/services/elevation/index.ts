@@ -0,0 +1,47 @@
+/**
+ * FÁBRICA DE PROVEEDORES DE ELEVACIÓN
+ *
+ * Punto único para crear el proveedor de elevación
+ * a partir de su identificador.
+ */
+
+import type {
+  ElevationProvider,
+  ElevationProviderId,
+} from "../../interfaces/elevation.interfaces";
+import { OpenMeteoElevation } from "./open-meteo.elevation";
+import { TerrariumElevation } from "./terrarium.elevation";
+
+/**
+ * URL de la API pública de Open-Meteo
+ */
+export const DEFAULT_OPEN_METEO_URL = "https://api.open-meteo.com";
+
+/**
+ * Plantilla de URL de las teselas Terrarium públicas (AWS)
+ */
+export const DEFAULT_TERRARIUM_URL =
+  "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png";
+
+/**
+ * createElevationProvider: Crea el proveedor indicado
+ *
+ * @param id - Proveedor a usar
+ * @param baseUrl - URL base (Open-Meteo) o plantilla de teselas (Terrarium);
+ *                  por defecto la del servidor público
+ * @returns Instancia del proveedor
+ */
+export const createElevationProvider = (
+  id: ElevationProviderId,
+  baseUrl?: string
+): ElevationProvider => {
+  switch (id) {
+    case "terrarium":
+      return new TerrariumElevation(baseUrl || DEFAULT_TERRARIUM_URL);
+    case "open-meteo":
+    default:
+      return new OpenMeteoElevation(baseUrl || DEFAULT_OPEN_METEO_URL);
+  }
+};
+
+export { OpenMeteoElevation, TerrariumElevation };
@@ -0,0 +1,89 @@
+/**
+ * OPEN-METEO ELEVATION
+ *
+ * Altitud de los puntos con la API de elevación de Open-Meteo
+ * (modelo Copernicus DEM de 90 m, sin API key).
+ *
+ * Documentación: https://open-meteo.com/en/docs/elevation-api
+ */
+
+import type { ElevationProvider } from "../../interfaces/elevation.interfaces";
+import { trimTrailingSlash } from "../providers/provider.utils";
+import { httpClient } from "../http-client";
+
+// ============================================
+// INTERFACES INTERNAS (respuesta de Open-Meteo)
+// ============================================
+
+interface OpenMeteoElevationResponse {
+  elevation?: number[];
+  /** Open-Meteo responde { error: true, reason } si la petición no es válida */
+  error?: boolean;
+  reason?: string;
+}
+
+/**
+ * Puntos máximos por petición que admite la API
+ */
+const MAX_POINTS_PER_REQUEST = 100;
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class OpenMeteoElevation implements ElevationProvider {
+  readonly id = "open-meteo" as const;
+  readonly baseUrl: string;
+
+  /**
+   * @param baseUrl - URL base de la API (ej: https://api.open-meteo.com)
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+  }
+
+  /**
+   * getElevations: Pide las altitudes en lotes de 100 puntos
+   */
+  async getElevations(
+    points: [number, number][],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const elevations: number[] = [];
+
+    for (let start = 0; start < points.length; start += MAX_POINTS_PER_REQUEST) {
+      const batch = points.slice(start, start + MAX_POINTS_PER_REQUEST);
+      elevations.push(...(await this.fetchBatch(batch, signal)));
+    }
+
+    return elevations;
+  }
+
+  /**
+   * fetchBatch: Una petición a /v1/elevation
+   */
+  private async fetchBatch(
+    points: [number, number][],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const params = new URLSearchParams({
+      latitude: points.map(([lat]) => lat.toFixed(5)).join(","),
+      longitude: points.map(([, lon]) => lon.toFixed(5)).join(","),
+    });
+
+    const response = await httpClient.fetch(
+      `${this.baseUrl}/v1/elevation?${params.toString()}`,
+      { signal }
+    );
+    if (!response.ok) {
+      throw new Error(`Error en la petición: ${response.status} ${response.statusText}`);
+    }
+
+    const data: OpenMeteoElevationResponse = await response.json();
+    if (data.error || !data.elevation) {
+      throw new Error(`Respuesta de elevación no válida: ${data.reason ?? "sin datos"}`);
+    }
+
+    return data.elevation;
+  }
+}
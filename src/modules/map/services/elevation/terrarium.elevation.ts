@@ -0,0 +1,163 @@
+/**
+ * TERRARIUM ELEVATION
+ *
+ * Lector de teselas DEM en formato Terrarium: cada píxel del PNG
+ * codifica la altitud en sus colores:
+ *
+ *   altitud (m) = (R * 256 + G + B / 256) - 32768
+ *
+ * Por defecto usa las teselas públicas de AWS (Mapzen Terrain Tiles),
+ * pero se puede apuntar a un servidor de teselas local con la misma
+ * plantilla de URL (ej: http://localhost:8081/{z}/{x}/{y}.png).
+ *
+ * Las teselas se descargan una vez y se guardan decodificadas: los
+ * puntos de una ruta suelen caer en unas pocas teselas.
+ *
+ * Documentación: https://github.com/tilezen/joerd/blob/master/docs/formats.md
+ */
+
+import type { ElevationProvider } from "../../interfaces/elevation.interfaces";
+import { httpClient } from "../http-client";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Zoom de las teselas: en el 12 cada píxel mide ~30 m en latitudes medias,
+ * parecido a la resolución real de los modelos de elevación
+ */
+const TILE_ZOOM = 12;
+
+const TILE_SIZE = 256;
+
+/**
+ * Teselas decodificadas que se guardan en memoria (~256 KB cada una)
+ */
+const MAX_CACHED_TILES = 32;
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class TerrariumElevation implements ElevationProvider {
+  readonly id = "terrarium" as const;
+
+  /** Plantilla de URL de las teselas, con {z}, {x} e {y} */
+  readonly tileUrl: string;
+
+  /** Píxeles de las teselas ya descargadas (clave = "z/x/y") */
+  private tiles = new Map<string, Promise<ImageData>>();
+
+  /**
+   * @param tileUrl - Plantilla de URL (ej: https://.../terrarium/{z}/{x}/{y}.png)
+   */
+  constructor(tileUrl: string) {
+    this.tileUrl = tileUrl;
+  }
+
+  /**
+   * getElevations: Lee la altitud de cada punto en su tesela
+   */
+  async getElevations(
+    points: [number, number][],
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const elevations: number[] = [];
+
+    // En orden: los puntos vecinos comparten tesela y la reutilizan
+    for (const [lat, lon] of points) {
+      const { tileX, tileY, pixelX, pixelY } = this.toTilePixel(lat, lon);
+      const tile = await this.getTile(tileX, tileY, signal);
+      const offset = (pixelY * TILE_SIZE + pixelX) * 4;
+      const [r, g, b] = [
+        tile.data[offset]!,
+        tile.data[offset + 1]!,
+        tile.data[offset + 2]!,
+      ];
+      elevations.push(r * 256 + g + b / 256 - 32768);
+    }
+
+    return elevations;
+  }
+
+  /**
+   * toTilePixel: Tesela y píxel (Web Mercator) donde cae un punto
+   */
+  private toTilePixel(lat: number, lon: number) {
+    const tiles = 2 ** TILE_ZOOM;
+    const latRad = (lat * Math.PI) / 180;
+    const x = ((lon + 180) / 360) * tiles;
+    const y =
+      ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) *
+      tiles;
+
+    return {
+      tileX: Math.floor(x),
+      tileY: Math.floor(y),
+      pixelX: Math.min(TILE_SIZE - 1, Math.floor((x % 1) * TILE_SIZE)),
+      pixelY: Math.min(TILE_SIZE - 1, Math.floor((y % 1) * TILE_SIZE)),
+    };
+  }
+
+  /**
+   * getTile: Píxeles de una tesela (de la caché o descargándola)
+   *
+   * Si la descarga falla se quita de la caché para reintentarla después
+   */
+  private getTile(
+    x: number,
+    y: number,
+    signal?: AbortSignal
+  ): Promise<ImageData> {
+    const key = `${TILE_ZOOM}/${x}/${y}`;
+    const cached = this.tiles.get(key);
+    if (cached) return cached;
+
+    if (this.tiles.size >= MAX_CACHED_TILES) {
+      // Un Map recorre sus claves en orden de inserción
+      const oldestKey = this.tiles.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.tiles.delete(oldestKey);
+      }
+    }
+
+    const tile = this.fetchTile(x, y, signal);
+    tile.catch(() => this.tiles.delete(key));
+    this.tiles.set(key, tile);
+    return tile;
+  }
+
+  /**
+   * fetchTile: Descarga una tesela y la decodifica con un canvas
+   */
+  private async fetchTile(
+    x: number,
+    y: number,
+    signal?: AbortSignal
+  ): Promise<ImageData> {
+    const url = this.tileUrl
+      .replace("{z}", String(TILE_ZOOM))
+      .replace("{x}", String(x))
+      .replace("{y}", String(y));
+
+    const response = await httpClient.fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Error en la petición: ${response.status} ${response.statusText}`);
+    }
+
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = document.createElement("canvas");
+    canvas.width = TILE_SIZE;
+    canvas.height = TILE_SIZE;
+
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) {
+      throw new Error("No se pudo crear el canvas para leer la tesela");
+    }
+
+    context.drawImage(bitmap, 0, 0, TILE_SIZE, TILE_SIZE);
+    bitmap.close();
+    return context.getImageData(0, 0, TILE_SIZE, TILE_SIZE);
+  }
+}
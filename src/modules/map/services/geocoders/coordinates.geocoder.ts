@@ -0,0 +1,55 @@
+/**
+ * COORDINATES GEOCODER
+ *
+ * Sustituto local de la geocodificación inversa: no hace peticiones
+ * y usa las propias coordenadas como nombre. Útil sin conexión, en
+ * desarrollo o para no gastar la cuota del servidor público.
+ */
+
+import type {
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from "../../interfaces/geocoding.interfaces";
+
+export class CoordinatesGeocoder implements GeocodingProvider {
+  readonly id = "coordinates" as const;
+
+  /**
+   * reverse: Devuelve las coordenadas formateadas como dirección
+   */
+  async reverse(
+    coordinates: [number, number]
+  ): Promise<ReverseGeocodeResult | null> {
+    const name = formatCoordinates(coordinates);
+    return { name, displayName: name, coordinates };
+  }
+}
+
+/**
+ * formatCoordinates: Coordenadas como texto legible
+ *
+ * @param coordinates - [latitud, longitud]
+ * @returns Ejemplo: "40.41680, -3.70380"
+ */
+export const formatCoordinates = ([lat, lon]: [number, number]): string => {
+  return `${lat.toFixed(5)}, ${lon.toFixed(5)}`;
+};
+
+/**
+ * parseCoordinates: Coordenadas escritas como texto
+ *
+ * @param text - Ejemplo: "40.4168, -3.7038" o "40.4168 -3.7038"
+ * @returns [latitud, longitud], o null si el texto no son coordenadas válidas
+ */
+export const parseCoordinates = (text: string): [number, number] | null => {
+  const match = text
+    .trim()
+    .match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = parseFloat(match[1]!);
+  const lon = parseFloat(match[2]!);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+
+  return [lat, lon];
+};
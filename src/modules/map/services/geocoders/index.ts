@@ -0,0 +1,53 @@
+/**
+ * FÁBRICA DE PROVEEDORES DE GEOCODIFICACIÓN
+ *
+ * Punto único para crear el proveedor de geocodificación inversa
+ * a partir de su identificador.
+ */
+
+import type {
+  GeocodingProvider,
+  GeocodingProviderId,
+} from "../../interfaces/geocoding.interfaces";
+import {
+  NominatimGeocoder,
+  getNominatimIdentityParams,
+} from "./nominatim.geocoder";
+import {
+  CoordinatesGeocoder,
+  formatCoordinates,
+  parseCoordinates,
+} from "./coordinates.geocoder";
+
+/**
+ * URL del servidor público de Nominatim
+ */
+export const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+/**
+ * createGeocodingProvider: Crea el proveedor indicado
+ *
+ * @param id - Proveedor a usar
+ * @param baseUrl - URL base (solo Nominatim; por defecto el servidor público)
+ * @returns Instancia del proveedor
+ */
+export const createGeocodingProvider = (
+  id: GeocodingProviderId,
+  baseUrl?: string
+): GeocodingProvider => {
+  switch (id) {
+    case "coordinates":
+      return new CoordinatesGeocoder();
+    case "nominatim":
+    default:
+      return new NominatimGeocoder(baseUrl || DEFAULT_NOMINATIM_URL);
+  }
+};
+
+export {
+  NominatimGeocoder,
+  CoordinatesGeocoder,
+  formatCoordinates,
+  parseCoordinates,
+  getNominatimIdentityParams,
+};
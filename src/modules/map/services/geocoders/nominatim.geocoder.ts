@@ -0,0 +1,143 @@
+/**
+ * NOMINATIM GEOCODER
+ *
+ * Geocodificación inversa con el endpoint /reverse de Nominatim.
+ * Por defecto usa el servidor público de OpenStreetMap, pero se puede
+ * apuntar a uno propio (ej: http://localhost:8080).
+ *
+ * Documentación: https://nominatim.org/release-docs/latest/api/Reverse/
+ */
+
+import type {
+  GeocodingProvider,
+  ReverseGeocodeResult,
+} from "../../interfaces/geocoding.interfaces";
+import { trimTrailingSlash } from "../providers/provider.utils";
+import { httpClient } from "../http-client";
+import { locale } from "@/modules/i18n/i18n";
+
+// ============================================
+// INTERFACES INTERNAS (respuesta de Nominatim)
+// ============================================
+
+interface NominatimAddress {
+  road?: string;
+  pedestrian?: string;
+  footway?: string;
+  house_number?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  municipality?: string;
+}
+
+interface NominatimReverseResponse {
+  place_id?: number;
+  name?: string;
+  display_name?: string;
+  address?: NominatimAddress;
+  /** Nominatim responde 200 con { error } si no hay nada en el punto */
+  error?: string;
+}
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * getNominatimIdentityParams: Parámetros que identifican a la app ante Nominatim
+ *
+ * La política de uso de Nominatim pide identificar la aplicación. El
+ * navegador ya envía el Referer (no deja cambiar el User-Agent), y con
+ * VITE_NOMINATIM_EMAIL se añade un email de contacto por si hay problemas.
+ *
+ * @returns { email } si está configurado, o un objeto vacío
+ */
+export const getNominatimIdentityParams = (): Record<string, string> => {
+  const email = import.meta.env.VITE_NOMINATIM_EMAIL;
+  return email ? { email } : {};
+};
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class NominatimGeocoder implements GeocodingProvider {
+  readonly id = "nominatim" as const;
+  readonly baseUrl: string;
+
+  /**
+   * @param baseUrl - URL base de Nominatim (ej: https://nominatim.openstreetmap.org)
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+  }
+
+  /**
+   * reverse: Pide a Nominatim la dirección de unas coordenadas
+   */
+  async reverse(
+    coordinates: [number, number],
+    signal?: AbortSignal
+  ): Promise<ReverseGeocodeResult | null> {
+    const [lat, lon] = coordinates;
+    const params = new URLSearchParams({
+      format: "json",
+      lat: lat.toString(),
+      lon: lon.toString(),
+      zoom: "18", // Nivel de edificio/calle
+      addressdetails: "1",
+      "accept-language": locale.value,
+      ...getNominatimIdentityParams(),
+    });
+
+    const response = await httpClient.fetch(
+      `${this.baseUrl}/reverse?${params.toString()}`,
+      { signal }
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Error en la petición: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: NominatimReverseResponse = await response.json();
+    if (data.error || !data.display_name) {
+      return null;
+    }
+
+    return {
+      name: this.buildShortName(data),
+      displayName: data.display_name,
+      coordinates,
+      placeId: data.place_id,
+    };
+  }
+
+  /**
+   * buildShortName: Nombre corto a partir de la dirección
+   *
+   * Ejemplos:
+   * - "Calle Mayor 5, Madrid"
+   * - "Museo del Prado, Madrid"
+   * - Si no hay datos: las dos primeras partes de display_name
+   */
+  private buildShortName(data: NominatimReverseResponse): string {
+    const address = data.address || {};
+    const street = address.road || address.pedestrian || address.footway;
+    const locality =
+      address.city || address.town || address.village || address.municipality;
+
+    const main = street
+      ? [street, address.house_number].filter(Boolean).join(" ")
+      : data.name || address.neighbourhood || address.suburb;
+
+    if (main) {
+      return [main, locality].filter(Boolean).join(", ");
+    }
+
+    return data.display_name!.split(",").slice(0, 2).join(",").trim();
+  }
+}
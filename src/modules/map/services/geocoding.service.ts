@@ -0,0 +1,178 @@
+/**
+ * GEOCODING SERVICE
+ *
+ * Convierte coordenadas en direcciones legibles (geocodificación inversa)
+ * delegando en un proveedor intercambiable (Nominatim o el sustituto local).
+ *
+ * Guarda en caché las respuestas usando las coordenadas redondeadas,
+ * así arrastrar un marcador unos metros o repetir un punto no lanza
+ * otra petición (el servidor público de Nominatim permite 1 petición/s).
+ */
+
+import type {
+  GeocodingProvider,
+  GeocodingProviderId,
+  ReverseGeocodeResult,
+} from "../interfaces/geocoding.interfaces";
+import { createGeocodingProvider } from "./geocoders";
+import { createRequestSignal } from "./request.utils";
+import { locale } from "@/modules/i18n/i18n";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Decimales con los que se redondean las coordenadas para la caché
+ * 4 decimales ≈ 11 metros: dos puntos tan cercanos comparten dirección
+ */
+const CACHE_PRECISION = 4;
+
+/**
+ * Número máximo de direcciones en caché (se descartan las más antiguas)
+ */
+const MAX_CACHE_ENTRIES = 500;
+
+/**
+ * Tiempo máximo de espera de una dirección (ms)
+ * Si se agota, la petición se cancela y cuenta como fallo
+ */
+const REVERSE_TIMEOUT_MS = 8000;
+
+/**
+ * getEnvProviderId: Proveedor definido en las variables de entorno
+ */
+const getEnvProviderId = (): GeocodingProviderId => {
+  const envProvider = import.meta.env.VITE_GEOCODING_PROVIDER;
+  if (envProvider === "coordinates" || envProvider === "nominatim") {
+    return envProvider;
+  }
+  if (envProvider) {
+    console.warn(
+      `VITE_GEOCODING_PROVIDER desconocido: "${envProvider}". Usando Nominatim.`
+    );
+  }
+  return "nominatim";
+};
+
+// ============================================
+// CLASE DEL SERVICIO
+// ============================================
+
+/**
+ * GeocodingService: Servicio de geocodificación inversa con caché
+ */
+class GeocodingService {
+  /** Proveedor activo */
+  private provider: GeocodingProvider;
+
+  /** Direcciones ya resueltas (clave = coordenadas redondeadas) */
+  private cache = new Map<string, ReverseGeocodeResult | null>();
+
+  /** Peticiones en curso, para no repetir la misma mientras llega */
+  private pending = new Map<string, Promise<ReverseGeocodeResult | null>>();
+
+  /**
+   * @param provider - Proveedor a usar (por defecto el de las variables de entorno)
+   */
+  constructor(
+    provider: GeocodingProvider = createGeocodingProvider(
+      getEnvProviderId(),
+      import.meta.env.VITE_GEOCODING_BASE_URL
+    )
+  ) {
+    this.provider = provider;
+  }
+
+  /**
+   * setProvider: Cambia el proveedor en tiempo de ejecución
+   *
+   * @param provider - Nuevo proveedor
+   *
+   * Ejemplo (sin red):
+   * geocodingService.setProvider(createGeocodingProvider('coordinates'));
+   *
+   * Vacía la caché, porque las direcciones dependen del proveedor
+   */
+  setProvider(provider: GeocodingProvider) {
+    this.provider = provider;
+    this.clearCache();
+  }
+
+  /**
+   * reverse: Busca la dirección de unas coordenadas
+   *
+   * @param coordinates - [latitud, longitud]
+   * @returns La dirección, o null si no hay nada en ese punto
+   * @throws Error si el proveedor falla o no responde a tiempo
+   *         (los fallos no se guardan en caché)
+   */
+  async reverse(
+    coordinates: [number, number]
+  ): Promise<ReverseGeocodeResult | null> {
+    const key = this.getCacheKey(coordinates);
+
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const timeout = createRequestSignal(REVERSE_TIMEOUT_MS);
+    const request = this.provider
+      .reverse(coordinates, timeout.signal)
+      .then((result) => {
+        this.saveToCache(key, result);
+        return result;
+      })
+      .finally(() => {
+        timeout.dispose();
+        this.pending.delete(key);
+      });
+
+    this.pending.set(key, request);
+    return request;
+  }
+
+  /**
+   * clearCache: Vacía la caché de direcciones
+   */
+  clearCache() {
+    this.cache.clear();
+  }
+
+  /**
+   * getCacheKey: Clave de caché a partir del idioma y las coordenadas
+   * redondeadas (Nominatim devuelve las direcciones en el idioma activo)
+   *
+   * @returns Ejemplo: "es|40.4168,-3.7038"
+   */
+  private getCacheKey([lat, lon]: [number, number]): string {
+    return `${locale.value}|${lat.toFixed(CACHE_PRECISION)},${lon.toFixed(CACHE_PRECISION)}`;
+  }
+
+  /**
+   * saveToCache: Guarda una dirección descartando la más antigua si está llena
+   */
+  private saveToCache(key: string, result: ReverseGeocodeResult | null) {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      // Un Map recorre sus claves en orden de inserción
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+    this.cache.set(key, result);
+  }
+}
+
+// ============================================
+// EXPORTAR INSTANCIA ÚNICA (SINGLETON)
+// ============================================
+
+export const geocodingService = new GeocodingService();
+
+export default GeocodingService;
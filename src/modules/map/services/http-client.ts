@@ -0,0 +1,299 @@
+/**
+ * HTTP CLIENT
+ *
+ * Cliente HTTP compartido por las búsquedas de lugares, la geocodificación
+ * y los motores de routing. Envuelve fetch para cumplir las políticas de
+ * uso de los servidores públicos:
+ * - Limita el ritmo de peticiones por servidor (Nominatim: 1 por segundo)
+ * - Reintenta los fallos transitorios (429, 5xx, red) con espera exponencial
+ * - Si el servidor sigue limitándonos, lanza un HttpRateLimitError
+ *
+ * Las esperas respetan el AbortSignal: una petición cancelada mientras
+ * espera turno nunca llega a enviarse.
+ */
+
+import { t } from "@/modules/i18n/i18n";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Intervalo mínimo entre peticiones a cada servidor (ms)
+ *
+ * - nominatim.openstreetmap.org: máximo 1 petición por segundo
+ *   https://operations.osmfoundation.org/policies/nominatim/
+ * - router.project-osrm.org: servidor de demostración, 1 por segundo
+ *   https://github.com/Project-OSRM/osrm-backend/wiki/Demo-server
+ *
+ * Los servidores que no aparecen aquí (autoalojados) no se limitan.
+ */
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  "nominatim.openstreetmap.org": 1000,
+  "router.project-osrm.org": 1000,
+};
+
+/**
+ * Número de reintentos tras el primer intento fallido
+ */
+const MAX_RETRIES = 3;
+
+/**
+ * Espera base del primer reintento (ms); se duplica en cada intento
+ */
+const RETRY_BASE_DELAY_MS = 500;
+
+/**
+ * Espera máxima entre reintentos (ms), aunque Retry-After pida más
+ */
+const MAX_RETRY_DELAY_MS = 10000;
+
+/**
+ * Códigos HTTP que indican un fallo transitorio (merece la pena reintentar)
+ */
+const RETRYABLE_STATUS = [408, 429, 502, 503, 504];
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * HttpRateLimitError: El servidor sigue respondiendo 429 tras los reintentos
+ */
+export interface HttpRateLimitError {
+  /** Código fijo para distinguirlo de otros errores */
+  code: "RATE_LIMITED";
+
+  /** Mensaje legible para el usuario */
+  message: string;
+
+  /** Servidor que nos está limitando */
+  host: string;
+
+  /** Segundos que pide esperar el servidor (si lo indica) */
+  retryAfter?: number;
+}
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * isRateLimitError: Comprueba si un error es un HttpRateLimitError
+ */
+export const isRateLimitError = (error: unknown): error is HttpRateLimitError => {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as HttpRateLimitError).code === "RATE_LIMITED"
+  );
+};
+
+/**
+ * isAbortError: ¿El error viene de cancelar la petición (o de su timeout)?
+ */
+const isAbortError = (error: unknown): boolean => {
+  return (
+    error instanceof DOMException &&
+    (error.name === "AbortError" || error.name === "TimeoutError")
+  );
+};
+
+/**
+ * sleep: Espera unos milisegundos, pero termina antes si se cancela
+ *
+ * @throws El motivo de la cancelación si signal se aborta
+ */
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+};
+
+/**
+ * parseRetryAfter: Lee la cabecera Retry-After (segundos o fecha)
+ *
+ * @returns Segundos a esperar, o undefined si no viene o no se entiende
+ */
+const parseRetryAfter = (response: Response): number | undefined => {
+  const header = response.headers.get("Retry-After");
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, (date - Date.now()) / 1000);
+};
+
+// ============================================
+// CLASE DEL CLIENTE
+// ============================================
+
+/**
+ * HttpClient: fetch con límite de ritmo por servidor y reintentos
+ */
+class HttpClient {
+  /** Intervalo mínimo entre peticiones por servidor (ms) */
+  private rateLimits = new Map<string, number>(
+    Object.entries(DEFAULT_RATE_LIMITS)
+  );
+
+  /** Momento (ms) a partir del cual cada servidor admite la siguiente petición */
+  private nextSlot = new Map<string, number>();
+
+  /**
+   * setRateLimit: Cambia el ritmo permitido para un servidor
+   *
+   * @param host - Servidor (ej: "nominatim.openstreetmap.org" o "localhost:5000")
+   * @param intervalMs - Intervalo mínimo entre peticiones (0 = sin límite)
+   *
+   * Ejemplo (Nominatim autoalojado sin límite):
+   * httpClient.setRateLimit('localhost:8080', 0);
+   */
+  setRateLimit(host: string, intervalMs: number) {
+    if (intervalMs > 0) {
+      this.rateLimits.set(host, intervalMs);
+    } else {
+      this.rateLimits.delete(host);
+    }
+  }
+
+  /**
+   * fetch: Igual que fetch, pero respetando el ritmo y reintentando
+   *
+   * @param url - URL absoluta de la petición
+   * @param init - Opciones de fetch (incluida la señal de cancelación)
+   * @returns La respuesta (puede no ser ok: 4xx o un 5xx persistente)
+   * @throws HttpRateLimitError si el servidor sigue respondiendo 429
+   * @throws El error de red original si falla tras todos los reintentos
+   * @throws El motivo de la cancelación si se aborta init.signal
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const host = new URL(url).host;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForSlot(host, init.signal);
+
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        // Cancelación o timeout: no se reintenta
+        if (isAbortError(error) || init.signal?.aborted) throw error;
+        // Sin conexión: reintentar solo retrasaría el aviso al usuario
+        if (attempt >= MAX_RETRIES || navigator.onLine === false) throw error;
+
+        console.warn(`⚠️ Fallo de red con ${host}, reintentando...`, error);
+        await sleep(this.getRetryDelay(attempt), init.signal);
+        continue;
+      }
+
+      if (!RETRYABLE_STATUS.includes(response.status)) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response);
+
+      if (attempt >= MAX_RETRIES) {
+        if (response.status === 429) {
+          throw this.createRateLimitError(host, retryAfter);
+        }
+        return response;
+      }
+
+      console.warn(
+        `⚠️ ${host} respondió ${response.status}, reintento ${attempt + 1} de ${MAX_RETRIES}`
+      );
+      await sleep(this.getRetryDelay(attempt, retryAfter), init.signal);
+    }
+  }
+
+  /**
+   * waitForSlot: Espera el turno del servidor según su límite de ritmo
+   *
+   * Reserva el turno antes de esperar, así varias peticiones
+   * simultáneas quedan en fila en vez de salir todas a la vez.
+   * Si la petición se cancela mientras espera, devuelve el turno
+   * (salvo que otra ya haya reservado detrás), para que las búsquedas
+   * canceladas al escribir no retrasen la que sí interesa
+   */
+  private async waitForSlot(host: string, signal?: AbortSignal | null) {
+    const interval = this.rateLimits.get(host);
+    if (!interval) return;
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(host) ?? 0);
+    this.nextSlot.set(host, slot + interval);
+
+    if (slot > now) {
+      try {
+        await sleep(slot - now, signal);
+      } catch (error) {
+        if (this.nextSlot.get(host) === slot + interval) {
+          this.nextSlot.set(host, slot);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * getRetryDelay: Espera antes del siguiente reintento
+   *
+   * @param attempt - Intento que acaba de fallar (0 = el primero)
+   * @param retryAfter - Segundos que pide el servidor (opcional)
+   * @returns 500 ms, 1 s, 2 s... con un poco de azar para no
+   *          sincronizar los reintentos de varias pestañas
+   */
+  private getRetryDelay(attempt: number, retryAfter?: number): number {
+    const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+    const jitter = Math.random() * RETRY_BASE_DELAY_MS;
+    const requested = retryAfter !== undefined ? retryAfter * 1000 : 0;
+
+    return Math.min(MAX_RETRY_DELAY_MS, Math.max(backoff + jitter, requested));
+  }
+
+  /**
+   * createRateLimitError: Crea el error de "demasiadas peticiones"
+   */
+  private createRateLimitError(
+    host: string,
+    retryAfter?: number
+  ): HttpRateLimitError {
+    const message =
+      retryAfter !== undefined
+        ? t("errors.rateLimitedWait", { host, count: Math.ceil(retryAfter) })
+        : t("errors.rateLimited", { host });
+
+    return {
+      code: "RATE_LIMITED",
+      message,
+      host,
+      retryAfter,
+    };
+  }
+}
+
+// ============================================
+// EXPORTAR INSTANCIA ÚNICA (SINGLETON)
+// ============================================
+
+export const httpClient = new HttpClient();
+
+export default HttpClient;
@@ -0,0 +1,270 @@
+/**
+ * INSTRUCTIONS
+ *
+ * Instrucciones paso a paso a partir de maniobras estructuradas:
+ * - Construye el texto en el idioma activo a partir del tipo, la
+ *   dirección, el número de salida, la calle, su referencia y los destinos
+ * - Junta los pasos "continúa" diminutos con el paso anterior, para
+ *   que la lista no se llene de "Continúa por..." de pocos metros
+ *
+ * Lo usan todos los proveedores, así las instrucciones se parecen
+ * sea cual sea el motor de routing.
+ */
+
+import type {
+  ManeuverModifier,
+  RouteManeuver,
+  RouteSegment,
+} from "../interfaces/routing.interfaces";
+import { t } from "@/modules/i18n/i18n";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Distancia (m) por debajo de la cual un paso "continúa" se junta
+ * con el anterior
+ */
+const MIN_CONTINUE_DISTANCE = 50;
+
+/**
+ * Clave del catálogo de cada dirección
+ */
+const MODIFIER_KEYS = {
+  uturn: "uturn",
+  "sharp right": "sharpRight",
+  right: "right",
+  "slight right": "slightRight",
+  straight: "straight",
+  "slight left": "slightLeft",
+  left: "left",
+  "sharp left": "sharpLeft",
+} as const satisfies Record<ManeuverModifier, string>;
+
+/**
+ * Claves de los ordinales para las salidas de las rotondas (1 a 10)
+ */
+const ORDINAL_KEYS = [
+  "first",
+  "second",
+  "third",
+  "fourth",
+  "fifth",
+  "sixth",
+  "seventh",
+  "eighth",
+  "ninth",
+  "tenth",
+] as const;
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * spaced: Antepone un espacio a un fragmento (si no está vacío)
+ */
+const spaced = (fragment: string): string => (fragment ? ` ${fragment}` : "");
+
+/**
+ * formatRoad: Nombre de la vía con su referencia
+ *
+ * @returns Ejemplos: "Calle Mayor", "A-6", "Autovía del Noroeste (A-6)" o ""
+ */
+const formatRoad = (maneuver: RouteManeuver): string => {
+  const { streetName, ref } = maneuver;
+  if (streetName && ref && !streetName.includes(ref)) {
+    return `${streetName} (${ref})`;
+  }
+  return streetName || ref || "";
+};
+
+/**
+ * getTarget: Hacia dónde lleva la maniobra
+ *
+ * @returns " hacia Madrid" (destinos), " hacia Calle Mayor" (vía) o ""
+ */
+const getTarget = (maneuver: RouteManeuver): string => {
+  const target = maneuver.destinations || formatRoad(maneuver);
+  return target ? spaced(t("instructions.towards", { target })) : "";
+};
+
+/**
+ * getSide: Lado de la maniobra, sin matices
+ *
+ * @returns " a la derecha", " a la izquierda" o ""
+ */
+const getSide = (modifier?: ManeuverModifier): string => {
+  if (modifier?.includes("right")) return spaced(t("instructions.sides.right"));
+  if (modifier?.includes("left")) return spaced(t("instructions.sides.left"));
+  return "";
+};
+
+/**
+ * formatExit: Número de salida de una rotonda en palabras
+ *
+ * @returns "la segunda salida" o "la salida 12"
+ */
+const formatExit = (exit: number): string => {
+  const ordinalKey = ORDINAL_KEYS[exit - 1];
+  if (!ordinalKey) return t("instructions.exitNumber", { exit });
+
+  return t("instructions.ordinalExit", {
+    ordinal: t(`instructions.ordinals.${ordinalKey}`),
+  });
+};
+
+/**
+ * buildInstruction: Construye el texto de una maniobra en el idioma activo
+ *
+ * @param maneuver - Maniobra estructurada
+ * @returns Instrucción traducida
+ *
+ * Ejemplos (español):
+ * - { type: 'turn', modifier: 'left', streetName: 'Calle Mayor' }
+ *   → "Gira a la izquierda por Calle Mayor"
+ * - { type: 'roundabout', exit: 2, streetName: 'Avenida de América' }
+ *   → "En la rotonda, toma la segunda salida hacia Avenida de América"
+ * - { type: 'off-ramp', modifier: 'slight right', exit: 12, destinations: 'Burgos' }
+ *   → "Toma la salida 12 a la derecha hacia Burgos"
+ */
+export const buildInstruction = (maneuver: RouteManeuver): string => {
+  const road = formatRoad(maneuver);
+  const onRoad = road ? spaced(t("instructions.onRoad", { road })) : "";
+  const ontoRoad = road ? spaced(t("instructions.ontoRoad", { road })) : "";
+  const towards = maneuver.destinations
+    ? spaced(t("instructions.towards", { target: maneuver.destinations }))
+    : "";
+  const target = getTarget(maneuver);
+  const side = getSide(maneuver.modifier);
+  const { modifier, exit } = maneuver;
+
+  switch (maneuver.type) {
+    case "depart":
+      return t("instructions.depart", { road: onRoad });
+
+    case "arrive":
+      return t("instructions.arrive");
+
+    case "via":
+      return t("instructions.via");
+
+    case "turn":
+      if (modifier === "uturn") return t("instructions.uturn", { road: onRoad });
+      if (modifier === "straight" || !modifier) {
+        return t("instructions.straight", { road: onRoad });
+      }
+      return t("instructions.turn", {
+        direction: t(`instructions.directions.${MODIFIER_KEYS[modifier]}`),
+        road: ontoRoad,
+        towards,
+      });
+
+    case "merge":
+      return t("instructions.merge", {
+        side,
+        road: road ? spaced(t("instructions.intoRoad", { road })) : "",
+        towards,
+      });
+
+    case "fork":
+      return t("instructions.fork", {
+        side: side || spaced(t("instructions.sides.straight")),
+        target,
+      });
+
+    case "end-of-road":
+      return t("instructions.endOfRoad", { side, road: ontoRoad, towards });
+
+    case "on-ramp":
+      return t("instructions.onRamp", { side, target });
+
+    case "off-ramp": {
+      const exitText =
+        exit !== undefined
+          ? t("instructions.exitNumber", { exit })
+          : t("instructions.anyExit");
+      return t("instructions.offRamp", { exit: exitText, side, target });
+    }
+
+    case "roundabout":
+      if (exit !== undefined) {
+        return t("instructions.roundaboutExit", { exit: formatExit(exit), target });
+      }
+      return t("instructions.roundabout", { target });
+
+    case "exit-roundabout":
+      return t("instructions.exitRoundabout", { target });
+
+    case "ferry":
+      return t("instructions.ferry", { name: spaced(road) });
+
+    case "continue":
+    default:
+      if (modifier === "uturn") return t("instructions.uturn", { road: onRoad });
+      if (modifier && modifier !== "straight") {
+        return t("instructions.continueDirection", {
+          direction: t(`instructions.directions.${MODIFIER_KEYS[modifier]}`),
+          road: onRoad,
+        });
+      }
+      return t("instructions.continue", { road: onRoad });
+  }
+};
+
+/**
+ * isContinueStep: ¿El paso solo dice "sigue por donde vas"?
+ */
+const isContinueStep = (segment: RouteSegment): boolean => {
+  const maneuver = segment.maneuver;
+  if (!maneuver || maneuver.type !== "continue") return false;
+  return !maneuver.modifier || maneuver.modifier === "straight";
+};
+
+/**
+ * mergeContinueSegments: Junta los pasos "continúa" pequeños con el anterior
+ *
+ * @param segments - Pasos de la ruta en orden
+ * @returns Pasos nuevos, con los índices renumerados
+ *
+ * Un paso "continúa" (recto) se suma al anterior si mide menos de
+ * MIN_CONTINUE_DISTANCE o si sigue por la misma calle. Nunca se junta
+ * con una llegada, así los tramos entre paradas no se mezclan.
+ */
+export const mergeContinueSegments = (
+  segments: RouteSegment[]
+): RouteSegment[] => {
+  const merged: RouteSegment[] = [];
+
+  segments.forEach((segment) => {
+    const previous = merged[merged.length - 1];
+    const previousType = previous?.maneuver?.type;
+
+    const canMerge =
+      previous !== undefined &&
+      previousType !== "arrive" &&
+      previousType !== "via" &&
+      isContinueStep(segment) &&
+      (segment.distance < MIN_CONTINUE_DISTANCE ||
+        (segment.maneuver?.streetName !== undefined &&
+          segment.maneuver.streetName === previous.maneuver?.streetName));
+
+    if (!canMerge) {
+      merged.push({ ...segment });
+      return;
+    }
+
+    // El primer punto del paso es el último del anterior
+    const classes = [...(previous.classes || []), ...(segment.classes || [])];
+    merged[merged.length - 1] = {
+      ...previous,
+      distance: previous.distance + segment.distance,
+      duration: previous.duration + segment.duration,
+      coordinates: [...previous.coordinates, ...segment.coordinates.slice(1)],
+      classes: classes.filter((roadClass, index) => classes.indexOf(roadClass) === index),
+    };
+  });
+
+  return merged.map((segment, index) => ({ ...segment, index }));
+};
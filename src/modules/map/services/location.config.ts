@@ -0,0 +1,167 @@
+/**
+ * LOCATION CONFIG
+ *
+ * Decide qué fuente de ubicación se usa. Por orden de prioridad:
+ * 1. La URL de la app (?location=...), para demos: no se guarda
+ * 2. Lo guardado en localStorage (elegido en los ajustes)
+ * 3. El GPS del navegador
+ *
+ * Ejemplos de URL:
+ * ?location=fixed&at=40.4168,-3.7038
+ * ?location=replay&track=/tracks/paseo.gpx&speed=5
+ * ?location=browser
+ */
+
+import type {
+  LocationSourceConfig,
+  TrackPoint,
+} from "../interfaces/location.interfaces";
+import { parseCoordinates } from "./geocoders";
+import { REPLAY_SPEEDS } from "./location";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Clave de localStorage donde se guarda la fuente elegida en los ajustes
+ */
+const STORAGE_KEY = "vueflet:location-source";
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * parseSpeed: Multiplicador de velocidad válido (1 si no lo es)
+ */
+const parseSpeed = (value: unknown): number => {
+  const speed = Number(value);
+  return Number.isFinite(speed) && speed > 0 ? speed : REPLAY_SPEEDS[0]!;
+};
+
+const isCoordinates = (value: unknown): value is [number, number] => {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((item) => typeof item === "number" && Number.isFinite(item))
+  );
+};
+
+const isTrack = (value: unknown): value is TrackPoint[] => {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((point) => isCoordinates(point?.coordinates))
+  );
+};
+
+/**
+ * getUrlLocationConfig: Fuente indicada en la URL de la app
+ *
+ * @returns La configuración, o null si la URL no dice nada (o no es válida)
+ */
+const getUrlLocationConfig = (): LocationSourceConfig | null => {
+  const params = new URLSearchParams(window.location.search);
+
+  switch (params.get("location")) {
+    case "browser":
+      return { id: "browser" };
+    case "fixed": {
+      const coordinates = parseCoordinates(params.get("at") ?? "");
+      if (coordinates) return { id: "fixed", coordinates };
+      console.warn('?location=fixed necesita "at=lat,lon". Usando el GPS.');
+      return null;
+    }
+    case "replay": {
+      const trackUrl = params.get("track");
+      if (trackUrl) {
+        return {
+          id: "replay",
+          track: [],
+          speed: parseSpeed(params.get("speed")),
+          name: trackUrl.split("/").pop(),
+          trackUrl,
+        };
+      }
+      console.warn('?location=replay necesita "track=url". Usando el GPS.');
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * getStoredLocationConfig: Fuente elegida en los ajustes
+ */
+const getStoredLocationConfig = (): LocationSourceConfig | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+
+    const parsed = JSON.parse(stored);
+    switch (parsed?.id) {
+      case "fixed":
+        if (isCoordinates(parsed.coordinates)) {
+          return { id: "fixed", coordinates: parsed.coordinates };
+        }
+        break;
+      case "replay":
+        if (isTrack(parsed.track)) {
+          return {
+            id: "replay",
+            track: parsed.track,
+            speed: parseSpeed(parsed.speed),
+            name: typeof parsed.name === "string" ? parsed.name : undefined,
+          };
+        }
+        break;
+      case "browser":
+        return { id: "browser" };
+    }
+    console.warn("Fuente de ubicación guardada no válida:", parsed);
+  } catch (error) {
+    console.warn("Fuente de ubicación guardada no válida:", error);
+  }
+  return null;
+};
+
+/**
+ * loadLocationConfig: Obtiene la fuente de ubicación activa
+ *
+ * @returns La configuración y si viene de la URL (entonces no se guarda)
+ */
+export const loadLocationConfig = (): {
+  config: LocationSourceConfig;
+  fromUrl: boolean;
+} => {
+  const fromUrl = getUrlLocationConfig();
+  if (fromUrl) return { config: fromUrl, fromUrl: true };
+
+  return {
+    config: getStoredLocationConfig() ?? { id: "browser" },
+    fromUrl: false,
+  };
+};
+
+/**
+ * saveLocationConfig: Guarda (o borra) la fuente elegida en los ajustes
+ *
+ * @param config - Fuente a guardar, o null para volver al GPS del navegador
+ */
+export const saveLocationConfig = (config: LocationSourceConfig | null) => {
+  try {
+    if (config) {
+      // Lo que hay que guardar es el recorrido, no de dónde se descargó
+      const stored =
+        config.id === "replay" ? { ...config, trackUrl: undefined } : config;
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    // Un recorrido muy largo puede no caber en localStorage
+    console.warn("No se pudo guardar la fuente de ubicación:", error);
+  }
+};
@@ -0,0 +1,214 @@
+/**
+ * LOCATION SERVICE
+ *
+ * Da la posición del usuario delegando en una fuente intercambiable:
+ * el GPS del navegador, una posición fija o la reproducción de un
+ * recorrido grabado (GPX/GeoJSON). Así las funciones que dependen del
+ * movimiento (navegación, recálculo al salirse de la ruta) se pueden
+ * probar y enseñar desde una mesa, sin GPS.
+ *
+ * La fuente se elige en los ajustes o con la URL (ver location.config.ts).
+ * Al cambiarla, quien esté escuchando (watchPosition) pasa a recibir
+ * las posiciones de la nueva sin tener que volver a suscribirse.
+ */
+
+import type {
+  LocationPosition,
+  LocationSource,
+  LocationSourceConfig,
+  LocationSourceError,
+} from "../interfaces/location.interfaces";
+import {
+  BrowserLocation,
+  ReplayLocation,
+  createLocationSource,
+  parseTrack,
+} from "./location";
+import { loadLocationConfig, saveLocationConfig } from "./location.config";
+import { httpClient } from "./http-client";
+
+// ============================================
+// TIPOS
+// ============================================
+
+/**
+ * Watcher: Alguien que escucha las posiciones
+ */
+interface Watcher {
+  onPosition: (position: LocationPosition) => void;
+  onError: (error: LocationSourceError) => void;
+  /** Deja de escuchar a la fuente actual (null = aún no escucha) */
+  stop: (() => void) | null;
+}
+
+// ============================================
+// CLASE DEL SERVICIO
+// ============================================
+
+/**
+ * LocationService: Posición del usuario desde la fuente elegida
+ */
+class LocationService {
+  /** Fuente activa */
+  private source: LocationSource = new BrowserLocation();
+
+  /** Configuración de la fuente activa */
+  private config: LocationSourceConfig = { id: "browser" };
+
+  /** ¿La fuente activa se guarda en localStorage? (no si viene de la URL) */
+  private persisted = false;
+
+  /** Quien escucha las posiciones */
+  private watchers = new Set<Watcher>();
+
+  /** Se resuelve cuando la fuente inicial está lista (recorrido descargado) */
+  private ready: Promise<void>;
+
+  constructor() {
+    const { config, fromUrl } = loadLocationConfig();
+
+    this.ready = this.applyConfig(config)
+      .then(() => {
+        this.persisted = !fromUrl;
+      })
+      .catch((error) => {
+        console.warn(
+          "No se pudo usar la fuente de ubicación elegida. Usando el GPS del navegador:",
+          error
+        );
+      });
+  }
+
+  /**
+   * getConfig: Fuente activa y sus datos
+   */
+  getConfig(): LocationSourceConfig {
+    return this.config;
+  }
+
+  /**
+   * setSource: Cambia la fuente de ubicación en tiempo de ejecución
+   *
+   * @param config - Nueva fuente
+   * @param persist - Guardar la elección en localStorage (por defecto true)
+   * @throws Error si el recorrido no se puede descargar o está vacío
+   *
+   * Ejemplo:
+   * await locationService.setSource({ id: 'fixed', coordinates: [40.4168, -3.7038] });
+   */
+  async setSource(config: LocationSourceConfig, persist: boolean = true) {
+    await this.applyConfig(config);
+    this.persisted = persist;
+
+    if (persist) {
+      saveLocationConfig(this.config.id === "browser" ? null : this.config);
+    }
+  }
+
+  /**
+   * setReplaySpeed: Cambia la velocidad de la reproducción sin reiniciarla
+   *
+   * @param speed - Multiplicador (1 = tiempo real)
+   */
+  setReplaySpeed(speed: number) {
+    if (this.config.id !== "replay" || !(this.source instanceof ReplayLocation)) {
+      return;
+    }
+
+    this.source.setSpeed(speed);
+    this.config = { ...this.config, speed };
+    if (this.persisted) {
+      saveLocationConfig(this.config);
+    }
+  }
+
+  /**
+   * restartReplay: Vuelve al principio del recorrido reproducido
+   */
+  restartReplay() {
+    if (this.source instanceof ReplayLocation) {
+      this.source.restart();
+    }
+  }
+
+  /**
+   * getCurrentPosition: Posición actual del usuario
+   *
+   * @throws LocationSourceError si la fuente no puede darla
+   */
+  async getCurrentPosition(): Promise<LocationPosition> {
+    await this.ready;
+    return this.source.getCurrentPosition();
+  }
+
+  /**
+   * watchPosition: Avisa de cada posición nueva
+   *
+   * @param onPosition - Se llama con cada posición
+   * @param onError - Se llama si la fuente falla
+   * @returns Función para dejar de escuchar
+   */
+  watchPosition(
+    onPosition: (position: LocationPosition) => void,
+    onError: (error: LocationSourceError) => void
+  ): () => void {
+    const watcher: Watcher = { onPosition, onError, stop: null };
+    this.watchers.add(watcher);
+
+    // Si la fuente inicial aún se está preparando, se empieza al terminar
+    this.ready.then(() => {
+      if (this.watchers.has(watcher) && !watcher.stop) {
+        watcher.stop = this.source.watchPosition(onPosition, onError);
+      }
+    });
+
+    return () => {
+      watcher.stop?.();
+      this.watchers.delete(watcher);
+    };
+  }
+
+  /**
+   * applyConfig: Crea la fuente y pasa a ella a quien esté escuchando
+   */
+  private async applyConfig(config: LocationSourceConfig) {
+    const resolved =
+      config.id === "replay" && config.track.length === 0 && config.trackUrl
+        ? { ...config, track: await this.fetchTrack(config.trackUrl) }
+        : config;
+
+    const source = createLocationSource(resolved);
+
+    this.watchers.forEach((watcher) => watcher.stop?.());
+    this.source = source;
+    this.config = resolved;
+    this.watchers.forEach((watcher) => {
+      watcher.stop = source.watchPosition(watcher.onPosition, watcher.onError);
+    });
+  }
+
+  /**
+   * fetchTrack: Descarga y lee un recorrido GPX/GeoJSON
+   *
+   * @param url - URL del archivo (puede ser relativa a la app)
+   */
+  private async fetchTrack(url: string) {
+    const response = await httpClient.fetch(
+      new URL(url, window.location.href).toString()
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Error descargando el recorrido: ${response.status} ${response.statusText}`
+      );
+    }
+    return parseTrack(await response.text());
+  }
+}
+
+// ============================================
+// EXPORTAR INSTANCIA ÚNICA (SINGLETON)
+// ============================================
+
+export const locationService = new LocationService();
+
+export default LocationService;
@@ -0,0 +1,95 @@
+/**
+ * BROWSER LOCATION
+ *
+ * Fuente de ubicación real: el GPS del navegador (navigator.geolocation).
+ * Es la fuente por defecto.
+ */
+
+import type {
+  LocationPosition,
+  LocationSource,
+  LocationSourceError,
+} from "../../interfaces/location.interfaces";
+import { LOCATION_ERROR_CODES } from "./location.errors";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Opciones del seguimiento: máxima precisión y posiciones de como mucho 1 s
+ * (la posición inicial usa las opciones por defecto del navegador)
+ */
+const WATCH_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  maximumAge: 1000,
+  timeout: 15000,
+};
+
+// ============================================
+// CLASE DE LA FUENTE
+// ============================================
+
+export class BrowserLocation implements LocationSource {
+  readonly id = "browser" as const;
+
+  /**
+   * getCurrentPosition: Posición actual del GPS
+   */
+  getCurrentPosition(): Promise<LocationPosition> {
+    return new Promise((resolve, reject) => {
+      if (!("geolocation" in navigator)) {
+        reject(unsupportedError());
+        return;
+      }
+
+      navigator.geolocation.getCurrentPosition(
+        (position) => resolve(toLocationPosition(position)),
+        (error) => reject(error)
+      );
+    });
+  }
+
+  /**
+   * watchPosition: Sigue la posición con watchPosition
+   */
+  watchPosition(
+    onPosition: (position: LocationPosition) => void,
+    onError: (error: LocationSourceError) => void
+  ): () => void {
+    if (!("geolocation" in navigator)) {
+      onError(unsupportedError());
+      return () => {};
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => onPosition(toLocationPosition(position)),
+      onError,
+      WATCH_OPTIONS
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }
+}
+
+/**
+ * toLocationPosition: Posición del navegador en nuestro formato
+ */
+const toLocationPosition = ({
+  coords,
+  timestamp,
+}: GeolocationPosition): LocationPosition => ({
+  coordinates: [coords.latitude, coords.longitude],
+  accuracy: coords.accuracy,
+  heading: coords.heading,
+  speed: coords.speed,
+  timestamp,
+});
+
+/**
+ * unsupportedError: El navegador no tiene geolocalización
+ */
+const unsupportedError = (): LocationSourceError => ({
+  code: LOCATION_ERROR_CODES.POSITION_UNAVAILABLE,
+  message: "Geolocalización no disponible en este navegador",
+});
@@ -0,0 +1,79 @@
+/**
+ * FIXED LOCATION
+ *
+ * Fuente de ubicación simulada que siempre está en el mismo punto.
+ * Útil para desarrollar o hacer demos desde cualquier sitio sin GPS.
+ *
+ * Mientras alguien la escucha repite la posición cada segundo, como
+ * haría un GPS real con el usuario parado.
+ */
+
+import type {
+  LocationPosition,
+  LocationSource,
+  LocationSourceError,
+} from "../../interfaces/location.interfaces";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Cada cuánto se repite la posición (ms)
+ */
+const REPEAT_INTERVAL_MS = 1000;
+
+/**
+ * Precisión que se anuncia (metros)
+ */
+const FIXED_ACCURACY_M = 5;
+
+// ============================================
+// CLASE DE LA FUENTE
+// ============================================
+
+export class FixedLocation implements LocationSource {
+  readonly id = "fixed" as const;
+
+  /** Coordenadas [lat, lon] de la posición */
+  readonly coordinates: [number, number];
+
+  /**
+   * @param coordinates - [latitud, longitud] donde está el usuario
+   */
+  constructor(coordinates: [number, number]) {
+    this.coordinates = coordinates;
+  }
+
+  /**
+   * getCurrentPosition: Siempre la misma posición
+   */
+  async getCurrentPosition(): Promise<LocationPosition> {
+    return this.getPosition();
+  }
+
+  /**
+   * watchPosition: La posición al momento y luego cada segundo
+   */
+  watchPosition(
+    onPosition: (position: LocationPosition) => void,
+    _onError: (error: LocationSourceError) => void
+  ): () => void {
+    onPosition(this.getPosition());
+    const timer = setInterval(
+      () => onPosition(this.getPosition()),
+      REPEAT_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }
+
+  private getPosition(): LocationPosition {
+    return {
+      coordinates: this.coordinates,
+      accuracy: FIXED_ACCURACY_M,
+      heading: null,
+      speed: 0,
+      timestamp: Date.now(),
+    };
+  }
+}
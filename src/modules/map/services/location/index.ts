@@ -0,0 +1,50 @@
+/**
+ * FÁBRICA DE FUENTES DE UBICACIÓN
+ *
+ * Punto único para crear la fuente de ubicación a partir de su
+ * configuración.
+ */
+
+import type {
+  LocationSource,
+  LocationSourceConfig,
+} from "../../interfaces/location.interfaces";
+import { BrowserLocation } from "./browser.location";
+import { FixedLocation } from "./fixed.location";
+import { ReplayLocation } from "./replay.location";
+import { parseTrack } from "./track-parser";
+import { LOCATION_ERROR_CODES } from "./location.errors";
+
+/**
+ * Multiplicadores de velocidad de la reproducción que se ofrecen en los ajustes
+ */
+export const REPLAY_SPEEDS = [1, 2, 5, 10];
+
+/**
+ * createLocationSource: Crea la fuente indicada
+ *
+ * @param config - Fuente y sus datos (posición fija, recorrido...)
+ * @returns Instancia de la fuente
+ * @throws Error si el recorrido a reproducir está vacío
+ */
+export const createLocationSource = (
+  config: LocationSourceConfig
+): LocationSource => {
+  switch (config.id) {
+    case "fixed":
+      return new FixedLocation(config.coordinates);
+    case "replay":
+      return new ReplayLocation(config.track, config.speed);
+    case "browser":
+    default:
+      return new BrowserLocation();
+  }
+};
+
+export {
+  BrowserLocation,
+  FixedLocation,
+  ReplayLocation,
+  parseTrack,
+  LOCATION_ERROR_CODES,
+};
@@ -0,0 +1,16 @@
+/**
+ * ERRORES DE UBICACIÓN
+ *
+ * Códigos de error de las fuentes de ubicación. Son los mismos que los
+ * de GeolocationPositionError, así los errores del GPS del navegador
+ * pasan tal cual y el resto de fuentes hablan el mismo idioma.
+ */
+
+export const LOCATION_ERROR_CODES = {
+  /** El usuario no ha dado permiso */
+  PERMISSION_DENIED: 1,
+  /** No se pudo determinar la posición (sin señal, sin GPS) */
+  POSITION_UNAVAILABLE: 2,
+  /** La posición tardó demasiado */
+  TIMEOUT: 3,
+} as const;
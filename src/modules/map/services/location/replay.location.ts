@@ -0,0 +1,244 @@
+/**
+ * REPLAY LOCATION
+ *
+ * Fuente de ubicación simulada que reproduce un recorrido grabado
+ * (GPX o GeoJSON) como si el usuario se moviera por él:
+ * - Si los puntos traen hora, se respetan los tiempos de la grabación
+ * - Si no, se recorre a velocidad constante (DEFAULT_SPEED_MPS)
+ * - El multiplicador de velocidad acelera (o frena) la reproducción
+ *
+ * El reloj de la reproducción solo avanza mientras alguien escucha
+ * (watchPosition): al empezar la navegación, el recorrido se pone en
+ * marcha desde donde se quedó. Al llegar al final se queda quieto
+ * en el último punto.
+ */
+
+import type {
+  LocationPosition,
+  LocationSource,
+  LocationSourceError,
+  TrackPoint,
+} from "../../interfaces/location.interfaces";
+import { getDistanceMeters } from "../route-elevation";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Velocidad para recorridos sin hora (m/s): ~36 km/h, coche por ciudad
+ */
+const DEFAULT_SPEED_MPS = 10;
+
+/**
+ * Cada cuánto se emite una posición (ms de tiempo real)
+ */
+const TICK_INTERVAL_MS = 1000;
+
+/**
+ * Precisión que se anuncia (metros)
+ */
+const REPLAY_ACCURACY_M = 5;
+
+// ============================================
+// CLASE DE LA FUENTE
+// ============================================
+
+export class ReplayLocation implements LocationSource {
+  readonly id = "replay" as const;
+
+  /** Puntos del recorrido */
+  private readonly points: TrackPoint[];
+
+  /** Momento de cada punto desde el inicio de la reproducción (ms) */
+  private readonly times: number[];
+
+  /** Multiplicador de velocidad (1 = tiempo real) */
+  private speed: number;
+
+  /** Tiempo de recorrido ya reproducido (ms) */
+  private elapsed = 0;
+
+  /** Momento real del último avance del reloj (ms) */
+  private lastTick = 0;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(position: LocationPosition) => void>();
+
+  /**
+   * @param track - Puntos del recorrido (al menos uno)
+   * @param speed - Multiplicador de velocidad (por defecto, tiempo real)
+   * @throws Error si el recorrido está vacío
+   */
+  constructor(track: TrackPoint[], speed: number = 1) {
+    if (track.length === 0) {
+      throw new Error("El recorrido no tiene puntos");
+    }
+    this.points = track;
+    this.times = getTrackTimes(track);
+    this.speed = speed;
+  }
+
+  /**
+   * duration: Duración del recorrido a velocidad 1 (ms)
+   */
+  get duration(): number {
+    return this.times[this.times.length - 1] ?? 0;
+  }
+
+  /**
+   * setSpeed: Cambia el multiplicador de velocidad sin reiniciar
+   */
+  setSpeed(speed: number) {
+    this.advance();
+    this.speed = speed;
+  }
+
+  /**
+   * restart: Vuelve al principio del recorrido
+   */
+  restart() {
+    this.elapsed = 0;
+    this.lastTick = Date.now();
+    this.emit();
+  }
+
+  /**
+   * getCurrentPosition: Punto del recorrido donde va la reproducción
+   */
+  async getCurrentPosition(): Promise<LocationPosition> {
+    return this.getPosition();
+  }
+
+  /**
+   * watchPosition: Pone en marcha la reproducción y avisa cada segundo
+   */
+  watchPosition(
+    onPosition: (position: LocationPosition) => void,
+    _onError: (error: LocationSourceError) => void
+  ): () => void {
+    this.listeners.add(onPosition);
+    onPosition(this.getPosition());
+
+    if (!this.timer) {
+      this.lastTick = Date.now();
+      this.timer = setInterval(() => {
+        this.advance();
+        this.emit();
+      }, TICK_INTERVAL_MS);
+    }
+
+    return () => {
+      this.listeners.delete(onPosition);
+      if (this.listeners.size === 0 && this.timer) {
+        this.advance();
+        clearInterval(this.timer);
+        this.timer = null;
+      }
+    };
+  }
+
+  /**
+   * advance: Avanza el reloj de la reproducción hasta ahora
+   */
+  private advance() {
+    const now = Date.now();
+    if (this.timer) {
+      this.elapsed = Math.min(
+        this.duration,
+        this.elapsed + (now - this.lastTick) * this.speed
+      );
+    }
+    this.lastTick = now;
+  }
+
+  private emit() {
+    const position = this.getPosition();
+    this.listeners.forEach((listener) => listener(position));
+  }
+
+  /**
+   * getPosition: Posición interpolada en el momento actual de la reproducción
+   */
+  private getPosition(): LocationPosition {
+    const last = this.points.length - 1;
+
+    // Tramo del recorrido en el que cae el momento actual
+    let index = 0;
+    while (index < last - 1 && this.times[index + 1]! <= this.elapsed) {
+      index++;
+    }
+
+    const a = this.points[index]!;
+    const b = this.points[Math.min(index + 1, last)]!;
+    const start = this.times[index]!;
+    const end = this.times[Math.min(index + 1, last)]!;
+    const ratio = end > start ? Math.min(1, (this.elapsed - start) / (end - start)) : 1;
+    const [lat1, lon1] = a.coordinates;
+    const [lat2, lon2] = b.coordinates;
+
+    const finished = this.elapsed >= this.duration;
+    const length = getDistanceMeters(a.coordinates, b.coordinates);
+
+    return {
+      coordinates: [lat1 + (lat2 - lat1) * ratio, lon1 + (lon2 - lon1) * ratio],
+      accuracy: REPLAY_ACCURACY_M,
+      heading: length > 0 ? getBearing(a.coordinates, b.coordinates) : null,
+      speed:
+        finished || end <= start ? 0 : (length / ((end - start) / 1000)) * this.speed,
+      timestamp: Date.now(),
+    };
+  }
+}
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+/**
+ * getTrackTimes: Momento de cada punto desde el inicio (ms)
+ *
+ * Con horas en todos los puntos (y en orden) se usan las de la grabación;
+ * si falta alguna, se reparte el recorrido a velocidad constante
+ */
+const getTrackTimes = (track: TrackPoint[]): number[] => {
+  const first = track[0]?.time;
+  const hasTimes =
+    first !== undefined &&
+    track.every(
+      (point, index) =>
+        point.time !== undefined &&
+        (index === 0 || point.time >= track[index - 1]!.time!)
+    ) &&
+    track[track.length - 1]!.time! > first;
+
+  if (hasTimes) {
+    return track.map((point) => point.time! - first);
+  }
+
+  const times = [0];
+  for (let i = 1; i < track.length; i++) {
+    const distance = getDistanceMeters(
+      track[i - 1]!.coordinates,
+      track[i]!.coordinates
+    );
+    times.push(times[i - 1]! + (distance / DEFAULT_SPEED_MPS) * 1000);
+  }
+  return times;
+};
+
+/**
+ * getBearing: Rumbo de a hacia b en grados (0 = norte, 90 = este)
+ */
+const getBearing = (
+  [lat1, lon1]: [number, number],
+  [lat2, lon2]: [number, number]
+): number => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLon = toRad(lon2 - lon1);
+  const y = Math.sin(dLon) * Math.cos(toRad(lat2));
+  const x =
+    Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(dLon);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
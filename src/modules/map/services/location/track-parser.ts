@@ -0,0 +1,128 @@
+/**
+ * TRACK PARSER
+ *
+ * Lee recorridos grabados para la fuente de ubicación "replay":
+ * - GPX: puntos de track (<trkpt>) o, si no hay, de ruta (<rtept>),
+ *   con su hora (<time>) si la tienen
+ * - GeoJSON: LineString o MultiLineString (sueltas, en un Feature o el
+ *   primero de un FeatureCollection). Las horas se leen de
+ *   properties.coordTimes (el formato de togeojson) o properties.times
+ */
+
+import type { TrackPoint } from "../../interfaces/location.interfaces";
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * parseTrack: Puntos de un recorrido GPX o GeoJSON
+ *
+ * @param text - Contenido del archivo
+ * @returns Puntos del recorrido, en orden
+ * @throws Error si el formato no se reconoce o no hay puntos
+ */
+export const parseTrack = (text: string): TrackPoint[] => {
+  const content = text.trim();
+  const points = content.startsWith("<")
+    ? parseGpx(content)
+    : parseGeoJson(content);
+
+  if (points.length === 0) {
+    throw new Error("El recorrido no tiene puntos");
+  }
+  return points;
+};
+
+/**
+ * parseGpx: Puntos de un GPX
+ */
+const parseGpx = (content: string): TrackPoint[] => {
+  const doc = new DOMParser().parseFromString(content, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("El archivo GPX no es XML válido");
+  }
+
+  let elements = Array.from(doc.getElementsByTagName("trkpt"));
+  if (elements.length === 0) {
+    elements = Array.from(doc.getElementsByTagName("rtept"));
+  }
+
+  return elements.flatMap((element): TrackPoint[] => {
+    const lat = parseFloat(element.getAttribute("lat") ?? "");
+    const lon = parseFloat(element.getAttribute("lon") ?? "");
+    if (!isValidCoordinate(lat, lon)) return [];
+
+    const timeText = element.getElementsByTagName("time")[0]?.textContent;
+    return [{ coordinates: [lat, lon], time: parseTime(timeText) }];
+  });
+};
+
+/**
+ * parseGeoJson: Puntos de un GeoJSON
+ */
+const parseGeoJson = (content: string): TrackPoint[] => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("El archivo no es GPX ni GeoJSON");
+  }
+
+  const feature =
+    data?.type === "FeatureCollection"
+      ? data.features?.find((item: any) => isLineGeometry(item?.geometry))
+      : data?.type === "Feature"
+      ? data
+      : { geometry: data, properties: {} };
+
+  const geometry = feature?.geometry;
+  if (!isLineGeometry(geometry)) {
+    throw new Error("El GeoJSON no tiene ninguna línea (LineString)");
+  }
+
+  // GeoJSON guarda [lon, lat]; MultiLineString se une en un solo recorrido
+  const coordinates: number[][] =
+    geometry.type === "MultiLineString"
+      ? geometry.coordinates.flat()
+      : geometry.coordinates;
+
+  const rawTimes = feature.properties?.coordTimes ?? feature.properties?.times;
+  const times: unknown[] = Array.isArray(rawTimes)
+    ? Array.isArray(rawTimes[0])
+      ? rawTimes.flat()
+      : rawTimes
+    : [];
+
+  return coordinates.flatMap((position, index): TrackPoint[] => {
+    const [lon, lat] = position;
+    if (!isValidCoordinate(lat, lon)) return [];
+    return [{ coordinates: [lat!, lon!], time: parseTime(times[index]) }];
+  });
+};
+
+const isLineGeometry = (geometry: any): boolean => {
+  return (
+    (geometry?.type === "LineString" || geometry?.type === "MultiLineString") &&
+    Array.isArray(geometry.coordinates)
+  );
+};
+
+const isValidCoordinate = (lat: unknown, lon: unknown): boolean => {
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+};
+
+/**
+ * parseTime: Hora de un punto en milisegundos (ISO 8601 o milisegundos)
+ */
+const parseTime = (value: unknown): number | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
@@ -0,0 +1,192 @@
+/**
+ * MAP LINK
+ *
+ * Convierte el estado de la app en parámetros de la URL y al revés,
+ * para que una búsqueda o una ruta se pueda compartir o guardar:
+ *
+ * - mode=directions         → modo direcciones (sin él, modo búsqueda)
+ * - wp=lat,lon,nombre       → un punto de la ruta (se repite, en orden)
+ * - travel=cycling          → modo de transporte (sin él, coche)
+ * - alt=1                   → alternativa elegida (sin él, la principal)
+ * - q=texto                 → búsqueda (solo en modo búsqueda)
+ * - map=lat,lon,zoom        → centro y zoom del mapa
+ *
+ * Los demás parámetros de la URL (ej: ?location=..., ver
+ * location.config.ts) no se tocan.
+ */
+
+import type { LocationQuery, LocationQueryRaw } from "vue-router";
+import type {
+  MapLinkState,
+  MapLinkWaypoint,
+  MapViewport,
+} from "../interfaces/map-link.interfaces";
+import type { TravelMode } from "../interfaces/routing.interfaces";
+import { formatCoordinates } from "./geocoders";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Parámetros de la URL que pertenecen al enlace
+ */
+export const MAP_LINK_PARAMS = ["mode", "wp", "travel", "alt", "q", "map"];
+
+/**
+ * Decimales de las coordenadas (5 ≈ 1 metro)
+ */
+const COORDINATE_DECIMALS = 5;
+
+const TRAVEL_MODES: TravelMode[] = ["driving", "cycling", "walking"];
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * parseMapLink: Lee el estado guardado en la URL
+ *
+ * @param query - Parámetros de la URL (route.query)
+ * @returns El estado, o null si la URL no trae ningún parámetro del enlace
+ *
+ * Los valores que no se entienden se ignoran (se usa el de por defecto)
+ */
+export const parseMapLink = (query: LocationQuery): MapLinkState | null => {
+  if (!MAP_LINK_PARAMS.some((param) => query[param] !== undefined)) {
+    return null;
+  }
+
+  const waypoints = getValues(query.wp).flatMap((value) => {
+    const waypoint = parseWaypoint(value);
+    return waypoint ? [waypoint] : [];
+  });
+
+  const travel = getValue(query.travel);
+  const alternative = Number.parseInt(getValue(query.alt) ?? "", 10);
+
+  return {
+    mode:
+      getValue(query.mode) === "directions" || waypoints.length > 0
+        ? "directions"
+        : "search",
+    waypoints,
+    travelMode: TRAVEL_MODES.includes(travel as TravelMode)
+      ? (travel as TravelMode)
+      : "driving",
+    alternative: alternative >= 0 ? alternative : -1,
+    query: getValue(query.q)?.trim() ?? "",
+    viewport: parseViewport(getValue(query.map)),
+  };
+};
+
+/**
+ * buildMapLinkQuery: Parámetros de la URL para un estado
+ *
+ * @param state - Estado de la app
+ * @param currentQuery - Parámetros actuales (se conservan los que no son del enlace)
+ * @returns Parámetros para router.replace({ query })
+ */
+export const buildMapLinkQuery = (
+  state: MapLinkState,
+  currentQuery: LocationQuery = {}
+): LocationQueryRaw => {
+  const query: LocationQueryRaw = Object.fromEntries(
+    Object.entries(currentQuery).filter(
+      ([param]) => !MAP_LINK_PARAMS.includes(param)
+    )
+  );
+
+  if (state.mode === "directions") {
+    query.mode = "directions";
+    if (state.waypoints.length > 0) {
+      query.wp = state.waypoints.map(formatWaypoint);
+    }
+    if (state.travelMode !== "driving") {
+      query.travel = state.travelMode;
+    }
+    if (state.alternative >= 0) {
+      query.alt = String(state.alternative);
+    }
+  } else if (state.query) {
+    query.q = state.query;
+  }
+
+  if (state.viewport) {
+    const { center, zoom } = state.viewport;
+    query.map = [...center.map(formatCoordinate), Math.round(zoom)].join(",");
+  }
+
+  return query;
+};
+
+/**
+ * isSameMapLinkQuery: ¿Los dos conjuntos de parámetros son iguales?
+ * Evita reemplazar la URL (y el historial) cuando nada ha cambiado
+ */
+export const isSameMapLinkQuery = (
+  a: LocationQuery | LocationQueryRaw,
+  b: LocationQuery | LocationQueryRaw
+): boolean => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(
+    (key) =>
+      JSON.stringify(getValues(a[key] as LocationQuery[string])) ===
+      JSON.stringify(getValues(b[key] as LocationQuery[string]))
+  );
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+const getValues = (value: LocationQuery[string] | undefined): string[] => {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((item): item is string => typeof item === "string");
+};
+
+const getValue = (value: LocationQuery[string] | undefined) => {
+  return getValues(value)[0];
+};
+
+const formatCoordinate = (value: number) => value.toFixed(COORDINATE_DECIMALS);
+
+const isValidCoordinates = (lat: number, lon: number) => {
+  return (
+    Number.isFinite(lat) &&
+    Number.isFinite(lon) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+};
+
+/**
+ * formatWaypoint: "lat,lon,nombre" (el nombre puede llevar comas)
+ */
+const formatWaypoint = ({ name, coordinates }: MapLinkWaypoint): string => {
+  return [...coordinates.map(formatCoordinate), name].join(",");
+};
+
+const parseWaypoint = (value: string): MapLinkWaypoint | null => {
+  const [latText = "", lonText = "", ...nameParts] = value.split(",");
+  const lat = Number.parseFloat(latText);
+  const lon = Number.parseFloat(lonText);
+  if (!isValidCoordinates(lat, lon)) return null;
+
+  const name = nameParts.join(",").trim();
+  return {
+    name: name || formatCoordinates([lat, lon]),
+    coordinates: [lat, lon],
+  };
+};
+
+const parseViewport = (value: string | undefined): MapViewport | null => {
+  if (!value) return null;
+
+  const [lat = NaN, lon = NaN, zoom = NaN] = value
+    .split(",")
+    .map((part) => Number.parseFloat(part));
+  if (!isValidCoordinates(lat, lon) || !Number.isFinite(zoom)) return null;
+
+  return { center: [lat, lon], zoom };
+};
@@ -0,0 +1,343 @@
+/**
+ * PLACE SEARCH
+ *
+ * Búsqueda de lugares por texto con el endpoint /search de Nominatim:
+ * - Resultados cerca de la vista del mapa o de una zona (viewbox)
+ * - Filtros de país, idioma y tipo de lugar (se guardan en localStorage)
+ * - Páginas de resultados (exclude_place_ids)
+ *
+ * Documentación: https://nominatim.org/release-docs/latest/api/Search/
+ */
+
+import type { Place } from "../interfaces/place.interfaces";
+import type {
+  PlaceCategory,
+  PlaceSearchFilters,
+  SearchBounds,
+} from "../interfaces/search.interfaces";
+import {
+  DEFAULT_NOMINATIM_URL,
+  getNominatimIdentityParams,
+} from "./geocoders";
+import { httpClient } from "./http-client";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Clave de localStorage donde se guardan los filtros
+ */
+const STORAGE_KEY = "vueflet:search-filters";
+
+/**
+ * Resultados por página ("Más resultados" pide la siguiente)
+ */
+export const SEARCH_PAGE_SIZE = 5;
+
+/**
+ * Países que se ofrecen en el filtro (códigos ISO de dos letras)
+ */
+export const SEARCH_COUNTRIES = [
+  "es",
+  "pt",
+  "fr",
+  "it",
+  "de",
+  "gb",
+  "us",
+  "mx",
+  "ar",
+  "co",
+  "cl",
+] as const;
+
+/**
+ * Idiomas en los que se pueden pedir los resultados
+ */
+export const SEARCH_LANGUAGES = ["es", "en", "fr", "de", "it", "pt"] as const;
+
+/**
+ * Tipos de lugar del filtro
+ * - phrase: Palabra que Nominatim reconoce como tipo de lugar
+ *   ("special phrase"; en inglés, que siempre están cargadas)
+ * - tags: Etiquetas OSM (clase=tipo) que cuentan como ese tipo
+ */
+export const PLACE_CATEGORIES: Record<
+  PlaceCategory,
+  { icon: string; phrase: string; tags: string[] }
+> = {
+  restaurant: {
+    icon: "🍽️",
+    phrase: "restaurant",
+    tags: ["amenity=restaurant", "amenity=fast_food"],
+  },
+  cafe: { icon: "☕", phrase: "cafe", tags: ["amenity=cafe"] },
+  station: {
+    icon: "🚉",
+    phrase: "station",
+    tags: [
+      "railway=station",
+      "railway=halt",
+      "public_transport=station",
+      "amenity=bus_station",
+    ],
+  },
+  parking: { icon: "🅿️", phrase: "parking", tags: ["amenity=parking"] },
+  fuel: { icon: "⛽", phrase: "fuel", tags: ["amenity=fuel"] },
+  hotel: {
+    icon: "🏨",
+    phrase: "hotel",
+    tags: ["tourism=hotel", "tourism=hostel", "tourism=guest_house"],
+  },
+};
+
+/**
+ * Filtros sin nada elegido
+ */
+export const DEFAULT_SEARCH_FILTERS: PlaceSearchFilters = {
+  countryCode: null,
+  language: null,
+  category: null,
+};
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * PlaceSearchRequest: Todo lo que decide una búsqueda
+ * (se guarda para pedir las páginas siguientes con lo mismo)
+ */
+export interface PlaceSearchRequest {
+  /** Texto buscado (vacío = solo el tipo de lugar, dentro de la zona) */
+  query: string;
+
+  /** Filtros activos */
+  filters: PlaceSearchFilters;
+
+  /** Idioma de la app (si el filtro no elige otro) */
+  locale: string;
+
+  /** Zona preferida, o null para buscar en cualquier sitio */
+  bounds: SearchBounds | null;
+
+  /** true = solo resultados dentro de la zona; false = solo los prefiere */
+  bounded: boolean;
+}
+
+/**
+ * PlaceSearchPage: Una página de resultados
+ */
+export interface PlaceSearchPage {
+  /** Lugares que cumplen los filtros */
+  places: Place[];
+
+  /** IDs de todo lo recibido (para excluirlo en la página siguiente) */
+  placeIds: number[];
+
+  /** ¿Puede haber más? (la página vino llena) */
+  hasMore: boolean;
+}
+
+// ============================================
+// PERSISTENCIA
+// ============================================
+
+/**
+ * loadSearchFilters: Filtros guardados en este navegador
+ *
+ * @returns Los filtros (los valores no válidos se ignoran)
+ */
+export const loadSearchFilters = (): PlaceSearchFilters => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return { ...DEFAULT_SEARCH_FILTERS };
+
+    const parsed = JSON.parse(stored);
+    return {
+      countryCode: isOneOf(parsed?.countryCode, SEARCH_COUNTRIES)
+        ? parsed.countryCode
+        : null,
+      language: isOneOf(parsed?.language, SEARCH_LANGUAGES)
+        ? parsed.language
+        : null,
+      category: isOneOf(parsed?.category, Object.keys(PLACE_CATEGORIES))
+        ? (parsed.category as PlaceCategory)
+        : null,
+    };
+  } catch (error) {
+    console.warn("Filtros de búsqueda no válidos:", error);
+    return { ...DEFAULT_SEARCH_FILTERS };
+  }
+};
+
+/**
+ * storeSearchFilters: Guarda los filtros de búsqueda
+ */
+export const storeSearchFilters = (filters: PlaceSearchFilters) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.warn("No se pudieron guardar los filtros de búsqueda:", error);
+  }
+};
+
+// ============================================
+// ZONAS
+// ============================================
+
+/**
+ * boundsAround: Caja cuadrada alrededor de un punto
+ *
+ * @param point - [lat, lon] del centro
+ * @param delta - Grados hacia cada lado (0.05 ≈ 5 km)
+ */
+export const boundsAround = (
+  point: [number, number],
+  delta: number
+): SearchBounds => {
+  const [lat, lon] = point;
+  return clampBounds({
+    south: lat - delta,
+    west: lon - delta,
+    north: lat + delta,
+    east: lon + delta,
+  });
+};
+
+/**
+ * clampBounds: Recorta una zona a latitudes y longitudes válidas
+ * (con el mapa muy alejado, Leaflet da longitudes más allá de ±180)
+ */
+export const clampBounds = (bounds: SearchBounds): SearchBounds => {
+  return {
+    south: clamp(bounds.south, -90, 90),
+    west: clamp(bounds.west, -180, 180),
+    north: clamp(bounds.north, -90, 90),
+    east: clamp(bounds.east, -180, 180),
+  };
+};
+
+// ============================================
+// BÚSQUEDA
+// ============================================
+
+/**
+ * hasSearchTerms: ¿Hay algo que buscar? (texto o tipo de lugar)
+ */
+export const hasSearchTerms = (query: string, filters: PlaceSearchFilters) => {
+  return query.trim() !== "" || filters.category !== null;
+};
+
+/**
+ * buildPlaceSearchParams: Parámetros de Nominatim para una búsqueda
+ *
+ * @param request - Búsqueda
+ * @param excludePlaceIds - Lugares ya recibidos (páginas anteriores)
+ *
+ * @example
+ * buildPlaceSearchParams({ query: "Calle Mayor", filters: { countryCode: "es", ... },
+ *   locale: "es", bounds, bounded: false }, [])
+ * → q=Calle Mayor&limit=5&accept-language=es&countrycodes=es&viewbox=...
+ */
+export const buildPlaceSearchParams = (
+  request: PlaceSearchRequest,
+  excludePlaceIds: number[]
+): URLSearchParams => {
+  const { query, filters, bounds } = request;
+  const category = filters.category ? PLACE_CATEGORIES[filters.category] : null;
+
+  const params = new URLSearchParams({
+    format: "json",
+    q: [category?.phrase, query.trim()].filter(Boolean).join(" "),
+    limit: String(SEARCH_PAGE_SIZE),
+    "accept-language": filters.language ?? request.locale,
+  });
+
+  if (filters.countryCode) {
+    params.set("countrycodes", filters.countryCode);
+  }
+
+  // viewbox = izquierda,arriba,derecha,abajo
+  if (bounds) {
+    params.set(
+      "viewbox",
+      [bounds.west, bounds.north, bounds.east, bounds.south].join(",")
+    );
+    if (request.bounded) params.set("bounded", "1");
+  }
+
+  if (excludePlaceIds.length > 0) {
+    params.set("exclude_place_ids", excludePlaceIds.join(","));
+  }
+
+  for (const [key, value] of Object.entries(getNominatimIdentityParams())) {
+    params.set(key, value);
+  }
+
+  return params;
+};
+
+/**
+ * fetchPlaceSearchPage: Pide a Nominatim una página de resultados
+ *
+ * Si hay tipo de lugar elegido, descarta lo que no lo sea (Nominatim
+ * puede entender la palabra como parte del nombre).
+ *
+ * @param request - Búsqueda
+ * @param excludePlaceIds - Lugares ya recibidos (vacío = primera página)
+ * @param signal - Para cancelar la petición
+ */
+export const fetchPlaceSearchPage = async (
+  request: PlaceSearchRequest,
+  excludePlaceIds: number[],
+  signal?: AbortSignal
+): Promise<PlaceSearchPage> => {
+  const params = buildPlaceSearchParams(request, excludePlaceIds);
+  const response = await httpClient.fetch(
+    `${DEFAULT_NOMINATIM_URL}/search?${params.toString()}`,
+    { signal }
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Error en la petición: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const data: any[] = await response.json();
+  const { category } = request.filters;
+
+  return {
+    places: data
+      .filter((item) => !category || isPlaceOfCategory(item, category))
+      .map(toPlace),
+    placeIds: data.map((item) => item.place_id),
+    hasMore: data.length >= SEARCH_PAGE_SIZE,
+  };
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+const toPlace = (item: any): Place => {
+  return {
+    id: item.place_id,
+    name: item.display_name,
+    addresstype: item.addresstype,
+    coordinates: [parseFloat(item.lat), parseFloat(item.lon)],
+  } as Place;
+};
+
+const isPlaceOfCategory = (item: any, category: PlaceCategory): boolean => {
+  return PLACE_CATEGORIES[category].tags.includes(`${item.class}=${item.type}`);
+};
+
+const isOneOf = (value: unknown, options: readonly string[]): boolean => {
+  return typeof value === "string" && options.includes(value);
+};
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
@@ -0,0 +1,426 @@
+/**
+ * GRAPHHOPPER PROVIDER
+ *
+ * Adaptador para GraphHopper. Funciona con la API en la nube
+ * (https://graphhopper.com/api/1, necesita API key) y con un
+ * servidor propio (por ejemplo http://localhost:8989).
+ *
+ * Documentación: https://docs.graphhopper.com/#tag/Routing-API
+ */
+
+import type {
+  RoadClass,
+  Route,
+  RouteLeg,
+  RouteManeuver,
+  RouteSegment,
+  RouteMatrix,
+  RoutingOptions,
+  RoutingProvider,
+  TravelMode,
+  Waypoint,
+} from "../../interfaces/routing.interfaces";
+import {
+  getAvoidedClasses,
+  lonLatToLatLng,
+  trimTrailingSlash,
+} from "./provider.utils";
+import { fromGraphHopperError, fromHttpStatus } from "./provider.errors";
+import { httpClient } from "../http-client";
+import { mergeContinueSegments } from "../instructions";
+import { locale } from "@/modules/i18n/i18n";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Perfiles de GraphHopper para cada modo de transporte
+ */
+const GRAPHHOPPER_PROFILES: Record<TravelMode, string> = {
+  driving: "car",
+  cycling: "bike",
+  walking: "foot",
+};
+
+/**
+ * Condiciones del "custom model" de GraphHopper para evitar cada tipo de vía
+ * Documentación: https://docs.graphhopper.com/#section/Custom-Model
+ */
+const GRAPHHOPPER_AVOID_CONDITIONS: Record<RoadClass, string> = {
+  motorway: "road_class == MOTORWAY",
+  toll: "toll != NO",
+  ferry: "road_environment == FERRY",
+};
+
+/**
+ * Valor de "sign" con el que GraphHopper marca la llegada a una parada
+ * intermedia (VIA_REACHED). Lo usamos para partir la ruta en tramos.
+ */
+const SIGN_VIA_REACHED = 5;
+
+/**
+ * Maniobra de cada valor de "sign" de GraphHopper
+ * https://github.com/graphhopper/graphhopper/blob/master/web-api/src/main/java/com/graphhopper/util/Instruction.java
+ */
+const GRAPHHOPPER_SIGNS: Record<number, Pick<RouteManeuver, "type" | "modifier">> = {
+  [-98]: { type: "turn", modifier: "uturn" },
+  [-8]: { type: "turn", modifier: "uturn" },
+  [-7]: { type: "fork", modifier: "slight left" },
+  [-6]: { type: "exit-roundabout" },
+  [-3]: { type: "turn", modifier: "sharp left" },
+  [-2]: { type: "turn", modifier: "left" },
+  [-1]: { type: "turn", modifier: "slight left" },
+  0: { type: "continue", modifier: "straight" },
+  1: { type: "turn", modifier: "slight right" },
+  2: { type: "turn", modifier: "right" },
+  3: { type: "turn", modifier: "sharp right" },
+  4: { type: "arrive" },
+  [SIGN_VIA_REACHED]: { type: "via" },
+  6: { type: "roundabout" },
+  7: { type: "fork", modifier: "slight right" },
+  8: { type: "turn", modifier: "uturn" },
+};
+
+// ============================================
+// INTERFACES INTERNAS (respuesta de GraphHopper)
+// ============================================
+
+interface GraphHopperInstruction {
+  /** Distancia en metros */
+  distance: number;
+  /** Duración en MILISEGUNDOS (¡ojo! no segundos) */
+  time: number;
+  /** Texto de la instrucción ya traducido por GraphHopper */
+  text: string;
+  street_name: string;
+  /** Índices [desde, hasta] dentro de points.coordinates */
+  interval: [number, number];
+  sign: number;
+  /** Número de salida (solo en las rotondas) */
+  exit_number?: number;
+}
+
+interface GraphHopperPath {
+  /** Distancia en metros */
+  distance: number;
+  /** Duración en milisegundos */
+  time: number;
+  points: {
+    /** [longitud, latitud] */
+    coordinates: [number, number][];
+  };
+  instructions: GraphHopperInstruction[];
+  /** Detalles por tramo: [desde, hasta, valor] */
+  details?: {
+    toll?: Array<[number, number, string]>;
+    road_class?: Array<[number, number, string]>;
+    road_environment?: Array<[number, number, string]>;
+  };
+}
+
+interface GraphHopperResponse {
+  paths?: GraphHopperPath[];
+  message?: string;
+  /** Detalles del error: details es la excepción (ej: ...PointNotFoundException) */
+  hints?: Array<{ message?: string; details?: string; point_index?: number }>;
+}
+
+interface GraphHopperMatrixResponse {
+  /** Duraciones en SEGUNDOS (null si no hay ruta) */
+  times?: Array<Array<number | null>>;
+  /** Distancias en metros (null si no hay ruta) */
+  distances?: Array<Array<number | null>>;
+  message?: string;
+  hints?: Array<{ message?: string; details?: string; point_index?: number }>;
+}
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class GraphHopperProvider implements RoutingProvider {
+  readonly id = "graphhopper" as const;
+  readonly baseUrl: string;
+  readonly multiProfile = true;
+  private readonly apiKey?: string;
+
+  /**
+   * @param baseUrl - URL base de GraphHopper (ej: https://graphhopper.com/api/1)
+   * @param apiKey - API key (obligatoria en la nube, opcional en servidor propio)
+   */
+  constructor(baseUrl: string, apiKey?: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * getRoutes: Pide a GraphHopper la ruta principal y sus alternativas
+   */
+  async getRoutes(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<Route[]> {
+    const response = await httpClient.fetch(this.buildUrl("route"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(this.buildBody(waypoints, options, maxAlternatives)),
+      signal,
+    });
+
+    // GraphHopper responde 400 con { message } cuando no encuentra ruta
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    const data: GraphHopperResponse = await response.json();
+
+    if (!data.paths || data.paths.length === 0) {
+      throw fromGraphHopperError(data.message, data.hints);
+    }
+
+    return data.paths.map((path, index) =>
+      this.transformRoute(path, waypoints, options.travelMode, index)
+    );
+  }
+
+  /**
+   * getMatrix: Pide al servicio /matrix las duraciones y distancias
+   * entre todos los puntos
+   *
+   * La Matrix API no admite "custom model": las vías a evitar no
+   * cuentan en la matriz (sí en la ruta que se calcula después)
+   */
+  async getMatrix(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<RouteMatrix> {
+    const response = await httpClient.fetch(this.buildUrl("matrix"), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        points: waypoints.map((wp) => [wp.coordinates[1], wp.coordinates[0]]),
+        profile: GRAPHHOPPER_PROFILES[options.travelMode],
+        out_arrays: ["times", "distances"],
+        // Sin ruta entre dos puntos: null en vez de fallar entera
+        fail_fast: false,
+      }),
+      signal,
+    });
+
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    const data: GraphHopperMatrixResponse = await response.json();
+
+    if (!data.times || !data.distances) {
+      throw fromGraphHopperError(data.message, data.hints);
+    }
+
+    const toMatrix = (rows: Array<Array<number | null>>) =>
+      rows.map((row) => row.map((value) => value ?? Infinity));
+
+    return {
+      durations: toMatrix(data.times),
+      distances: toMatrix(data.distances),
+    };
+  }
+
+  /**
+   * buildUrl: URL de un servicio, con la API key si la hay
+   *
+   * @param service - Servicio (ej: "route", "matrix")
+   */
+  private buildUrl(service: string): string {
+    return this.apiKey
+      ? `${this.baseUrl}/${service}?key=${encodeURIComponent(this.apiKey)}`
+      : `${this.baseUrl}/${service}`;
+  }
+
+  /**
+   * buildBody: Construye el cuerpo JSON de la petición POST
+   *
+   * Con alternativas GraphHopper usa el algoritmo "alternative_route",
+   * que solo admite 2 puntos. Con paradas intermedias lo desactivamos.
+   *
+   * Para evitar tipos de vía usamos un "custom model" que pone a 0 la
+   * prioridad de esas vías (necesita desactivar Contraction Hierarchies).
+   */
+  private buildBody(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number
+  ): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      // ¡Importante! GraphHopper también usa [longitud, latitud]
+      points: waypoints.map((wp) => [wp.coordinates[1], wp.coordinates[0]]),
+      profile: GRAPHHOPPER_PROFILES[options.travelMode],
+      points_encoded: false, // Queremos GeoJSON, no polyline codificada
+      instructions: true,
+      locale: locale.value,
+      // Para saber por qué tipos de vía pasa cada instrucción
+      details: ["toll", "road_class", "road_environment"],
+    };
+
+    const avoided = getAvoidedClasses(options);
+    if (avoided.length > 0) {
+      body["ch.disable"] = true;
+      body.custom_model = {
+        priority: avoided.map((roadClass) => ({
+          if: GRAPHHOPPER_AVOID_CONDITIONS[roadClass],
+          multiply_by: "0",
+        })),
+      };
+    }
+
+    if (maxAlternatives > 0 && waypoints.length === 2) {
+      body.algorithm = "alternative_route";
+      body["alternative_route.max_paths"] = maxAlternatives + 1;
+    }
+
+    return body;
+  }
+
+  /**
+   * transformRoute: Transforma un "path" de GraphHopper a nuestro formato
+   *
+   * Las instrucciones no traen geometría propia: la recortamos de la
+   * geometría completa usando su "interval".
+   */
+  private transformRoute(
+    path: GraphHopperPath,
+    waypoints: Waypoint[],
+    travelMode: TravelMode,
+    alternativeIndex: number
+  ): Route {
+    const geometry = lonLatToLatLng(path.points.coordinates);
+
+    // El texto ya viene traducido por GraphHopper; la maniobra
+    // estructurada la sacamos de "sign"
+    const segments: RouteSegment[] = mergeContinueSegments(
+      path.instructions.map((instruction, index) => {
+        const classes = this.getIntervalClasses(path, instruction.interval);
+
+        return {
+          distance: instruction.distance,
+          duration: instruction.time / 1000, // ms -> s
+          instruction: instruction.text,
+          maneuver: this.buildManeuver(instruction, index, classes),
+          coordinates: geometry.slice(
+            instruction.interval[0],
+            instruction.interval[1] + 1
+          ),
+          index,
+          classes,
+        };
+      })
+    );
+
+    const duration = path.time / 1000;
+    const legs = this.buildLegs(path.instructions);
+
+    return {
+      id: crypto.randomUUID(),
+      distance: path.distance,
+      duration,
+      segments,
+      legs,
+      geometry,
+      travelMode,
+      calculatedAt: new Date(),
+      waypoints,
+      osrmDuration: duration,
+      osrmSegmentDurations: segments.map((segment) => segment.duration),
+      osrmLegDurations: legs.map((leg) => leg.duration),
+      alternativeIndex,
+      isSelected: alternativeIndex === 0,
+    };
+  }
+
+  /**
+   * buildManeuver: Convierte una instrucción de GraphHopper en maniobra
+   *
+   * @param instruction - Instrucción de GraphHopper
+   * @param index - Posición de la instrucción (la primera es la salida)
+   * @param classes - Tipos de vía del tramo (para detectar los ferris)
+   */
+  private buildManeuver(
+    instruction: GraphHopperInstruction,
+    index: number,
+    classes: RoadClass[]
+  ): RouteManeuver {
+    let { type, modifier } = GRAPHHOPPER_SIGNS[instruction.sign] ?? {
+      type: "continue",
+    };
+
+    if (index === 0) {
+      type = "depart";
+      modifier = undefined;
+    } else if (type === "continue" && classes.includes("ferry")) {
+      type = "ferry";
+    }
+
+    return {
+      type,
+      modifier,
+      exit: instruction.exit_number,
+      streetName: instruction.street_name || undefined,
+    };
+  }
+
+  /**
+   * buildLegs: Agrupa las instrucciones en tramos entre waypoints
+   *
+   * GraphHopper no devuelve resumen por tramo, así que sumamos las
+   * instrucciones hasta cada "VIA_REACHED".
+   */
+  private buildLegs(instructions: GraphHopperInstruction[]): RouteLeg[] {
+    const legs: RouteLeg[] = [{ distance: 0, duration: 0, index: 0 }];
+
+    instructions.forEach((instruction) => {
+      const leg = legs[legs.length - 1]!;
+      leg.distance += instruction.distance;
+      leg.duration += instruction.time / 1000;
+
+      if (instruction.sign === SIGN_VIA_REACHED) {
+        legs.push({ distance: 0, duration: 0, index: legs.length });
+      }
+    });
+
+    return legs;
+  }
+
+  /**
+   * getIntervalClasses: Tipos de vía que pisa un tramo de la geometría
+   *
+   * @param path - Path con sus "details"
+   * @param interval - Índices [desde, hasta] de la instrucción
+   * @returns Ejemplo: ['motorway', 'toll']
+   */
+  private getIntervalClasses(
+    path: GraphHopperPath,
+    [from, to]: [number, number]
+  ): RoadClass[] {
+    const overlaps = (detail: [number, number, string]) =>
+      detail[0] < to && detail[1] > from;
+
+    const classes: RoadClass[] = [];
+    const details = path.details || {};
+
+    if (details.road_class?.some((d) => overlaps(d) && d[2] === "motorway")) {
+      classes.push("motorway");
+    }
+    if (details.toll?.some((d) => overlaps(d) && d[2] !== "no")) {
+      classes.push("toll");
+    }
+    if (details.road_environment?.some((d) => overlaps(d) && d[2] === "ferry")) {
+      classes.push("ferry");
+    }
+
+    return classes;
+  }
+}
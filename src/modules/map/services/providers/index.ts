@@ -0,0 +1,36 @@
+/**
+ * FÁBRICA DE PROVEEDORES DE ROUTING
+ *
+ * Punto único para crear el adaptador adecuado a partir de una
+ * configuración. Si añades un motor nuevo, regístralo aquí.
+ */
+
+import type {
+  RoutingProvider,
+  RoutingProviderConfig,
+} from "../../interfaces/routing.interfaces";
+import { OSRMProvider } from "./osrm.provider";
+import { GraphHopperProvider } from "./graphhopper.provider";
+import { ValhallaProvider } from "./valhalla.provider";
+
+/**
+ * createRoutingProvider: Crea el proveedor indicado en la configuración
+ *
+ * @param config - Motor, URL base y API key opcional
+ * @returns Instancia del adaptador
+ */
+export const createRoutingProvider = (
+  config: RoutingProviderConfig
+): RoutingProvider => {
+  switch (config.id) {
+    case "graphhopper":
+      return new GraphHopperProvider(config.baseUrl, config.apiKey);
+    case "valhalla":
+      return new ValhallaProvider(config.baseUrl);
+    case "osrm":
+    default:
+      return new OSRMProvider(config.baseUrl);
+  }
+};
+
+export { OSRMProvider, GraphHopperProvider, ValhallaProvider };
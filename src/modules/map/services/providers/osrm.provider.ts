@@ -0,0 +1,482 @@
+/**
+ * OSRM PROVIDER
+ *
+ * Adaptador para OSRM (Open Source Routing Machine).
+ * Sirve tanto para el servidor público como para uno autoalojado
+ * (por ejemplo, `osrm-routed` corriendo en http://localhost:5000).
+ *
+ * Documentación: http://project-osrm.org/docs/v5.24.0/api/
+ */
+
+import type {
+  ManeuverModifier,
+  ManeuverType,
+  RouteManeuver,
+  Route,
+  RouteLeg,
+  RouteMatrix,
+  RouteSegment,
+  RoutingOptions,
+  RoutingProvider,
+  TravelMode,
+  Waypoint,
+} from "../../interfaces/routing.interfaces";
+import {
+  getAvoidedClasses,
+  lonLatToLatLng,
+  toRoadClasses,
+  trimTrailingSlash,
+} from "./provider.utils";
+import { buildInstruction, mergeContinueSegments } from "../instructions";
+import { fromHttpStatus, fromOsrmCode } from "./provider.errors";
+import { httpClient } from "../http-client";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Tipos de maniobra de OSRM traducidos a los nuestros
+ * (los que no aparecen se tratan como "continue")
+ */
+const OSRM_MANEUVER_TYPES: Record<string, ManeuverType> = {
+  depart: "depart",
+  arrive: "arrive",
+  turn: "turn",
+  continue: "continue",
+  "new name": "continue",
+  merge: "merge",
+  fork: "fork",
+  "end of road": "end-of-road",
+  "on ramp": "on-ramp",
+  "off ramp": "off-ramp",
+  roundabout: "roundabout",
+  rotary: "roundabout",
+  "roundabout turn": "turn",
+  "exit roundabout": "exit-roundabout",
+  "exit rotary": "exit-roundabout",
+};
+
+/**
+ * Perfiles de OSRM para cada modo de transporte
+ *
+ * NOTA: El servidor público solo tiene cargado el perfil de coche,
+ * así que ignora este valor y siempre devuelve rutas en coche.
+ */
+const OSRM_PROFILES: Record<TravelMode, string> = {
+  driving: "car",
+  cycling: "bike",
+  walking: "foot",
+};
+
+// ============================================
+// INTERFACES INTERNAS (respuesta de OSRM)
+// ============================================
+
+/**
+ * Estas interfaces definen cómo OSRM nos devuelve los datos.
+ * Son diferentes a nuestras interfaces porque cada API tiene su formato.
+ */
+
+interface OSRMCoordinate {
+  /** [longitud, latitud] - ¡Cuidado! OSRM usa lon,lat (al revés de Leaflet) */
+  0: number;
+  1: number;
+}
+
+interface OSRMStep {
+  distance: number;
+  duration: number;
+  geometry: {
+    coordinates: OSRMCoordinate[];
+  };
+  name: string;
+  /** Referencia de la vía, ej: "A-6" */
+  ref?: string;
+  /** Destinos de los carteles, ej: "A-6: Madrid, Burgos" */
+  destinations?: string;
+  /** Número de salida de una autovía */
+  exits?: string;
+  /** Nombre de la rotonda (solo rotondas grandes) */
+  rotary_name?: string;
+  /** Modo del step; "ferry" si se cruza en barco */
+  mode?: string;
+  maneuver: {
+    type: string;
+    /** Dirección: "left", "slight right", "uturn"... */
+    modifier?: ManeuverModifier;
+    /** Número de salida en las rotondas */
+    exit?: number;
+    instruction?: string;
+  };
+  /** Cruces del step; "classes" indica el tipo de vía (toll, motorway, ferry...) */
+  intersections?: Array<{
+    classes?: string[];
+  }>;
+}
+
+interface OSRMLeg {
+  distance: number;
+  duration: number;
+  steps: OSRMStep[];
+}
+
+interface OSRMRoute {
+  distance: number;
+  duration: number;
+  legs: OSRMLeg[];
+  geometry: {
+    coordinates: OSRMCoordinate[];
+  };
+}
+
+interface OSRMResponse {
+  code: string;
+  message?: string;
+  routes: OSRMRoute[];
+  waypoints: Array<{
+    location: OSRMCoordinate;
+    name: string;
+  }>;
+}
+
+interface OSRMTableResponse {
+  code: string;
+  message?: string;
+  /** null si no hay ruta entre el par de puntos */
+  durations?: Array<Array<number | null>>;
+  distances?: Array<Array<number | null>>;
+}
+
+interface OSRMTripResponse {
+  code: string;
+  message?: string;
+  /** Mismo orden que la petición; waypoint_index es la posición en el viaje */
+  waypoints?: Array<{
+    waypoint_index: number;
+    trips_index: number;
+  }>;
+}
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class OSRMProvider implements RoutingProvider {
+  readonly id = "osrm" as const;
+  readonly baseUrl: string;
+  readonly multiProfile = false;
+
+  /**
+   * @param baseUrl - URL base del servidor OSRM (ej: https://router.project-osrm.org)
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+  }
+
+  /**
+   * getRoutes: Pide a OSRM la ruta principal y sus alternativas
+   */
+  async getRoutes(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<Route[]> {
+    // 1. Construir la URL de la API con soporte para alternativas
+    const url = this.buildUrl(waypoints, options, maxAlternatives);
+
+    // 2. Hacer la petición HTTP
+    const response = await httpClient.fetch(url, { signal });
+
+    // 3. OSRM devuelve 400 con un JSON explicativo si no hay ruta,
+    //    así que solo tratamos como error HTTP lo que no sea JSON
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    // 4. Parsear la respuesta JSON
+    const data: OSRMResponse = await response.json();
+
+    // 5. Verificar que OSRM encontró al menos una ruta
+    //    (NoSegment, TooBig... se traducen a un error concreto)
+    if (data.code !== "Ok" || !data.routes || data.routes.length === 0) {
+      throw fromOsrmCode(data.code === "Ok" ? "NoRoute" : data.code, data.message);
+    }
+
+    // 6. Transformar TODAS las rutas de OSRM a nuestro formato
+    return data.routes.map((osrmRoute, index) =>
+      this.transformRoute(osrmRoute, waypoints, options.travelMode, index)
+    );
+  }
+
+  /**
+   * getMatrix: Pide al servicio /table las duraciones y distancias entre puntos
+   */
+  async getMatrix(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<RouteMatrix> {
+    const params = new URLSearchParams({ annotations: "duration,distance" });
+    this.setExclude(params, options);
+
+    const data = await this.fetchService<OSRMTableResponse>(
+      "table",
+      waypoints,
+      options,
+      params,
+      signal
+    );
+
+    if (!data.durations || !data.distances) {
+      throw fromOsrmCode("NoTable", data.message);
+    }
+
+    // OSRM devuelve null en los pares sin ruta
+    const toMatrix = (rows: Array<Array<number | null>>) =>
+      rows.map((row) => row.map((value) => value ?? Infinity));
+
+    return {
+      durations: toMatrix(data.durations),
+      distances: toMatrix(data.distances),
+    };
+  }
+
+  /**
+   * getTripOrder: Pide al servicio /trip el mejor orden de visita
+   *
+   * Sin ida y vuelta fijamos origen (first) y destino (last).
+   * Con ida y vuelta solo fijamos el origen.
+   */
+  async getTripOrder(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    roundTrip: boolean,
+    signal?: AbortSignal
+  ): Promise<number[]> {
+    const params = new URLSearchParams({
+      source: "first",
+      roundtrip: roundTrip.toString(),
+      overview: "false",
+    });
+    if (!roundTrip) {
+      params.set("destination", "last");
+    }
+    this.setExclude(params, options);
+
+    const data = await this.fetchService<OSRMTripResponse>(
+      "trip",
+      waypoints,
+      options,
+      params,
+      signal
+    );
+
+    if (!data.waypoints) {
+      throw fromOsrmCode("NoTrips", data.message);
+    }
+
+    // Ordenar los índices de entrada por su posición en el viaje
+    return data.waypoints
+      .map((wp, index) => ({ index, position: wp.waypoint_index }))
+      .sort((a, b) => a.position - b.position)
+      .map((wp) => wp.index);
+  }
+
+  /**
+   * fetchService: Llama a un servicio de OSRM distinto de /route
+   *
+   * @param service - "table" o "trip"
+   * @returns Respuesta JSON con code "Ok"
+   * @throws RoutingError si la petición falla o OSRM responde con error
+   */
+  private async fetchService<T extends { code: string; message?: string }>(
+    service: string,
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    params: URLSearchParams,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const profile = OSRM_PROFILES[options.travelMode];
+    const url = `${this.baseUrl}/${service}/v1/${profile}/${this.buildCoordinates(
+      waypoints
+    )}?${params.toString()}`;
+
+    const response = await httpClient.fetch(url, { signal });
+
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    const data: T = await response.json();
+
+    if (data.code !== "Ok") {
+      throw fromOsrmCode(data.code, data.message);
+    }
+
+    return data;
+  }
+
+  /**
+   * buildCoordinates: Convierte los waypoints a "lon,lat;lon,lat;..."
+   *
+   * ¡Importante! OSRM usa [longitud, latitud], pero nosotros usamos [lat, lon]
+   */
+  private buildCoordinates(waypoints: Waypoint[]): string {
+    return waypoints
+      .map((wp) => `${wp.coordinates[1]},${wp.coordinates[0]}`) // [lon,lat]
+      .join(";");
+  }
+
+  /**
+   * setExclude: Añade exclude=motorway,toll,ferry si hay vías a evitar
+   * (el perfil del servidor tiene que declararlos como "excludable")
+   */
+  private setExclude(params: URLSearchParams, options: RoutingOptions) {
+    const excluded = getAvoidedClasses(options);
+    if (excluded.length > 0) {
+      params.set("exclude", excluded.join(","));
+    }
+  }
+
+  /**
+   * buildUrl: Construye la URL para la API de OSRM
+   *
+   * @param waypoints - Array de waypoints
+   * @param options - Opciones de la ruta (perfil y tipos de vía a evitar)
+   * @param alternatives - Número de rutas alternativas a solicitar
+   * @returns URL completa para hacer la petición
+   *
+   * Formato de la URL:
+   * https://router.project-osrm.org/route/v1/car/lon1,lat1;lon2,lat2?...
+   */
+  private buildUrl(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    alternatives: number
+  ): string {
+    // Convertir waypoints a formato "lon,lat;lon,lat;..."
+    const coordinates = this.buildCoordinates(waypoints);
+
+    // Parámetros de la API
+    const params = new URLSearchParams({
+      overview: "full", // Queremos toda la geometría de la ruta
+      geometries: "geojson", // Formato GeoJSON (más fácil de usar)
+      steps: "true", // Queremos los pasos detallados
+      annotations: "false", // No necesitamos anotaciones extra
+      alternatives: alternatives.toString(), // Pedir rutas alternativas (true o número)
+      continue_straight: "default", // Permitir giros en U si es necesario
+    });
+
+    // Tipos de vía a evitar: exclude=motorway,toll,ferry
+    this.setExclude(params, options);
+
+    const profile = OSRM_PROFILES[options.travelMode];
+    return `${this.baseUrl}/route/v1/${profile}/${coordinates}?${params.toString()}`;
+  }
+
+  /**
+   * transformRoute: Transforma la respuesta de OSRM a nuestro formato
+   *
+   * @param osrmRoute - Ruta en formato OSRM
+   * @param waypoints - Waypoints originales
+   * @param travelMode - Perfil con el que se pidió la ruta
+   * @param alternativeIndex - Índice de la alternativa (0 = principal, 1+ = alternativas)
+   * @returns Ruta en nuestro formato, con los tiempos tal cual los da OSRM
+   */
+  private transformRoute(
+    osrmRoute: OSRMRoute,
+    waypoints: Waypoint[],
+    travelMode: TravelMode,
+    alternativeIndex: number
+  ): Route {
+    // Extraer todos los segmentos de todas las "legs" (tramos entre waypoints)
+    const segments: RouteSegment[] = [];
+    let segmentIndex = 0;
+
+    // OSRM organiza la ruta en "legs" (tramos entre cada par de waypoints)
+    // Nosotros queremos todos los steps de todos los legs en un solo array
+    osrmRoute.legs.forEach((leg, legIndex) => {
+      const isLastLeg = legIndex === osrmRoute.legs.length - 1;
+
+      leg.steps.forEach((step) => {
+        const maneuver = this.buildManeuver(step, isLastLeg);
+        segments.push({
+          distance: step.distance,
+          duration: step.duration,
+          instruction: buildInstruction(maneuver),
+          maneuver,
+          coordinates: lonLatToLatLng(step.geometry.coordinates),
+          index: segmentIndex++,
+          classes: toRoadClasses(
+            (step.intersections || []).flatMap((i) => i.classes || [])
+          ),
+        });
+      });
+    });
+
+    const legs: RouteLeg[] = osrmRoute.legs.map((leg, index) => ({
+      distance: leg.distance,
+      duration: leg.duration,
+      index,
+    }));
+
+    // Juntar los "continúa" diminutos antes de guardar los tiempos
+    const steps = mergeContinueSegments(segments);
+
+    return {
+      id: crypto.randomUUID(),
+      distance: osrmRoute.distance,
+      duration: osrmRoute.duration,
+      segments: steps,
+      legs,
+      // Esta es la línea completa que vamos a dibujar en el mapa
+      geometry: lonLatToLatLng(osrmRoute.geometry.coordinates),
+      travelMode,
+      calculatedAt: new Date(),
+      waypoints,
+      osrmDuration: osrmRoute.duration, // Guardar tiempo original del motor
+      osrmSegmentDurations: steps.map((segment) => segment.duration),
+      osrmLegDurations: legs.map((leg) => leg.duration),
+      alternativeIndex,
+      isSelected: alternativeIndex === 0, // Por defecto, solo la principal está seleccionada
+    };
+  }
+
+  /**
+   * buildManeuver: Convierte un step de OSRM en una maniobra estructurada
+   *
+   * @param step - Step de OSRM
+   * @param isLastLeg - ¿Es el último tramo? (su llegada es el destino)
+   * @returns Maniobra con tipo, dirección, salida, calle y destinos
+   *
+   * Ejemplo: { type: "roundabout", modifier: "right", exit: 2 }
+   * → { type: "roundabout", modifier: "right", exit: 2, streetName: "Calle Mayor" }
+   */
+  private buildManeuver(step: OSRMStep, isLastLeg: boolean): RouteManeuver {
+    const { type: osrmType, modifier, exit } = step.maneuver;
+
+    let type = OSRM_MANEUVER_TYPES[osrmType] ?? "continue";
+    if (type === "arrive" && !isLastLeg) type = "via";
+    if (step.mode === "ferry" && type !== "arrive" && type !== "via") {
+      type = "ferry";
+    }
+
+    // En las salidas de autovía el número viene en "exits" (ej: "12;12A")
+    const rampExit =
+      type === "off-ramp" && step.exits
+        ? Number.parseInt(step.exits, 10)
+        : undefined;
+
+    return {
+      type,
+      modifier,
+      exit: exit ?? (Number.isNaN(rampExit) ? undefined : rampExit),
+      streetName: step.name || step.rotary_name || undefined,
+      ref: step.ref || undefined,
+      // "A-6: Madrid, Burgos" → nos quedamos con los destinos
+      destinations: step.destinations?.split(":").pop()?.trim() || undefined,
+    };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * ERRORES DE LOS PROVEEDORES DE ROUTING
+ *
+ * Cada motor explica sus fallos a su manera:
+ * - OSRM: un "code" de texto (NoSegment, TooBig, NoRoute...)
+ * - GraphHopper: un mensaje y "hints" con el nombre de la excepción
+ * - Valhalla: un "error_code" numérico
+ *
+ * Aquí los traducimos a nuestros RoutingError, con un mensaje pensado
+ * para el usuario (en el idioma activo, ver "routingErrors" en los
+ * catálogos) y la acción que le sugerimos. El código y el mensaje
+ * originales del motor se conservan en details para depurar.
+ */
+
+import type {
+  RoutingError,
+  RoutingErrorCode,
+} from "../../interfaces/routing.interfaces";
+import { createRoutingError } from "./provider.utils";
+import { t } from "@/modules/i18n/i18n";
+
+// ============================================
+// TABLAS DE CÓDIGOS DE CADA MOTOR
+// ============================================
+
+/**
+ * Códigos de error de OSRM
+ * https://project-osrm.org/docs/v5.24.0/api/#responses
+ */
+const OSRM_ERROR_CODES: Record<string, RoutingErrorCode> = {
+  NoSegment: "POINT_TOO_FAR",
+  NoRoute: "NO_ROUTE",
+  NoTable: "NO_ROUTE",
+  NoTrips: "NO_ROUTE",
+  NoMatch: "NO_ROUTE",
+  TooBig: "TOO_MANY_WAYPOINTS",
+  InvalidOptions: "UNSUPPORTED_OPTIONS",
+  InvalidValue: "INVALID_WAYPOINTS",
+  InvalidQuery: "INVALID_WAYPOINTS",
+};
+
+/**
+ * Excepciones de GraphHopper (vienen en hints[].details)
+ */
+const GRAPHHOPPER_EXCEPTIONS: Record<string, RoutingErrorCode> = {
+  PointNotFoundException: "POINT_TOO_FAR",
+  PointOutOfBoundsException: "OUT_OF_COVERAGE",
+  ConnectionNotFoundException: "NO_ROUTE",
+  MaximumNodesExceededException: "ROUTE_TOO_LONG",
+};
+
+/**
+ * Códigos de error de Valhalla
+ * https://valhalla.github.io/valhalla/api/turn-by-turn/api-reference/#http-status-codes-and-conditions
+ */
+const VALHALLA_ERROR_CODES: Record<number, RoutingErrorCode> = {
+  120: "INVALID_WAYPOINTS", // Pocas ubicaciones
+  130: "INVALID_WAYPOINTS", // Ubicación mal formada
+  150: "TOO_MANY_WAYPOINTS",
+  154: "ROUTE_TOO_LONG",
+  170: "NO_ROUTE", // Regiones sin conexión
+  171: "POINT_TOO_FAR", // Ninguna vía cerca del punto
+  442: "NO_ROUTE",
+};
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * createExplainedError: Crea un RoutingError con el mensaje para el usuario
+ *
+ * @param code - Código del error
+ * @param details - Detalles del motor (código y mensaje originales)
+ * @param waypointIndex - Posición del waypoint culpable (si se sabe)
+ */
+export const createExplainedError = (
+  code: RoutingErrorCode,
+  details?: any,
+  waypointIndex?: number
+): RoutingError => {
+  const error = createRoutingError(code, t(`routingErrors.${code}`), details);
+  return waypointIndex !== undefined ? { ...error, waypointIndex } : error;
+};
+
+/**
+ * fromHttpStatus: Error para una respuesta HTTP que no trae JSON del motor
+ *
+ * @param response - Respuesta con status de error
+ */
+export const fromHttpStatus = (response: Response): RoutingError => {
+  const details = { status: response.status, statusText: response.statusText };
+
+  if (response.status === 401 || response.status === 403) {
+    return createRoutingError(
+      "API_ERROR",
+      t("errors.apiKeyRejected"),
+      details
+    );
+  }
+  if (response.status === 413 || response.status === 414) {
+    return createExplainedError("TOO_MANY_WAYPOINTS", details);
+  }
+  if (response.status === 429) {
+    return createExplainedError("RATE_LIMITED", details);
+  }
+  if (response.status >= 500) {
+    return createExplainedError("NETWORK_ERROR", details);
+  }
+  return createExplainedError("API_ERROR", details);
+};
+
+/**
+ * fromOsrmCode: Traduce un código de error de OSRM
+ *
+ * @param code - "code" de la respuesta (ej: "NoSegment")
+ * @param message - "message" de la respuesta (ej: "Could not find a matching
+ *                  segment for coordinate 1")
+ */
+export const fromOsrmCode = (code: string, message?: string): RoutingError => {
+  const details = { providerCode: code, providerMessage: message };
+  const pointMatch = message?.match(/coordinate (\d+)/);
+
+  return createExplainedError(
+    OSRM_ERROR_CODES[code] ?? "API_ERROR",
+    details,
+    pointMatch ? Number(pointMatch[1]) : undefined
+  );
+};
+
+/**
+ * fromGraphHopperError: Traduce un error de GraphHopper
+ *
+ * @param message - "message" de la respuesta
+ * @param hints - "hints" de la respuesta (details = clase Java de la excepción)
+ */
+export const fromGraphHopperError = (
+  message: string | undefined,
+  hints: Array<{ details?: string; point_index?: number }> = []
+): RoutingError => {
+  const details = { providerMessage: message, hints };
+
+  for (const hint of hints) {
+    const exception = hint.details?.split(".").pop() ?? "";
+    const code = GRAPHHOPPER_EXCEPTIONS[exception];
+    if (code) {
+      return createExplainedError(code, details, hint.point_index);
+    }
+  }
+
+  // Sin hints reconocibles: miramos el propio mensaje
+  if (message && /too many points/i.test(message)) {
+    return createExplainedError("TOO_MANY_WAYPOINTS", details);
+  }
+  const pointMatch = message?.match(/cannot find point (\d+)/i);
+  if (pointMatch) {
+    return createExplainedError("POINT_TOO_FAR", details, Number(pointMatch[1]));
+  }
+
+  // GraphHopper responde 400 sin más detalle cuando no hay camino
+  return createExplainedError("NO_ROUTE", details);
+};
+
+/**
+ * fromValhallaError: Traduce un error de Valhalla
+ *
+ * @param code - "error_code" de la respuesta (ej: 171)
+ * @param message - "error" de la respuesta
+ */
+export const fromValhallaError = (
+  code: number | undefined,
+  message?: string
+): RoutingError => {
+  const details = { providerCode: code, providerMessage: message };
+
+  // Sin código: respuesta 200 sin viaje, es decir, no hay camino
+  if (code === undefined) {
+    return createExplainedError("NO_ROUTE", details);
+  }
+
+  return createExplainedError(VALHALLA_ERROR_CODES[code] ?? "API_ERROR", details);
+};
@@ -0,0 +1,106 @@
+/**
+ * UTILIDADES COMPARTIDAS POR LOS PROVEEDORES DE ROUTING
+ *
+ * Pequeños ayudantes que necesitan todos los adaptadores
+ * (OSRM, GraphHopper, Valhalla) para hablar nuestro idioma.
+ */
+
+import type {
+  RoadClass,
+  RoutingError,
+  RoutingErrorAction,
+  RoutingErrorCode,
+  RoutingOptions,
+} from "../../interfaces/routing.interfaces";
+
+/**
+ * Acción que sugerimos al usuario para cada tipo de error
+ * (undefined = no hay nada útil que proponer)
+ */
+export const ROUTING_ERROR_ACTIONS: Record<
+  RoutingErrorCode,
+  RoutingErrorAction | undefined
+> = {
+  NO_ROUTE: "change-mode",
+  POINT_TOO_FAR: "move-point",
+  OUT_OF_COVERAGE: "move-point",
+  TOO_MANY_WAYPOINTS: "remove-stops",
+  ROUTE_TOO_LONG: "change-mode",
+  UNSUPPORTED_OPTIONS: "change-options",
+  INVALID_WAYPOINTS: undefined,
+  OFFLINE: "retry",
+  NETWORK_ERROR: "retry",
+  TIMEOUT: "retry",
+  RATE_LIMITED: "retry",
+  API_ERROR: "retry",
+};
+
+/**
+ * createRoutingError: Crea un error de routing
+ *
+ * @param code - Código del error
+ * @param message - Mensaje descriptivo
+ * @param details - Detalles adicionales
+ * @returns RoutingError con la acción sugerida para su código
+ */
+export const createRoutingError = (
+  code: RoutingErrorCode,
+  message: string,
+  details?: any
+): RoutingError => {
+  return {
+    code,
+    message,
+    action: ROUTING_ERROR_ACTIONS[code],
+    details,
+  };
+};
+
+/**
+ * lonLatToLatLng: Convierte coordenadas [lon, lat] a [lat, lon]
+ *
+ * @param coords - Coordenadas en formato GeoJSON [lon, lat]
+ * @returns Coordenadas en formato Leaflet [lat, lon]
+ *
+ * ¡Importante! OSRM y GraphHopper usan [longitud, latitud] (GeoJSON)
+ * pero Leaflet y nuestra app usan [lat, lon]
+ */
+export const lonLatToLatLng = (
+  coords: Array<{ 0: number; 1: number }>
+): [number, number][] => {
+  return coords.map((coord) => [coord[1], coord[0]]); // [lat, lon]
+};
+
+/**
+ * trimTrailingSlash: Quita la barra final de una URL base
+ *
+ * Así "http://localhost:5000/" y "http://localhost:5000" funcionan igual
+ */
+export const trimTrailingSlash = (url: string): string => {
+  return url.replace(/\/+$/, "");
+};
+
+/**
+ * getAvoidedClasses: Tipos de vía que el usuario quiere evitar
+ *
+ * @param options - Opciones de la ruta
+ * @returns Ejemplo: ['motorway', 'toll']
+ */
+export const getAvoidedClasses = (options: RoutingOptions): RoadClass[] => {
+  const classes: RoadClass[] = [];
+  if (options.avoidHighways) classes.push("motorway");
+  if (options.avoidTolls) classes.push("toll");
+  if (options.avoidFerries) classes.push("ferry");
+  return classes;
+};
+
+/**
+ * toRoadClasses: Filtra y deduplica las clases de vía que nos interesan
+ *
+ * @param classes - Clases tal cual las da el motor (pueden venir repetidas)
+ * @returns Solo motorway/toll/ferry, sin repetir
+ */
+export const toRoadClasses = (classes: string[]): RoadClass[] => {
+  const known: RoadClass[] = ["motorway", "toll", "ferry"];
+  return known.filter((roadClass) => classes.includes(roadClass));
+};
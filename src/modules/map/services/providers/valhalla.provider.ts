@@ -0,0 +1,427 @@
+/**
+ * VALHALLA PROVIDER
+ *
+ * Adaptador para Valhalla. Por defecto usa el servidor público de
+ * FOSSGIS, pero se puede apuntar a uno propio (ej: http://localhost:8002).
+ *
+ * Documentación: https://valhalla.github.io/valhalla/api/turn-by-turn/api-reference/
+ */
+
+import type {
+  RoadClass,
+  Route,
+  RouteLeg,
+  RouteManeuver,
+  RouteSegment,
+  RouteMatrix,
+  RoutingOptions,
+  RoutingProvider,
+  TravelMode,
+  Waypoint,
+} from "../../interfaces/routing.interfaces";
+import { trimTrailingSlash } from "./provider.utils";
+import { fromHttpStatus, fromValhallaError } from "./provider.errors";
+import { httpClient } from "../http-client";
+import { mergeContinueSegments } from "../instructions";
+import { locale } from "@/modules/i18n/i18n";
+import type { Locale } from "@/modules/i18n/i18n";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * "Costing models" de Valhalla para cada modo de transporte
+ */
+const VALHALLA_COSTINGS: Record<TravelMode, string> = {
+  driving: "auto",
+  cycling: "bicycle",
+  walking: "pedestrian",
+};
+
+/**
+ * Valhalla codifica la geometría como polyline con 6 decimales
+ */
+const POLYLINE_PRECISION = 1e6;
+
+/**
+ * Idioma de las instrucciones de Valhalla para cada idioma de la app
+ */
+const VALHALLA_LANGUAGES: Record<Locale, string> = {
+  es: "es-ES",
+  en: "en-US",
+};
+
+/**
+ * Maniobra de cada "type" de Valhalla
+ * https://valhalla.github.io/valhalla/api/turn-by-turn/api-reference/#trip-legs-and-maneuvers
+ */
+const VALHALLA_MANEUVER_TYPES: Record<number, Pick<RouteManeuver, "type" | "modifier">> = {
+  1: { type: "depart" },
+  2: { type: "depart", modifier: "right" },
+  3: { type: "depart", modifier: "left" },
+  4: { type: "arrive" },
+  5: { type: "arrive", modifier: "right" },
+  6: { type: "arrive", modifier: "left" },
+  7: { type: "continue" }, // Cambia de nombre
+  8: { type: "continue", modifier: "straight" },
+  9: { type: "turn", modifier: "slight right" },
+  10: { type: "turn", modifier: "right" },
+  11: { type: "turn", modifier: "sharp right" },
+  12: { type: "turn", modifier: "uturn" },
+  13: { type: "turn", modifier: "uturn" },
+  14: { type: "turn", modifier: "sharp left" },
+  15: { type: "turn", modifier: "left" },
+  16: { type: "turn", modifier: "slight left" },
+  17: { type: "on-ramp", modifier: "straight" },
+  18: { type: "on-ramp", modifier: "right" },
+  19: { type: "on-ramp", modifier: "left" },
+  20: { type: "off-ramp", modifier: "slight right" },
+  21: { type: "off-ramp", modifier: "slight left" },
+  22: { type: "continue", modifier: "straight" },
+  23: { type: "fork", modifier: "slight right" },
+  24: { type: "fork", modifier: "slight left" },
+  25: { type: "merge", modifier: "straight" },
+  26: { type: "roundabout" },
+  27: { type: "exit-roundabout" },
+  28: { type: "ferry" },
+  37: { type: "merge", modifier: "slight right" },
+  38: { type: "merge", modifier: "slight left" },
+};
+
+// ============================================
+// INTERFACES INTERNAS (respuesta de Valhalla)
+// ============================================
+
+interface ValhallaManeuver {
+  /** Tipo de maniobra (ver VALHALLA_MANEUVER_TYPES) */
+  type: number;
+  instruction: string;
+  /** Distancia en KILÓMETROS */
+  length: number;
+  /** Duración en segundos */
+  time: number;
+  /** Índices dentro de la geometría del leg */
+  begin_shape_index: number;
+  end_shape_index: number;
+  street_names?: string[];
+  /** Número de salida (solo al entrar en una rotonda) */
+  roundabout_exit_count?: number;
+  /** Flags del tipo de vía de la maniobra */
+  highway?: boolean;
+  toll?: boolean;
+  ferry?: boolean;
+}
+
+interface ValhallaLeg {
+  /** Geometría codificada (polyline6) */
+  shape: string;
+  maneuvers: ValhallaManeuver[];
+  summary: {
+    /** Distancia en kilómetros */
+    length: number;
+    /** Duración en segundos */
+    time: number;
+  };
+}
+
+interface ValhallaTrip {
+  legs: ValhallaLeg[];
+  summary: {
+    /** Distancia en kilómetros */
+    length: number;
+    /** Duración en segundos */
+    time: number;
+  };
+}
+
+interface ValhallaResponse {
+  trip?: ValhallaTrip;
+  alternates?: Array<{ trip: ValhallaTrip }>;
+  error_code?: number;
+  error?: string;
+}
+
+interface ValhallaMatrixCell {
+  /** Distancia en kilómetros (null si no hay ruta) */
+  distance: number | null;
+  /** Duración en segundos (null si no hay ruta) */
+  time: number | null;
+}
+
+interface ValhallaMatrixResponse {
+  /** Una fila por origen, una celda por destino */
+  sources_to_targets?: ValhallaMatrixCell[][];
+  error_code?: number;
+  error?: string;
+}
+
+// ============================================
+// CLASE DEL PROVEEDOR
+// ============================================
+
+export class ValhallaProvider implements RoutingProvider {
+  readonly id = "valhalla" as const;
+  readonly baseUrl: string;
+  readonly multiProfile = true;
+
+  /**
+   * @param baseUrl - URL base de Valhalla (ej: https://valhalla1.openstreetmap.de)
+   */
+  constructor(baseUrl: string) {
+    this.baseUrl = trimTrailingSlash(baseUrl);
+  }
+
+  /**
+   * getRoutes: Pide a Valhalla la ruta principal y sus alternativas
+   */
+  async getRoutes(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number,
+    signal?: AbortSignal
+  ): Promise<Route[]> {
+    const costing = VALHALLA_COSTINGS[options.travelMode];
+
+    const response = await httpClient.fetch(`${this.baseUrl}/route`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        locations: waypoints.map((wp) => ({
+          lat: wp.coordinates[0],
+          lon: wp.coordinates[1],
+        })),
+        costing,
+        costing_options: { [costing]: this.buildCostingOptions(options) },
+        alternates: maxAlternatives,
+        directions_options: {
+          units: "kilometers",
+          language: VALHALLA_LANGUAGES[locale.value],
+        },
+      }),
+      signal,
+    });
+
+    // Valhalla responde 400 con { error_code, error } cuando no hay ruta
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    const data: ValhallaResponse = await response.json();
+
+    if (!data.trip) {
+      throw fromValhallaError(data.error_code, data.error);
+    }
+
+    const trips = [data.trip, ...(data.alternates || []).map((a) => a.trip)];
+
+    return trips.map((trip, index) =>
+      this.transformRoute(trip, waypoints, options.travelMode, index)
+    );
+  }
+
+  /**
+   * getMatrix: Pide al servicio /sources_to_targets las duraciones y
+   * distancias entre todos los puntos
+   */
+  async getMatrix(
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    signal?: AbortSignal
+  ): Promise<RouteMatrix> {
+    const costing = VALHALLA_COSTINGS[options.travelMode];
+    const locations = waypoints.map((wp) => ({
+      lat: wp.coordinates[0],
+      lon: wp.coordinates[1],
+    }));
+
+    const response = await httpClient.fetch(
+      `${this.baseUrl}/sources_to_targets`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sources: locations,
+          targets: locations,
+          costing,
+          costing_options: { [costing]: this.buildCostingOptions(options) },
+          units: "kilometers",
+        }),
+        signal,
+      }
+    );
+
+    if (!response.ok && response.status !== 400) {
+      throw fromHttpStatus(response);
+    }
+
+    const data: ValhallaMatrixResponse = await response.json();
+
+    if (!data.sources_to_targets) {
+      throw fromValhallaError(data.error_code, data.error);
+    }
+
+    // Valhalla devuelve null en los pares sin ruta
+    const rows = data.sources_to_targets;
+    return {
+      durations: rows.map((row) => row.map((cell) => cell.time ?? Infinity)),
+      distances: rows.map((row) =>
+        row.map((cell) =>
+          cell.distance === null ? Infinity : cell.distance * 1000
+        )
+      ),
+    };
+  }
+
+  /**
+   * buildCostingOptions: Traduce las opciones "evitar" a Valhalla
+   *
+   * Valhalla no excluye del todo: use_* = 0 significa "evitar si es posible".
+   * use_highways solo existe para coche, pero Valhalla ignora lo que no aplica.
+   */
+  private buildCostingOptions(options: RoutingOptions): Record<string, number> {
+    const costingOptions: Record<string, number> = {};
+    if (options.avoidHighways) costingOptions.use_highways = 0;
+    if (options.avoidTolls) costingOptions.use_tolls = 0;
+    if (options.avoidFerries) costingOptions.use_ferry = 0;
+    return costingOptions;
+  }
+
+  /**
+   * transformRoute: Transforma un "trip" de Valhalla a nuestro formato
+   *
+   * Cada leg trae su propia geometría codificada y las maniobras
+   * apuntan a índices de esa geometría.
+   */
+  private transformRoute(
+    trip: ValhallaTrip,
+    waypoints: Waypoint[],
+    travelMode: TravelMode,
+    alternativeIndex: number
+  ): Route {
+    const segments: RouteSegment[] = [];
+    const geometry: [number, number][] = [];
+
+    trip.legs.forEach((leg, legIndex) => {
+      const legShape = this.decodePolyline(leg.shape);
+      const isLastLeg = legIndex === trip.legs.length - 1;
+
+      // El texto ya viene traducido por Valhalla; la maniobra
+      // estructurada la sacamos de "type"
+      leg.maneuvers.forEach((maneuver) => {
+        segments.push({
+          distance: maneuver.length * 1000, // km -> m
+          duration: maneuver.time,
+          instruction: maneuver.instruction,
+          maneuver: this.buildManeuver(maneuver, isLastLeg),
+          coordinates: legShape.slice(
+            maneuver.begin_shape_index,
+            maneuver.end_shape_index + 1
+          ),
+          index: segments.length,
+          classes: this.getManeuverClasses(maneuver),
+        });
+      });
+
+      geometry.push(...legShape);
+    });
+
+    const steps = mergeContinueSegments(segments);
+
+    const legs: RouteLeg[] = trip.legs.map((leg, index) => ({
+      distance: leg.summary.length * 1000,
+      duration: leg.summary.time,
+      index,
+    }));
+
+    return {
+      id: crypto.randomUUID(),
+      distance: trip.summary.length * 1000,
+      duration: trip.summary.time,
+      segments: steps,
+      legs,
+      geometry,
+      travelMode,
+      calculatedAt: new Date(),
+      waypoints,
+      osrmDuration: trip.summary.time,
+      osrmSegmentDurations: steps.map((segment) => segment.duration),
+      osrmLegDurations: legs.map((leg) => leg.duration),
+      alternativeIndex,
+      isSelected: alternativeIndex === 0,
+    };
+  }
+
+  /**
+   * buildManeuver: Convierte una maniobra de Valhalla en la nuestra
+   *
+   * @param maneuver - Maniobra de Valhalla
+   * @param isLastLeg - ¿Es el último tramo? (su llegada es el destino)
+   */
+  private buildManeuver(
+    maneuver: ValhallaManeuver,
+    isLastLeg: boolean
+  ): RouteManeuver {
+    let { type, modifier } = VALHALLA_MANEUVER_TYPES[maneuver.type] ?? {
+      type: "continue",
+    };
+    if (type === "arrive" && !isLastLeg) type = "via";
+
+    return {
+      type,
+      modifier,
+      exit: maneuver.roundabout_exit_count,
+      streetName: maneuver.street_names?.[0],
+    };
+  }
+
+  /**
+   * getManeuverClasses: Tipos de vía de una maniobra según sus flags
+   */
+  private getManeuverClasses(maneuver: ValhallaManeuver): RoadClass[] {
+    const classes: RoadClass[] = [];
+    if (maneuver.highway) classes.push("motorway");
+    if (maneuver.toll) classes.push("toll");
+    if (maneuver.ferry) classes.push("ferry");
+    return classes;
+  }
+
+  /**
+   * decodePolyline: Decodifica una polyline de Google (precisión 6)
+   *
+   * @param encoded - Cadena codificada
+   * @returns Coordenadas [lat, lon]
+   */
+  private decodePolyline(encoded: string): [number, number][] {
+    const coordinates: [number, number][] = [];
+    let index = 0;
+    let lat = 0;
+    let lon = 0;
+
+    while (index < encoded.length) {
+      // Cada coordenada son dos números (lat, lon) codificados en deltas
+      for (const axis of [0, 1]) {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+
+        do {
+          byte = encoded.charCodeAt(index++) - 63;
+          result |= (byte & 0x1f) << shift;
+          shift += 5;
+        } while (byte >= 0x20);
+
+        const delta = result & 1 ? ~(result >> 1) : result >> 1;
+        if (axis === 0) {
+          lat += delta;
+        } else {
+          lon += delta;
+        }
+      }
+
+      coordinates.push([lat / POLYLINE_PRECISION, lon / POLYLINE_PRECISION]);
+    }
+
+    return coordinates;
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * UTILIDADES DE PETICIONES
+ *
+ * Ayudantes para que las peticiones HTTP se puedan cancelar y
+ * tengan un tiempo máximo de espera, usando AbortController.
+ */
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * RequestSignal: Señal de una petición con timeout
+ */
+export interface RequestSignal {
+  /** Señal para pasar a fetch (se aborta al cancelar o al agotar el tiempo) */
+  signal: AbortSignal;
+
+  /** ¿Se abortó por agotar el tiempo (y no por cancelación)? */
+  timedOut: () => boolean;
+
+  /** Limpia el temporizador y los listeners (llamar al terminar) */
+  dispose: () => void;
+}
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * createRequestSignal: Combina una señal de cancelación con un timeout
+ *
+ * @param timeoutMs - Tiempo máximo de la petición en milisegundos
+ * @param signal - Señal del llamador (opcional) para cancelar la petición
+ * @returns Señal combinada, si se agotó el tiempo y función de limpieza
+ *
+ * Ejemplo:
+ * const request = createRequestSignal(10000, controller.signal);
+ * try {
+ *   await fetch(url, { signal: request.signal });
+ * } finally {
+ *   request.dispose();
+ * }
+ */
+export const createRequestSignal = (
+  timeoutMs: number,
+  signal?: AbortSignal
+): RequestSignal => {
+  const controller = new AbortController();
+  let hasTimedOut = false;
+
+  const timer = setTimeout(() => {
+    if (controller.signal.aborted) return;
+    hasTimedOut = true;
+    controller.abort(
+      new DOMException("La petición tardó demasiado", "TimeoutError")
+    );
+  }, timeoutMs);
+
+  const onAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    timedOut: () => hasTimedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    },
+  };
+};
@@ -0,0 +1,328 @@
+/**
+ * ROUTE CACHE
+ *
+ * Caché de las rutas que devuelve el motor de routing, en dos niveles:
+ * 1. Memoria: respuesta inmediata mientras la pestaña sigue abierta
+ * 2. IndexedDB: sobrevive a recargas y permite ver rutas ya pedidas
+ *    sin conexión
+ *
+ * Cada entrada caduca pasado un tiempo (TTL), porque las calles y el
+ * tráfico cambian. Si IndexedDB no está disponible (modo privado,
+ * navegador antiguo) la caché sigue funcionando solo en memoria.
+ */
+
+import type { Route } from "../interfaces/routing.interfaces";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Tiempo de vida por defecto de una ruta en caché (minutos)
+ * Se puede cambiar con VITE_ROUTE_CACHE_TTL_MINUTES
+ */
+const DEFAULT_TTL_MINUTES = 24 * 60;
+
+/**
+ * Número máximo de respuestas en memoria (se descartan las más antiguas)
+ */
+const MAX_MEMORY_ENTRIES = 100;
+
+/**
+ * Base de datos y almacén de IndexedDB
+ */
+const DB_NAME = "vueflet-route-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "routes";
+
+/**
+ * getEnvTtlMs: TTL definido en las variables de entorno (en ms)
+ */
+const getEnvTtlMs = (): number => {
+  const envTtl = import.meta.env.VITE_ROUTE_CACHE_TTL_MINUTES;
+  if (envTtl === undefined || envTtl === "") {
+    return DEFAULT_TTL_MINUTES * 60 * 1000;
+  }
+
+  const minutes = Number(envTtl);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    console.warn(
+      `VITE_ROUTE_CACHE_TTL_MINUTES no válido: "${envTtl}". Usando ${DEFAULT_TTL_MINUTES} min.`
+    );
+    return DEFAULT_TTL_MINUTES * 60 * 1000;
+  }
+
+  return minutes * 60 * 1000;
+};
+
+// ============================================
+// INTERFACES
+// ============================================
+
+/**
+ * CachedRoutes: Entrada guardada en la caché
+ */
+interface CachedRoutes {
+  /** Clave de la petición (coordenadas, perfil y opciones) */
+  key: string;
+
+  /** Rutas tal como las devolvió el motor (sin waypoints) */
+  routes: Route[];
+
+  /** Momento (ms) a partir del cual la entrada ya no vale */
+  expiresAt: number;
+}
+
+// ============================================
+// CLASE DE LA CACHÉ
+// ============================================
+
+/**
+ * RouteCache: Caché de rutas en memoria + IndexedDB con caducidad
+ */
+class RouteCache {
+  /** Tiempo de vida de las entradas en ms (0 = caché desactivada) */
+  private ttlMs: number;
+
+  /** Entradas en memoria (clave = clave de la petición) */
+  private memory = new Map<string, CachedRoutes>();
+
+  /** Conexión a IndexedDB (se abre la primera vez que hace falta) */
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * @param ttlMs - Tiempo de vida en ms (por defecto el de las variables de entorno)
+   */
+  constructor(ttlMs: number = getEnvTtlMs()) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * setTtl: Cambia el tiempo de vida de las entradas nuevas
+   *
+   * @param ttlMs - Tiempo de vida en ms (0 desactiva la caché)
+   */
+  setTtl(ttlMs: number) {
+    this.ttlMs = Math.max(0, ttlMs);
+  }
+
+  /**
+   * get: Busca unas rutas en la caché
+   *
+   * @param key - Clave de la petición
+   * @returns Las rutas guardadas, o null si no hay o han caducado
+   */
+  async get(key: string): Promise<Route[] | null> {
+    if (this.ttlMs === 0) return null;
+
+    const now = Date.now();
+
+    // 1. Memoria
+    const cached = this.memory.get(key);
+    if (cached) {
+      if (cached.expiresAt > now) return cached.routes;
+      this.memory.delete(key);
+    }
+
+    // 2. IndexedDB
+    const stored = await this.readFromDb(key);
+    if (!stored) return null;
+
+    if (stored.expiresAt <= now) {
+      this.deleteFromDb(key);
+      return null;
+    }
+
+    this.saveToMemory(stored);
+    return stored.routes;
+  }
+
+  /**
+   * set: Guarda unas rutas en la caché
+   *
+   * @param key - Clave de la petición
+   * @param routes - Rutas a guardar (se guardan sin los waypoints)
+   *
+   * No espera a IndexedDB: si falla, la ruta sigue en memoria
+   */
+  set(key: string, routes: Route[]) {
+    if (this.ttlMs === 0) return;
+
+    const entry: CachedRoutes = {
+      key,
+      // Los waypoints pueden ser proxies reactivos (no se pueden
+      // guardar en IndexedDB) y de todas formas se reponen al leer
+      routes: routes.map((route) => ({ ...route, waypoints: [] })),
+      expiresAt: Date.now() + this.ttlMs,
+    };
+
+    this.saveToMemory(entry);
+    this.writeToDb(entry);
+  }
+
+  /**
+   * clear: Vacía la caché (memoria e IndexedDB)
+   */
+  async clear() {
+    this.memory.clear();
+
+    const db = await this.openDb();
+    if (!db) return;
+
+    await this.runRequest(db, "readwrite", (store) => store.clear());
+  }
+
+  /**
+   * saveToMemory: Guarda una entrada descartando la más antigua si está llena
+   */
+  private saveToMemory(entry: CachedRoutes) {
+    this.memory.delete(entry.key);
+
+    if (this.memory.size >= MAX_MEMORY_ENTRIES) {
+      // Un Map recorre sus claves en orden de inserción
+      const oldestKey = this.memory.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.memory.delete(oldestKey);
+      }
+    }
+
+    this.memory.set(entry.key, entry);
+  }
+
+  /**
+   * openDb: Abre (o crea) la base de datos y borra las entradas caducadas
+   *
+   * @returns La conexión, o null si IndexedDB no está disponible
+   */
+  private openDb(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, {
+            keyPath: "key",
+          });
+          store.createIndex("expiresAt", "expiresAt");
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          this.pruneExpired(db);
+          resolve(db);
+        };
+
+        request.onerror = () => {
+          console.warn("⚠️ Caché de rutas sin IndexedDB:", request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn("⚠️ Caché de rutas sin IndexedDB:", error);
+        resolve(null);
+      }
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * runRequest: Ejecuta una operación sobre el almacén de rutas
+   *
+   * @returns El resultado de la operación, o undefined si falla
+   */
+  private runRequest<T>(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    return new Promise((resolve) => {
+      try {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = operation(transaction.objectStore(STORE_NAME));
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("⚠️ Error en la caché de rutas:", request.error);
+          resolve(undefined);
+        };
+      } catch (error) {
+        console.warn("⚠️ Error en la caché de rutas:", error);
+        resolve(undefined);
+      }
+    });
+  }
+
+  /**
+   * readFromDb: Lee una entrada de IndexedDB
+   */
+  private async readFromDb(key: string): Promise<CachedRoutes | null> {
+    const db = await this.openDb();
+    if (!db) return null;
+
+    const entry = await this.runRequest<CachedRoutes | undefined>(
+      db,
+      "readonly",
+      (store) => store.get(key)
+    );
+    return entry ?? null;
+  }
+
+  /**
+   * writeToDb: Guarda una entrada en IndexedDB
+   */
+  private async writeToDb(entry: CachedRoutes) {
+    const db = await this.openDb();
+    if (!db) return;
+
+    await this.runRequest(db, "readwrite", (store) => store.put(entry));
+  }
+
+  /**
+   * deleteFromDb: Borra una entrada de IndexedDB
+   */
+  private async deleteFromDb(key: string) {
+    const db = await this.openDb();
+    if (!db) return;
+
+    await this.runRequest(db, "readwrite", (store) => store.delete(key));
+  }
+
+  /**
+   * pruneExpired: Borra de IndexedDB todas las entradas caducadas
+   */
+  private pruneExpired(db: IDBDatabase) {
+    try {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      const request = transaction
+        .objectStore(STORE_NAME)
+        .index("expiresAt")
+        .openCursor(IDBKeyRange.upperBound(Date.now()));
+
+      // El cursor recorre una a una las entradas caducadas
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+    } catch (error) {
+      console.warn("⚠️ No se pudo limpiar la caché de rutas:", error);
+    }
+  }
+}
+
+// ============================================
+// EXPORTAR INSTANCIA ÚNICA (SINGLETON)
+// ============================================
+
+export const routeCache = new RouteCache();
+
+export default RouteCache;
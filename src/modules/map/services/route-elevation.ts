@@ -0,0 +1,247 @@
+/**
+ * ROUTE ELEVATION
+ *
+ * Cálculos sobre la elevación de una ruta:
+ * - Qué puntos de la geometría consultar (muestreo a distancia fija)
+ * - Perfil de elevación con desnivel positivo y negativo
+ * - Cuánto cambia el tiempo en bici o a pie según la pendiente
+ *
+ * Son funciones puras: no hacen peticiones (ver elevation.service.ts).
+ */
+
+import type {
+  ElevationPoint,
+  ElevationProfile,
+  ElevationProviderId,
+} from "../interfaces/elevation.interfaces";
+import type { TravelMode } from "../interfaces/routing.interfaces";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Radio medio de la Tierra (metros)
+ */
+const EARTH_RADIUS_M = 6371000;
+
+/**
+ * Pendiente máxima que se tiene en cuenta (30 %)
+ * Más que eso suele ser ruido del modelo de elevación (puentes, túneles)
+ */
+const MAX_SLOPE = 0.3;
+
+/**
+ * Cambio mínimo de altitud para contar subida o bajada (metros)
+ * Filtra el ruido del modelo en tramos llanos
+ */
+const CLIMB_THRESHOLD_M = 3;
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * getDistanceMeters: Distancia entre dos coordenadas (fórmula del haversine)
+ */
+export const getDistanceMeters = (
+  [lat1, lon1]: [number, number],
+  [lat2, lon2]: [number, number]
+): number => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * sampleGeometry: Puntos repartidos a la misma distancia a lo largo de la línea
+ *
+ * @param geometry - Coordenadas [lat, lon] de la ruta
+ * @param spacingMeters - Distancia deseada entre puntos
+ * @param maxSamples - Número máximo de puntos (se separan más si hace falta)
+ * @returns Puntos con su distancia desde el inicio (incluye el primero y el último)
+ */
+export const sampleGeometry = (
+  geometry: [number, number][],
+  spacingMeters: number,
+  maxSamples: number
+): Omit<ElevationPoint, "elevation">[] => {
+  if (geometry.length === 0) return [];
+
+  // Distancia acumulada en cada vértice
+  const cumulative = [0];
+  for (let i = 1; i < geometry.length; i++) {
+    cumulative.push(
+      cumulative[i - 1]! + getDistanceMeters(geometry[i - 1]!, geometry[i]!)
+    );
+  }
+
+  const total = cumulative[cumulative.length - 1]!;
+  if (total === 0) {
+    return [{ distance: 0, coordinates: geometry[0]! }];
+  }
+
+  const count = Math.min(
+    maxSamples,
+    Math.max(2, Math.ceil(total / spacingMeters) + 1)
+  );
+  const step = total / (count - 1);
+
+  const samples: Omit<ElevationPoint, "elevation">[] = [];
+  let vertex = 0;
+
+  for (let i = 0; i < count; i++) {
+    const distance = i === count - 1 ? total : i * step;
+
+    // Avanzar hasta el tramo de la línea que contiene esta distancia
+    while (vertex < geometry.length - 2 && cumulative[vertex + 1]! < distance) {
+      vertex++;
+    }
+
+    const [lat1, lon1] = geometry[vertex]!;
+    const [lat2, lon2] = geometry[vertex + 1] ?? geometry[vertex]!;
+    const length = cumulative[vertex + 1]! - cumulative[vertex]!;
+    const ratio = length > 0 ? (distance - cumulative[vertex]!) / length : 0;
+
+    samples.push({
+      distance,
+      coordinates: [lat1 + (lat2 - lat1) * ratio, lon1 + (lon2 - lon1) * ratio],
+    });
+  }
+
+  return samples;
+};
+
+/**
+ * buildElevationProfile: Perfil de elevación a partir de las altitudes
+ *
+ * @param samples - Puntos muestreados (ver sampleGeometry)
+ * @param elevations - Altitud de cada punto, en el mismo orden
+ * @param providerId - Proveedor que dio las altitudes
+ * @returns Perfil con subida y bajada acumuladas
+ *
+ * La subida y la bajada solo cuentan cuando la altitud cambia más de
+ * CLIMB_THRESHOLD_M respecto al último punto contado: así el ruido
+ * del modelo en una calle llana no suma decenas de metros.
+ */
+export const buildElevationProfile = (
+  samples: Omit<ElevationPoint, "elevation">[],
+  elevations: number[],
+  providerId: ElevationProviderId
+): ElevationProfile => {
+  const points: ElevationPoint[] = samples.map((sample, index) => ({
+    ...sample,
+    elevation: Math.round(elevations[index] ?? 0),
+  }));
+
+  let ascent = 0;
+  let descent = 0;
+  let reference = points[0]?.elevation ?? 0;
+
+  points.forEach(({ elevation }) => {
+    const diff = elevation - reference;
+    if (Math.abs(diff) >= CLIMB_THRESHOLD_M) {
+      if (diff > 0) ascent += diff;
+      else descent -= diff;
+      reference = elevation;
+    }
+  });
+
+  // Lo que quede hasta el último punto también cuenta
+  const lastDiff = (points[points.length - 1]?.elevation ?? reference) - reference;
+  if (lastDiff > 0) ascent += lastDiff;
+  else descent -= lastDiff;
+
+  const values = points.map((point) => point.elevation);
+
+  return {
+    points,
+    ascent: Math.round(ascent),
+    descent: Math.round(descent),
+    minElevation: values.length ? Math.min(...values) : 0,
+    maxElevation: values.length ? Math.max(...values) : 0,
+    providerId,
+  };
+};
+
+/**
+ * getSlopeTimeFactor: Cuánto más (o menos) se tarda por la pendiente
+ *
+ * @param slope - Pendiente (0.05 = 5 % de subida, -0.05 = 5 % de bajada)
+ * @param travelMode - Modo de transporte
+ * @returns Multiplicador del tiempo en llano (1 = igual, 2 = el doble)
+ *
+ * - A pie: función de Tobler (se va más rápido con una ligera bajada)
+ * - En bici: cada 1 % de subida añade ~12 % de tiempo; en bajada se
+ *   gana velocidad hasta un máximo de un 50 % más rápido
+ * - En coche: la pendiente no cuenta
+ */
+export const getSlopeTimeFactor = (
+  slope: number,
+  travelMode: TravelMode
+): number => {
+  const clamped = Math.max(-MAX_SLOPE, Math.min(MAX_SLOPE, slope));
+
+  switch (travelMode) {
+    case "walking": {
+      // Tobler: v = 6 * e^(-3.5 * |s + 0.05|), relativa a la velocidad en llano
+      const tobler = (s: number) => Math.exp(-3.5 * Math.abs(s + 0.05));
+      return tobler(0) / tobler(clamped);
+    }
+    case "cycling":
+      return clamped >= 0
+        ? 1 + 12 * clamped
+        : 1 / Math.min(1.5, 1 + 6 * -clamped);
+    default:
+      return 1;
+  }
+};
+
+/**
+ * getClimbTimeFactor: Multiplicador medio del tiempo en un tramo de la ruta
+ *
+ * @param profile - Perfil de elevación de la ruta
+ * @param from - Inicio del tramo (metros desde el inicio de la ruta)
+ * @param to - Fin del tramo (metros desde el inicio de la ruta)
+ * @param routeDistance - Distancia total según el motor de routing
+ * @param travelMode - Modo de transporte
+ * @returns Tiempo con pendientes / tiempo en llano (1 si no hay datos)
+ *
+ * Las distancias del motor y las del perfil (medidas sobre la geometría)
+ * no coinciden exactamente, así que el tramo se escala al perfil.
+ */
+export const getClimbTimeFactor = (
+  profile: ElevationProfile,
+  from: number,
+  to: number,
+  routeDistance: number,
+  travelMode: TravelMode
+): number => {
+  const points = profile.points;
+  const profileLength = points[points.length - 1]?.distance ?? 0;
+  if (points.length < 2 || profileLength === 0 || routeDistance <= 0) return 1;
+
+  const scale = profileLength / routeDistance;
+  const start = from * scale;
+  const end = to * scale;
+  if (end <= start) return 1;
+
+  let weightedLength = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    const overlap = Math.min(end, b.distance) - Math.max(start, a.distance);
+    if (overlap <= 0) continue;
+
+    const length = b.distance - a.distance;
+    const slope = length > 0 ? (b.elevation - a.elevation) / length : 0;
+    weightedLength += overlap * getSlopeTimeFactor(slope, travelMode);
+  }
+
+  return weightedLength / (end - start);
+};
@@ -0,0 +1,96 @@
+/**
+ * ROUTE GEOMETRY
+ *
+ * Cálculos sencillos sobre la geometría de una ruta:
+ * - Qué punto de la línea está más cerca de unas coordenadas
+ * - En qué tramo (entre qué paradas) cae un punto de la línea
+ * - Una clave que identifica la línea aunque se copie
+ *
+ * Trabajamos en grados con la longitud corregida por la latitud:
+ * no es una distancia exacta, pero sirve para comparar puntos cercanos.
+ */
+
+import type { Route } from "../interfaces/routing.interfaces";
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * findClosestPointIndex: Índice del punto de la geometría más cercano
+ *
+ * @param geometry - Coordenadas [lat, lon] de la línea
+ * @param point - Coordenadas [lat, lon] a buscar
+ * @returns Índice dentro de geometry (-1 si la geometría está vacía)
+ */
+export const findClosestPointIndex = (
+  geometry: [number, number][],
+  point: [number, number]
+): number => {
+  // Un grado de longitud mide menos cuanto más lejos del ecuador
+  const lonScale = Math.cos((point[0] * Math.PI) / 180);
+
+  let closestIndex = -1;
+  let closestDistance = Infinity;
+
+  geometry.forEach(([lat, lon], index) => {
+    const dLat = lat - point[0];
+    const dLon = (lon - point[1]) * lonScale;
+    const distance = dLat * dLat + dLon * dLon;
+
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closestIndex = index;
+    }
+  });
+
+  return closestIndex;
+};
+
+/**
+ * getGeometryKey: Clave de una geometría (número de puntos y los puntos
+ * primero, central y último)
+ *
+ * Sirve para reconocer la misma línea en copias de una ruta (al
+ * recalcular los tiempos o reordenar las alternativas cambian el ID
+ * y el array, pero no los puntos)
+ *
+ * @param geometry - Coordenadas [lat, lon] de la línea
+ * @returns Ejemplo: "120|40.4168,-3.7038|40.42,-3.69|40.4153,-3.6844"
+ */
+export const getGeometryKey = (geometry: [number, number][]): string => {
+  const points = [
+    geometry[0],
+    geometry[Math.floor(geometry.length / 2)],
+    geometry[geometry.length - 1],
+  ];
+  return [
+    geometry.length,
+    ...points.map((point) => point?.join(",") ?? ""),
+  ].join("|");
+};
+
+/**
+ * getStopInsertPosition: Posición de una parada nueva según dónde cae en la ruta
+ *
+ * @param route - Ruta sobre la que se ha soltado el punto
+ * @param point - Coordenadas [lat, lon] del punto
+ * @returns Posición entre las paradas intermedias (0 = antes de la primera)
+ *
+ * Ejemplo: con origen → P1 → P2 → destino, un punto entre P1 y P2 devuelve 1
+ */
+export const getStopInsertPosition = (
+  route: Route,
+  point: [number, number]
+): number => {
+  const pointIndex = findClosestPointIndex(route.geometry, point);
+
+  const stops = [...route.waypoints]
+    .sort((a, b) => a.order - b.order)
+    .slice(1, -1);
+
+  // Contamos las paradas que quedan antes del punto en la línea
+  return stops.filter(
+    (stop) => findClosestPointIndex(route.geometry, stop.coordinates) <= pointIndex
+  ).length;
+};
@@ -0,0 +1,167 @@
+/**
+ * ROUTE HISTORY
+ *
+ * Guarda en localStorage las rutas calculadas (historial) y los viajes
+ * guardados con nombre, y ayuda a buscarlos.
+ *
+ * Solo se guardan los puntos, las opciones y el resumen: la geometría
+ * no, porque al abrir una ruta se vuelve a pedir y, si sigue en la
+ * caché de rutas, llega al instante sin llamar al motor.
+ */
+
+import type { RoutingOptions } from "../interfaces/routing.interfaces";
+import type {
+  RouteHistoryEntry,
+  RouteHistoryWaypoint,
+} from "../interfaces/route-history.interfaces";
+import { normalizeSearchText } from "./text.utils";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Clave de localStorage donde se guarda el historial
+ */
+const STORAGE_KEY = "vueflet:route-history";
+
+/**
+ * Rutas sin nombre que se recuerdan (las más antiguas se descartan)
+ * Los viajes guardados no cuentan: se quedan hasta que se borran
+ */
+export const MAX_HISTORY_ENTRIES = 30;
+
+/**
+ * Decimales de las coordenadas al comparar rutas (~1 m)
+ */
+const KEY_PRECISION = 5;
+
+// ============================================
+// PERSISTENCIA
+// ============================================
+
+/**
+ * loadRouteHistory: Rutas guardadas en este navegador
+ *
+ * @returns Las entradas válidas (las que no se entienden se descartan)
+ */
+export const loadRouteHistory = (): RouteHistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      throw new Error("No es una lista de rutas");
+    }
+    return parsed.filter(isRouteHistoryEntry);
+  } catch (error) {
+    console.warn("Historial de rutas no válido:", error);
+    return [];
+  }
+};
+
+/**
+ * storeRouteHistory: Guarda el historial y los viajes
+ */
+export const storeRouteHistory = (entries: RouteHistoryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("No se pudo guardar el historial de rutas:", error);
+  }
+};
+
+// ============================================
+// COMPARAR Y BUSCAR
+// ============================================
+
+/**
+ * getRouteHistoryKey: Clave que identifica una ruta
+ *
+ * Dos rutas con los mismos puntos (a ~1 m), modo de transporte,
+ * preferencia y vías a evitar son la misma entrada del historial.
+ * Los nombres de los puntos no cuentan.
+ */
+export const getRouteHistoryKey = (
+  waypoints: RouteHistoryWaypoint[],
+  options: RoutingOptions
+): string => {
+  const points = waypoints
+    .map(({ coordinates: [lat, lon] }) =>
+      `${lat.toFixed(KEY_PRECISION)},${lon.toFixed(KEY_PRECISION)}`
+    )
+    .join(";");
+
+  return [
+    points,
+    options.travelMode,
+    options.preference ?? "fastest",
+    options.avoidHighways ? "h" : "",
+    options.avoidTolls ? "t" : "",
+    options.avoidFerries ? "f" : "",
+  ].join("|");
+};
+
+/**
+ * matchRouteHistory: Entradas cuyo nombre o puntos contienen el texto
+ *
+ * @param entries - Entradas del historial
+ * @param query - Texto escrito (vacío = todas)
+ * @returns Las que coinciden, sin tener en cuenta mayúsculas ni tildes
+ */
+export const matchRouteHistory = (
+  entries: RouteHistoryEntry[],
+  query: string
+): RouteHistoryEntry[] => {
+  const normalizedQuery = normalizeSearchText(query.trim());
+  if (!normalizedQuery) return entries;
+
+  return entries.filter(
+    (entry) =>
+      normalizeSearchText(entry.tripName ?? "").includes(normalizedQuery) ||
+      entry.waypoints.some((waypoint) =>
+        normalizeSearchText(waypoint.name).includes(normalizedQuery)
+      )
+  );
+};
+
+/**
+ * getRouteTitle: Título de una ruta sin nombre ("Sol → Retiro")
+ *
+ * De cada punto se usa la primera parte del nombre (antes de la coma)
+ */
+export const getRouteTitle = (entry: RouteHistoryEntry): string => {
+  const first = entry.waypoints[0];
+  const last = entry.waypoints[entry.waypoints.length - 1];
+  if (!first || !last) return "";
+
+  const shortName = (name: string) => name.split(",")[0]!.trim() || name;
+  return `${shortName(first.name)} → ${shortName(last.name)}`;
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+const isWaypoint = (value: any): value is RouteHistoryWaypoint => {
+  return (
+    typeof value?.name === "string" &&
+    Array.isArray(value.coordinates) &&
+    value.coordinates.length === 2 &&
+    value.coordinates.every((n: unknown) => typeof n === "number")
+  );
+};
+
+const isRouteHistoryEntry = (value: any): value is RouteHistoryEntry => {
+  return (
+    typeof value?.id === "string" &&
+    Array.isArray(value.waypoints) &&
+    value.waypoints.length >= 2 &&
+    value.waypoints.every(isWaypoint) &&
+    typeof value.options?.travelMode === "string" &&
+    typeof value.summary?.distance === "number" &&
+    typeof value.summary?.duration === "number" &&
+    typeof value.calculatedAt === "number"
+  );
+};
@@ -0,0 +1,232 @@
+/**
+ * ROUTE PROGRESS
+ *
+ * Cálculos del modo navegación sobre la ruta:
+ * - Ajustar la posición del GPS a la línea de la ruta
+ * - Qué paso se está recorriendo y cuánto falta para la siguiente maniobra
+ * - Distancia y tiempo que quedan hasta el destino
+ * - Cuándo la posición está demasiado lejos de la ruta
+ *
+ * Son funciones puras: el seguimiento del GPS está en navigation.store.ts.
+ */
+
+import type {
+  NavigationProgress,
+  RouteSnap,
+} from "../interfaces/navigation.interfaces";
+import type { Route, TravelMode } from "../interfaces/routing.interfaces";
+import { getDistanceMeters } from "./route-elevation";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Metros que mide un grado de latitud (aprox.)
+ */
+const METERS_PER_DEGREE = 111320;
+
+/**
+ * Distancia a la ruta a partir de la cual se considera que el usuario
+ * se ha salido (metros). En coche las calles son más anchas y el GPS
+ * va más rápido, así que el margen es mayor.
+ */
+const OFF_ROUTE_DISTANCE_M: Record<TravelMode, number> = {
+  driving: 50,
+  cycling: 35,
+  walking: 30,
+};
+
+/**
+ * Margen máximo que se añade por la imprecisión del GPS (metros)
+ */
+const MAX_ACCURACY_MARGIN_M = 50;
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * getCumulativeDistances: Distancia desde el inicio hasta cada vértice
+ *
+ * @param geometry - Coordenadas [lat, lon] de la ruta
+ * @returns Un valor por vértice (el primero es 0, el último la longitud total)
+ */
+export const getCumulativeDistances = (
+  geometry: [number, number][]
+): number[] => {
+  const cumulative = geometry.length > 0 ? [0] : [];
+  for (let i = 1; i < geometry.length; i++) {
+    cumulative.push(
+      cumulative[i - 1]! + getDistanceMeters(geometry[i - 1]!, geometry[i]!)
+    );
+  }
+  return cumulative;
+};
+
+/**
+ * snapToRoute: Punto de la ruta más cercano a una posición
+ *
+ * @param geometry - Coordenadas [lat, lon] de la ruta
+ * @param cumulative - Distancias acumuladas (ver getCumulativeDistances)
+ * @param point - Posición [lat, lon] del usuario
+ * @param fromDistance - Solo busca a partir de esta distancia (metros)
+ * @returns El punto sobre la línea, o null si la geometría está vacía
+ *
+ * fromDistance evita que, en una ruta que pasa dos veces por la misma
+ * calle, la posición salte a la segunda pasada antes de tiempo.
+ * Cada tramo se proyecta en metros alrededor de la posición: a estas
+ * distancias la curvatura de la Tierra no se nota.
+ */
+export const snapToRoute = (
+  geometry: [number, number][],
+  cumulative: number[],
+  point: [number, number],
+  fromDistance: number = 0
+): RouteSnap | null => {
+  if (geometry.length === 0) return null;
+
+  if (geometry.length === 1) {
+    return {
+      coordinates: geometry[0]!,
+      distanceFromRoute: getDistanceMeters(point, geometry[0]!),
+      distanceAlong: 0,
+      pointIndex: 0,
+    };
+  }
+
+  const [lat, lon] = point;
+  const lonScale = Math.cos((lat * Math.PI) / 180);
+  const toMeters = ([pLat, pLon]: [number, number]): [number, number] => [
+    (pLon - lon) * lonScale * METERS_PER_DEGREE,
+    (pLat - lat) * METERS_PER_DEGREE,
+  ];
+
+  const total = cumulative[cumulative.length - 1] ?? 0;
+  const from = Math.min(fromDistance, total);
+  let best: RouteSnap | null = null;
+
+  for (let i = 0; i < geometry.length - 1; i++) {
+    if (cumulative[i + 1]! < from) continue;
+
+    const a = geometry[i]!;
+    const b = geometry[i + 1]!;
+    const [ax, ay] = toMeters(a);
+    const [bx, by] = toMeters(b);
+    const dx = bx - ax;
+    const dy = by - ay;
+
+    // Proyección de la posición (el origen) sobre el tramo a-b
+    const lengthSq = dx * dx + dy * dy;
+    const ratio =
+      lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+    const distance = Math.hypot(ax + dx * ratio, ay + dy * ratio);
+
+    if (!best || distance < best.distanceFromRoute) {
+      best = {
+        coordinates: [a[0] + (b[0] - a[0]) * ratio, a[1] + (b[1] - a[1]) * ratio],
+        distanceFromRoute: distance,
+        distanceAlong: cumulative[i]! + (cumulative[i + 1]! - cumulative[i]!) * ratio,
+        pointIndex: i,
+      };
+    }
+  }
+
+  return best;
+};
+
+/**
+ * getRouteProgress: Avance sobre la ruta a partir de la distancia recorrida
+ *
+ * @param route - Ruta que se está siguiendo
+ * @param distanceAlong - Distancia recorrida sobre la geometría (ver snapToRoute)
+ * @param geometryLength - Longitud total de la geometría (metros)
+ * @returns Paso actual, siguiente maniobra y lo que queda hasta el destino
+ *
+ * Las distancias del motor y las medidas sobre la geometría no
+ * coinciden exactamente, así que la distancia recorrida se escala
+ * a la del motor (igual que en getClimbTimeFactor).
+ */
+export const getRouteProgress = (
+  route: Route,
+  distanceAlong: number,
+  geometryLength: number
+): NavigationProgress => {
+  const scale = geometryLength > 0 ? route.distance / geometryLength : 1;
+  const traveled = Math.max(0, Math.min(route.distance, distanceAlong * scale));
+  const distanceRemaining = route.distance - traveled;
+
+  const segments = route.segments;
+  const lastIndex = segments.length - 1;
+
+  // Paso en curso: el primero cuyo final aún no se ha alcanzado
+  let segmentIndex = Math.max(0, lastIndex);
+  let segmentStart = 0;
+  for (let i = 0, start = 0; i < segments.length; i++) {
+    const end = start + segments[i]!.distance;
+    if (traveled < end) {
+      segmentIndex = i;
+      segmentStart = start;
+      break;
+    }
+    start = end;
+    segmentStart = start;
+  }
+
+  const segment = segments[segmentIndex];
+  const segmentEnd = segmentStart + (segment?.distance ?? 0);
+  const nextSegmentIndex = segmentIndex < lastIndex ? segmentIndex + 1 : null;
+
+  // Tiempo: lo que queda del paso actual más los pasos siguientes
+  let durationRemaining: number;
+  if (segment) {
+    const segmentLeft =
+      segment.distance > 0
+        ? Math.max(0, segmentEnd - traveled) / segment.distance
+        : 0;
+    durationRemaining =
+      segment.duration * segmentLeft +
+      segments
+        .slice(segmentIndex + 1)
+        .reduce((sum, next) => sum + next.duration, 0);
+  } else {
+    durationRemaining =
+      route.distance > 0 ? (route.duration * distanceRemaining) / route.distance : 0;
+  }
+
+  // Paradas pasadas: tramos entre waypoints que ya se han completado
+  let completedLegs = 0;
+  const legs = route.legs ?? [];
+  for (let i = 0, end = 0; i < legs.length - 1; i++) {
+    end += legs[i]!.distance;
+    if (traveled < end) break;
+    completedLegs++;
+  }
+
+  return {
+    segmentIndex,
+    nextSegmentIndex,
+    distanceToManeuver:
+      nextSegmentIndex !== null ? Math.max(0, segmentEnd - traveled) : distanceRemaining,
+    distanceRemaining,
+    durationRemaining: Math.round(durationRemaining),
+    completedLegs,
+  };
+};
+
+/**
+ * getOffRouteDistance: Distancia a la ruta a partir de la cual el usuario se ha salido
+ *
+ * @param travelMode - Modo de transporte de la ruta
+ * @param accuracy - Precisión del GPS en metros
+ * @returns Umbral en metros (más amplio cuanto peor es la señal)
+ */
+export const getOffRouteDistance = (
+  travelMode: TravelMode,
+  accuracy: number
+): number => {
+  return (
+    OFF_ROUTE_DISTANCE_M[travelMode] +
+    Math.min(Math.max(0, accuracy), MAX_ACCURACY_MARGIN_M)
+  );
+};
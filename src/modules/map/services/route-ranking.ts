@@ -0,0 +1,86 @@
+/**
+ * ROUTE RANKING
+ *
+ * Ordena las rutas (principal + alternativas) según la preferencia
+ * del usuario:
+ * - fastest: menos tiempo primero
+ * - shortest: menos distancia primero
+ * - balanced: puntuación ponderada de tiempo y distancia
+ */
+
+import type {
+  Route,
+  RoutePreference,
+} from "../interfaces/routing.interfaces";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Pesos de la preferencia "balanced"
+ *
+ * El tiempo pesa un poco más que la distancia: una ruta un 10% más
+ * corta compensa si como mucho es un ~6% más lenta.
+ */
+const BALANCED_WEIGHTS = {
+  duration: 0.6,
+  distance: 0.4,
+};
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * getRouteScore: Puntuación de una ruta según la preferencia (menor = mejor)
+ *
+ * @param route - Ruta a puntuar
+ * @param preference - Preferencia del usuario
+ * @param routes - Todas las rutas candidatas (para normalizar en "balanced")
+ * @returns Puntuación comparable entre las rutas candidatas
+ *
+ * En "balanced" normalizamos respecto a la mejor de cada criterio,
+ * así segundos y metros se pueden sumar: 1.0 = igual que la mejor.
+ */
+export const getRouteScore = (
+  route: Route,
+  preference: RoutePreference,
+  routes: Route[]
+): number => {
+  switch (preference) {
+    case "shortest":
+      return route.distance;
+    case "balanced": {
+      const minDuration = Math.min(...routes.map((r) => r.duration)) || 1;
+      const minDistance = Math.min(...routes.map((r) => r.distance)) || 1;
+      return (
+        BALANCED_WEIGHTS.duration * (route.duration / minDuration) +
+        BALANCED_WEIGHTS.distance * (route.distance / minDistance)
+      );
+    }
+    case "fastest":
+    default:
+      return route.duration;
+  }
+};
+
+/**
+ * sortRoutesByPreference: Ordena las rutas de mejor a peor
+ *
+ * @param routes - Rutas a ordenar (no se modifica el array original)
+ * @param preference - Preferencia del usuario
+ * @returns Nuevo array ordenado (la primera es la recomendada)
+ *
+ * En caso de empate se mantiene el orden del motor de routing.
+ */
+export const sortRoutesByPreference = <T extends Route>(
+  routes: T[],
+  preference: RoutePreference
+): T[] => {
+  return [...routes].sort(
+    (a, b) =>
+      getRouteScore(a, preference, routes) -
+      getRouteScore(b, preference, routes)
+  );
+};
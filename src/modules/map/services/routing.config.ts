@@ -0,0 +1,139 @@
+/**
+ * CONFIGURACIÓN DEL ROUTING
+ *
+ * Decide qué motor de routing usa la app y dónde está.
+ * El orden de prioridad es:
+ * 1. Lo guardado en localStorage (cambiado en tiempo de ejecución)
+ * 2. Las variables de entorno VITE_ROUTING_* (fichero .env.local)
+ * 3. Los valores por defecto (servidor público de OSRM)
+ *
+ * Así se puede apuntar a un OSRM autoalojado sin tocar el código:
+ *   VITE_ROUTING_PROVIDER=osrm
+ *   VITE_ROUTING_BASE_URL=http://localhost:5000
+ *   VITE_ROUTING_CYCLING_URL=http://localhost:5001   (opcional, perfil bike)
+ *   VITE_ROUTING_WALKING_URL=http://localhost:5002   (opcional, perfil foot)
+ */
+
+import type {
+  RoutingProviderConfig,
+  RoutingProviderId,
+  TravelMode,
+} from "../interfaces/routing.interfaces";
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+/**
+ * URLs públicas por defecto de cada motor
+ */
+export const DEFAULT_PROVIDER_URLS: Record<RoutingProviderId, string> = {
+  osrm: "https://router.project-osrm.org",
+  graphhopper: "https://graphhopper.com/api/1",
+  valhalla: "https://valhalla1.openstreetmap.de",
+};
+
+/**
+ * Clave de localStorage donde se guarda la configuración elegida en runtime
+ */
+const STORAGE_KEY = "vueflet:routing-provider";
+
+const PROVIDER_IDS = Object.keys(DEFAULT_PROVIDER_URLS) as RoutingProviderId[];
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * isRoutingProviderId: Comprueba si un string es un motor soportado
+ */
+const isRoutingProviderId = (value: unknown): value is RoutingProviderId => {
+  return PROVIDER_IDS.includes(value as RoutingProviderId);
+};
+
+/**
+ * cleanProfileUrls: Quita los perfiles sin URL
+ *
+ * @returns Las URLs definidas, o undefined si no hay ninguna
+ */
+const cleanProfileUrls = (
+  urls: Partial<Record<TravelMode, string | undefined>> | undefined
+): RoutingProviderConfig["profileUrls"] => {
+  if (!urls) return undefined;
+
+  const entries = Object.entries(urls).filter(
+    (entry): entry is [TravelMode, string] =>
+      typeof entry[1] === "string" && entry[1].trim() !== ""
+  );
+
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * getEnvRoutingConfig: Configuración definida en las variables de entorno
+ *
+ * @returns Configuración de entorno o la de OSRM público si no hay nada
+ */
+const getEnvRoutingConfig = (): RoutingProviderConfig => {
+  const envProvider = import.meta.env.VITE_ROUTING_PROVIDER;
+  const id = isRoutingProviderId(envProvider) ? envProvider : "osrm";
+
+  if (envProvider && !isRoutingProviderId(envProvider)) {
+    console.warn(
+      `VITE_ROUTING_PROVIDER desconocido: "${envProvider}". Usando OSRM.`
+    );
+  }
+
+  return {
+    id,
+    baseUrl: import.meta.env.VITE_ROUTING_BASE_URL || DEFAULT_PROVIDER_URLS[id],
+    apiKey: import.meta.env.VITE_ROUTING_API_KEY || undefined,
+    profileUrls: cleanProfileUrls({
+      cycling: import.meta.env.VITE_ROUTING_CYCLING_URL,
+      walking: import.meta.env.VITE_ROUTING_WALKING_URL,
+    }),
+  };
+};
+
+/**
+ * loadRoutingConfig: Obtiene la configuración de routing activa
+ *
+ * @returns La configuración guardada en localStorage o la de entorno
+ */
+export const loadRoutingConfig = (): RoutingProviderConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<RoutingProviderConfig>;
+      if (isRoutingProviderId(parsed.id)) {
+        return {
+          id: parsed.id,
+          baseUrl: parsed.baseUrl || DEFAULT_PROVIDER_URLS[parsed.id],
+          apiKey: parsed.apiKey,
+          profileUrls: cleanProfileUrls(parsed.profileUrls),
+        };
+      }
+    }
+  } catch (error) {
+    console.warn("Configuración de routing guardada no válida:", error);
+  }
+
+  return getEnvRoutingConfig();
+};
+
+/**
+ * saveRoutingConfig: Guarda (o borra) la configuración elegida en runtime
+ *
+ * @param config - Configuración a guardar, o null para volver a la de entorno
+ */
+export const saveRoutingConfig = (config: RoutingProviderConfig | null) => {
+  try {
+    if (config) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn("No se pudo guardar la configuración de routing:", error);
+  }
+};
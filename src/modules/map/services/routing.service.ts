@@ -1,102 +1,89 @@
 /**
  * ROUTING SERVICE
  *
- * Este servicio se comunica con la API de OSRM (Open Source Routing Machine)
- * para calcular rutas entre múltiples puntos.
+ * Este servicio calcula rutas entre múltiples puntos delegando en un
+ * proveedor de routing (OSRM, GraphHopper o Valhalla).
  *
- * OSRM es gratuito y open source, perfecto para nuestra aplicación.
- * Documentación: http://project-osrm.org/docs/v5.24.0/api/
+ * El proveedor y su URL se eligen en tiempo de ejecución (ver routing.config.ts),
+ * así que podemos usar el OSRM público o uno autoalojado sin tocar el código.
  */
 
 import type {
+  DurationMethod,
   Route,
+  RouteLeg,
   RouteSegment,
+  RoutingProvider,
+  RoutingProviderConfig,
+  RoutingOptions,
   TravelMode,
+  TripOptimization,
   Waypoint,
   RoutingError,
 } from "../interfaces/routing.interfaces";
+import { createRoutingProvider } from "./providers";
+import { createRoutingError } from "./providers/provider.utils";
+import { createExplainedError } from "./providers/provider.errors";
+import { loadRoutingConfig, saveRoutingConfig } from "./routing.config";
+import { getPathDuration, solveTripOrder } from "./trip-optimizer";
+import { createRequestSignal } from "./request.utils";
+import { routeCache } from "./route-cache";
+import { isRateLimitError } from "./http-client";
+import { getClimbTimeFactor } from "./route-elevation";
+import type { ElevationProfile } from "../interfaces/elevation.interfaces";
+import { t } from "@/modules/i18n/i18n";
 
 // ============================================
 // CONFIGURACIÓN
 // ============================================
 
 /**
- * URL base de OSRM
- *
  * NOTA IMPORTANTE: El servidor público de OSRM solo proporciona routing
  * para coches (car). Los servidores de bike y foot NO están disponibles
  * públicamente debido a los altos requisitos de hardware (+128GB RAM).
  *
- * Solución: Usamos siempre la ruta de 'car' y calculamos los tiempos
- * nosotros mismos según el modo de transporte usando velocidades promedio.
+ * Solución: Si hay un servidor configurado para el perfil (o el motor los
+ * atiende todos, como GraphHopper o Valhalla), pedimos la ruta real en bici
+ * o a pie. Si no, pedimos la ruta en coche y estimamos los tiempos
+ * nosotros mismos usando velocidades promedio.
  */
-const OSRM_BASE_URL = "https://router.project-osrm.org/route/v1/car";
+const FALLBACK_TRAVEL_MODE: TravelMode = "driving";
 
 /**
  * Velocidades promedio para cada modo de transporte (km/h)
  *
  * Estas velocidades son estimaciones realistas:
- * - Driving: Usamos el tiempo de OSRM (es preciso para coches)
+ * - Driving: 40 km/h (solo si no tenemos tiempos del motor para coche)
  * - Cycling: 15 km/h (velocidad promedio en bici urbana)
  * - Walking: 5 km/h (velocidad promedio caminando)
  */
 const AVERAGE_SPEEDS: Record<TravelMode, number> = {
-  driving: 0, // No se usa, tomamos el tiempo de OSRM
+  driving: 40, // km/h
   cycling: 15, // km/h
   walking: 5, // km/h
 };
 
-// ============================================
-// INTERFACES INTERNAS (respuesta de OSRM)
-// ============================================
-
 /**
- * Estas interfaces definen cómo OSRM nos devuelve los datos.
- * Son diferentes a nuestras interfaces porque cada API tiene su formato.
+ * Tiempo máximo de espera de una petición al motor de rutas (ms)
+ * Pasado este tiempo se cancela y se lanza un error TIMEOUT
  */
+const ROUTE_TIMEOUT_MS = 15000;
 
-interface OSRMCoordinate {
-  /** [longitud, latitud] - ¡Cuidado! OSRM usa lon,lat (al revés de Leaflet) */
-  0: number;
-  1: number;
-}
-
-interface OSRMStep {
-  distance: number;
-  duration: number;
-  geometry: {
-    coordinates: OSRMCoordinate[];
-  };
-  name: string;
-  maneuver: {
-    type: string;
-    instruction?: string;
-  };
-}
-
-interface OSRMLeg {
-  distance: number;
-  duration: number;
-  steps: OSRMStep[];
-}
+/**
+ * Decimales de las coordenadas en la clave de la caché de rutas
+ * 5 decimales ≈ 1 metro: el mismo punto siempre da la misma clave
+ */
+const CACHE_COORDINATE_PRECISION = 5;
 
-interface OSRMRoute {
-  distance: number;
-  duration: number;
-  legs: OSRMLeg[];
-  geometry: {
-    coordinates: OSRMCoordinate[];
-  };
-}
+/**
+ * MatrixRoutingProvider: Proveedor que sabe calcular matrices de tiempos
+ */
+type MatrixRoutingProvider = RoutingProvider &
+  Required<Pick<RoutingProvider, "getMatrix">>;
 
-interface OSRMResponse {
-  code: string;
-  routes: OSRMRoute[];
-  waypoints: Array<{
-    location: OSRMCoordinate;
-    name: string;
-  }>;
-}
+const hasMatrix = (
+  provider: RoutingProvider
+): provider is MatrixRoutingProvider => provider.getMatrix !== undefined;
 
 // ============================================
 // CLASE DEL SERVICIO
@@ -105,21 +92,128 @@ interface OSRMResponse {
 /**
  * RoutingService: Servicio para calcular rutas
  *
- * Esta clase encapsula toda la lógica de comunicación con OSRM
+ * Esta clase encapsula la elección del proveedor de routing y el
+ * ajuste de tiempos según el modo de transporte
  */
 class RoutingService {
+  /** Proveedor de routing activo */
+  private provider: RoutingProvider;
+
+  /** Proveedores dedicados a un perfil concreto (servidores OSRM de bici/pie) */
+  private profileProviders: Partial<Record<TravelMode, RoutingProvider>> = {};
+
+  /** Configuración con la que se creó el proveedor activo */
+  private providerConfig: RoutingProviderConfig;
+
+  /**
+   * @param config - Configuración del proveedor (por defecto la de routing.config.ts)
+   */
+  constructor(config: RoutingProviderConfig = loadRoutingConfig()) {
+    this.providerConfig = config;
+    this.provider = createRoutingProvider(config);
+    this.profileProviders = this.createProfileProviders(config);
+  }
+
+  /**
+   * getProviderConfig: Devuelve la configuración del proveedor activo
+   */
+  getProviderConfig(): RoutingProviderConfig {
+    return { ...this.providerConfig };
+  }
+
+  /**
+   * setProvider: Cambia el proveedor de routing en tiempo de ejecución
+   *
+   * @param config - Nueva configuración, o null para volver a la de entorno
+   * @param persist - Guardar la elección en localStorage (por defecto true)
+   *
+   * Ejemplo (OSRM autoalojado):
+   * routingService.setProvider({ id: 'osrm', baseUrl: 'http://localhost:5000' });
+   */
+  setProvider(config: RoutingProviderConfig | null, persist: boolean = true) {
+    if (persist) {
+      saveRoutingConfig(config);
+    }
+    this.providerConfig = config ?? loadRoutingConfig();
+    this.provider = createRoutingProvider(this.providerConfig);
+    this.profileProviders = this.createProfileProviders(this.providerConfig);
+  }
+
+  /**
+   * hasRoutedProfile: ¿Podemos pedir al motor rutas reales para este modo?
+   *
+   * @param travelMode - Modo de transporte
+   * @returns true si hay servidor para el perfil (o el motor los tiene todos)
+   *
+   * Si devuelve false, las rutas de ese modo se calculan en coche
+   * y se estima su duración con velocidades promedio.
+   */
+  hasRoutedProfile(travelMode: TravelMode): boolean {
+    return (
+      travelMode === FALLBACK_TRAVEL_MODE ||
+      this.provider.multiProfile ||
+      this.profileProviders[travelMode] !== undefined
+    );
+  }
+
+  /**
+   * createProfileProviders: Crea un proveedor por cada servidor de perfil
+   *
+   * @param config - Configuración con las URLs de cada perfil
+   * @returns Mapa modo -> proveedor dedicado
+   */
+  private createProfileProviders(
+    config: RoutingProviderConfig
+  ): Partial<Record<TravelMode, RoutingProvider>> {
+    const providers: Partial<Record<TravelMode, RoutingProvider>> = {};
+
+    Object.entries(config.profileUrls || {}).forEach(([mode, baseUrl]) => {
+      if (baseUrl) {
+        providers[mode as TravelMode] = createRoutingProvider({
+          ...config,
+          baseUrl,
+        });
+      }
+    });
+
+    return providers;
+  }
+
+  /**
+   * resolveProvider: Decide a quién y con qué perfil pedir la ruta
+   *
+   * @param travelMode - Modo de transporte elegido por el usuario
+   * @returns Proveedor y perfil a solicitar
+   */
+  private resolveProvider(travelMode: TravelMode): {
+    provider: RoutingProvider;
+    profile: TravelMode;
+  } {
+    const dedicated = this.profileProviders[travelMode];
+    if (dedicated) {
+      return { provider: dedicated, profile: travelMode };
+    }
+
+    if (this.hasRoutedProfile(travelMode)) {
+      return { provider: this.provider, profile: travelMode };
+    }
+
+    // Sin servidor para el perfil: ruta en coche + tiempos estimados
+    return { provider: this.provider, profile: FALLBACK_TRAVEL_MODE };
+  }
+
   /**
    * getRoute: Calcula una ruta entre múltiples waypoints
    *
    * @param waypoints - Array de waypoints ordenados (origen, paradas, destino)
-   * @param travelMode - Modo de transporte
+   * @param options - Opciones de la ruta (modo de transporte, vías a evitar...)
    * @returns Promise con la ruta calculada
    * @throws RoutingError si algo falla
    *
    * Ejemplo de uso:
    * const route = await routingService.getRoute(
    *   [originWaypoint, destinationWaypoint],
-   *   'driving'
+   *   { travelMode: 'driving' }
    * );
    *
    * NOTA: Este método devuelve solo la ruta principal.
@@ -127,11 +221,11 @@ class RoutingService {
    */
   async getRoute(
     waypoints: Waypoint[],
-    travelMode: TravelMode
+    options: RoutingOptions
   ): Promise<Route> {
-    const routes = await this.getRoutes(waypoints, travelMode, 0);
+    const routes = await this.getRoutes(waypoints, options, 0);
     if (!routes[0]) {
-      throw this.createError("NO_ROUTE", "No se pudo calcular ninguna ruta");
+      throw this.createError("NO_ROUTE", t("errors.noRouteFound"));
     }
     return routes[0];
   }
@@ -140,193 +234,290 @@ class RoutingService {
    * getRoutes: Calcula múltiples rutas alternativas
    *
    * @param waypoints - Array de waypoints ordenados (origen, paradas, destino)
-   * @param travelMode - Modo de transporte
+   * @param options - Opciones de la ruta (modo de transporte, vías a evitar...)
    * @param maxAlternatives - Número máximo de rutas alternativas (por defecto 2)
+   * @param signal - Señal para cancelar la petición (opcional)
    * @returns Promise con array de rutas (la primera es la principal)
-   * @throws RoutingError si algo falla
+   * @throws RoutingError si algo falla (TIMEOUT si el motor no responde a tiempo)
+   * @throws El motivo de la cancelación (AbortError) si se aborta con signal
    *
    * Ejemplo de uso:
    * const routes = await routingService.getRoutes(
    *   [originWaypoint, destinationWaypoint],
-   *   'driving',
+   *   { travelMode: 'driving', avoidTolls: true },
    *   2 // Devuelve hasta 3 rutas (1 principal + 2 alternativas)
    * );
    */
   async getRoutes(
     waypoints: Waypoint[],
-    travelMode: TravelMode,
-    maxAlternatives: number = 2
+    options: RoutingOptions,
+    maxAlternatives: number = 2,
+    signal?: AbortSignal
   ): Promise<Route[]> {
     // Validación: necesitamos al menos 2 waypoints
     if (waypoints.length < 2) {
       throw this.createError(
         "INVALID_WAYPOINTS",
-        "Se necesitan al menos 2 waypoints (origen y destino)"
+        t("errors.missingWaypoints")
       );
     }
 
-    try {
-      // 1. Construir la URL de la API con soporte para alternativas
-      const url = this.buildOSRMUrl(waypoints, travelMode, maxAlternatives);
-
-      // 2. Hacer la petición HTTP
-      const response = await fetch(url);
-
-      // 3. Verificar que la respuesta sea exitosa
-      if (!response.ok) {
-        throw this.createError(
-          "NETWORK_ERROR",
-          `Error en la petición: ${response.status} ${response.statusText}`
-        );
-      }
-
-      // 4. Parsear la respuesta JSON
-      const data: OSRMResponse = await response.json();
-
-      // 5. Verificar que OSRM encontró al menos una ruta
-      if (data.code !== "Ok" || !data.routes || data.routes.length === 0) {
-        throw this.createError(
-          "NO_ROUTE",
-          "No se encontró ninguna ruta entre los puntos especificados"
-        );
-      }
+    const request = createRequestSignal(ROUTE_TIMEOUT_MS, signal);
 
-      // 6. Transformar TODAS las rutas de OSRM a nuestro formato
-      const routes = data.routes.map((osrmRoute, index) =>
-        this.transformOSRMRoute(osrmRoute, waypoints, travelMode, index)
+    try {
+      const { travelMode } = options;
+
+      // 1. Elegir proveedor y perfil (real si existe, coche si no)
+      const { provider, profile } = this.resolveProvider(travelMode);
+
+      // 2. Pedir las rutas al proveedor con el perfil elegido,
+      //    salvo que ya las tengamos en caché
+      const providerRoutes = await this.getProviderRoutes(
+        provider,
+        waypoints,
+        { ...options, travelMode: profile },
+        maxAlternatives,
+        request.signal
       );
 
-      // Rutas calculadas
-
-      return routes;
+      // 3. Marcar los tiempos como reales del motor y, si pedimos otro
+      //    perfil, estimarlos para el modo de transporte elegido
+      return providerRoutes.map((route) =>
+        this.recalculateRouteTimes(
+          {
+            ...route,
+            options: { ...options, travelMode: profile },
+            providerTravelMode: profile,
+            durationMethod: "routed",
+          },
+          travelMode
+        )
+      );
     } catch (error) {
-      // Si es un RoutingError que ya creamos, lo lanzamos tal cual
-      if (this.isRoutingError(error)) {
-        throw error;
-      }
-
-      // Si es otro tipo de error, lo envolvemos
-      console.error("❌ Error calculando rutas:", error);
-      throw this.createError("API_ERROR", "Error al calcular las rutas", error);
+      throw this.normalizeError(
+        error,
+        signal,
+        request.timedOut(),
+        t("errors.routeFailed")
+      );
+    } finally {
+      request.dispose();
     }
   }
 
   /**
-   * buildOSRMUrl: Construye la URL para la API de OSRM
+   * getProviderRoutes: Rutas del proveedor pasando por la caché
    *
-   * @param waypoints - Array de waypoints
-   * @param _travelMode - Modo de transporte (no se usa, siempre usamos 'car')
-   * @param alternatives - Número de rutas alternativas a solicitar (por defecto 2)
-   * @returns URL completa para hacer la petición
+   * @returns Las rutas en caché (con los waypoints actuales) o las del motor
    *
-   * Formato de la URL:
-   * https://router.project-osrm.org/route/v1/car/lon1,lat1;lon2,lat2?...
+   * Solo se guardan las respuestas correctas: los errores siempre
+   * se vuelven a intentar. Las rutas en caché salen con id y hora de
+   * cálculo nuevos, como si acabaran de llegar del motor (dos cálculos
+   * nunca comparten id)
+   */
+  private async getProviderRoutes(
+    provider: RoutingProvider,
+    waypoints: Waypoint[],
+    options: RoutingOptions,
+    maxAlternatives: number,
+    signal: AbortSignal
+  ): Promise<Route[]> {
+    const key = this.getCacheKey(provider, waypoints, options, maxAlternatives);
+
+    const cached = await routeCache.get(key);
+    if (cached) {
+      return cached.map((route) => ({
+        ...route,
+        id: crypto.randomUUID(),
+        calculatedAt: new Date(),
+        waypoints,
+      }));
+    }
+
+    const routes = await provider.getRoutes(
+      waypoints,
+      options,
+      maxAlternatives,
+      signal
+    );
+    routeCache.set(key, routes);
+    return routes;
+  }
+
+  /**
+   * getCacheKey: Clave de caché de una petición de rutas
    *
-   * NOTA: Siempre usamos el servidor 'car' porque es el único disponible
-   * públicamente. Los tiempos se ajustarán después según el modo.
+   * @returns Ejemplo: "osrm|https://router.project-osrm.org|driving|--T|2|40.41680,-3.70380;..."
+   *
+   * Incluye el motor, el perfil, las vías a evitar, el número de
+   * alternativas y las coordenadas redondeadas. La preferencia
+   * (más rápida, más corta...) no cuenta: solo cambia cómo ordenamos
+   * las rutas, no lo que devuelve el motor.
    */
-  private buildOSRMUrl(
+  private getCacheKey(
+    provider: RoutingProvider,
     waypoints: Waypoint[],
-    _travelMode: TravelMode,
-    alternatives: number = 2
+    options: RoutingOptions,
+    maxAlternatives: number
   ): string {
-    // Siempre usar el servidor 'car'
-    const baseUrl = OSRM_BASE_URL;
+    const avoid = [
+      options.avoidHighways ? "H" : "-",
+      options.avoidTolls ? "T" : "-",
+      options.avoidFerries ? "F" : "-",
+    ].join("");
 
-    // Convertir waypoints a formato "lon,lat;lon,lat;..."
-    // ¡Importante! OSRM usa [longitud, latitud], pero nosotros usamos [lat, lon]
     const coordinates = waypoints
-      .map((wp) => `${wp.coordinates[1]},${wp.coordinates[0]}`) // [lon,lat]
+      .map(({ coordinates: [lat, lon] }) =>
+        [
+          lat.toFixed(CACHE_COORDINATE_PRECISION),
+          lon.toFixed(CACHE_COORDINATE_PRECISION),
+        ].join(",")
+      )
       .join(";");
 
-    // Parámetros de la API
-    const params = new URLSearchParams({
-      overview: "full", // Queremos toda la geometría de la ruta
-      geometries: "geojson", // Formato GeoJSON (más fácil de usar)
-      steps: "true", // Queremos los pasos detallados
-      annotations: "false", // No necesitamos anotaciones extra
-      alternatives: alternatives.toString(), // 🆕 Pedir rutas alternativas (true o número)
-      continue_straight: "default", // 🆕 Permitir giros en U si es necesario
-    });
-
-    return `${baseUrl}/${coordinates}?${params.toString()}`;
+    return [
+      provider.id,
+      provider.baseUrl,
+      options.travelMode,
+      avoid,
+      maxAlternatives,
+      coordinates,
+    ].join("|");
   }
 
   /**
-   * transformOSRMRoute: Transforma la respuesta de OSRM a nuestro formato
+   * optimizeWaypointOrder: Busca el orden de paradas que minimiza el tiempo
    *
-   * @param osrmRoute - Ruta en formato OSRM
-   * @param waypoints - Waypoints originales
-   * @param travelMode - Modo de transporte
-   * @param alternativeIndex - Índice de la alternativa (0 = principal, 1+ = alternativas)
-   * @returns Ruta en nuestro formato
+   * @param waypoints - Waypoints ordenados (origen, paradas, destino)
+   * @param options - Opciones de la ruta
+   * @param roundTrip - true: volver al origen (el destino pasa a ser una parada más)
+   * @param signal - Señal para cancelar la petición (opcional)
+   * @returns Nuevo orden y duraciones antes/después (no modifica los waypoints)
+   * @throws RoutingError si no se puede obtener la matriz de tiempos
    *
-   * Esta función es el "traductor" entre el formato de OSRM y el nuestro.
-   * IMPORTANTE: OSRM solo devuelve tiempos para 'car', así que para 'cycling'
-   * y 'walking' calculamos los tiempos manualmente usando velocidades promedio.
+   * El origen siempre se queda el primero; sin ida y vuelta, el destino
+   * se queda el último. Primero se prueba el servicio /trip del motor;
+   * si no está disponible, se usa la heurística local sobre la matriz
+   * de tiempos del motor. Nos quedamos con el orden más rápido de los dos.
+   * Todo se pide al motor configurado, con el mismo perfil que la ruta.
    */
-  private transformOSRMRoute(
-    osrmRoute: OSRMRoute,
+  async optimizeWaypointOrder(
     waypoints: Waypoint[],
-    travelMode: TravelMode,
-    alternativeIndex: number = 0
-  ): Route {
-    // Extraer todos los segmentos de todas las "legs" (tramos entre waypoints)
-    const segments: RouteSegment[] = [];
-    let segmentIndex = 0;
-
-    // OSRM organiza la ruta en "legs" (tramos entre cada par de waypoints)
-    // Nosotros queremos todos los steps de todos los legs en un solo array
-    osrmRoute.legs.forEach((leg) => {
-      leg.steps.forEach((step) => {
-        // Para cycling y walking, recalculamos la duración basada en la distancia
-        const duration =
-          travelMode === "driving"
-            ? step.duration
-            : this.calculateDuration(step.distance, travelMode);
-
-        segments.push({
-          distance: step.distance,
-          duration,
-          instruction: this.buildInstruction(step),
-          coordinates: this.convertCoordinates(step.geometry.coordinates),
-          index: segmentIndex++,
-        });
-      });
-    });
+    options: RoutingOptions,
+    roundTrip: boolean = false,
+    signal?: AbortSignal
+  ): Promise<TripOptimization> {
+    if (waypoints.length < 3) {
+      throw this.createError(
+        "INVALID_WAYPOINTS",
+        t("errors.optimizationNeedsStops")
+      );
+    }
 
-    // Convertir toda la geometría de la ruta
-    // Esta es la línea completa que vamos a dibujar en el mapa
-    const geometry = this.convertCoordinates(osrmRoute.geometry.coordinates);
+    const request = createRequestSignal(ROUTE_TIMEOUT_MS, signal);
 
-    // Para cycling y walking, recalcular la duración total
-    const totalDuration =
-      travelMode === "driving"
-        ? osrmRoute.duration
-        : this.calculateDuration(osrmRoute.distance, travelMode);
+    try {
+      const { travelMode } = options;
+      const { provider, profile } = this.resolveOptimizationProvider(travelMode);
+      const providerOptions = { ...options, travelMode: profile };
+
+      // 1. Matriz de tiempos (estimados si el perfil no es el pedido)
+      const matrix = await provider.getMatrix(
+        waypoints,
+        providerOptions,
+        request.signal
+      );
+      const durationMethod: DurationMethod =
+        profile === travelMode ? "routed" : "estimated";
+      const durations =
+        durationMethod === "routed"
+          ? matrix.durations
+          : matrix.distances.map((row) =>
+              row.map((distance) => this.calculateDuration(distance, travelMode))
+            );
+
+      // 2. Extremos fijos y paradas que se pueden mover
+      const last = waypoints.length - 1;
+      const end = roundTrip ? 0 : last;
+      const stops = Array.from(
+        { length: roundTrip ? last : last - 1 },
+        (_, index) => index + 1
+      );
 
-    // Guardar los tiempos originales de OSRM para poder restaurarlos
-    const osrmSegmentDurations = osrmRoute.legs.flatMap((leg) =>
-      leg.steps.map((step) => step.duration)
-    );
+      // 3. Heurística local sobre la matriz
+      const originalPath = [0, ...stops, end];
+      let bestPath = [0, ...solveTripOrder(durations, 0, end, stops), end];
+      let method: TripOptimization["method"] = "table";
+
+      // 4. Servicio /trip del motor, si lo tiene y mejora la heurística
+      if (provider.getTripOrder) {
+        try {
+          const order = await provider.getTripOrder(
+            waypoints,
+            providerOptions,
+            roundTrip,
+            request.signal
+          );
+          const tripPath = roundTrip ? [...order, 0] : order;
+          if (
+            getPathDuration(durations, tripPath) <
+            getPathDuration(durations, bestPath)
+          ) {
+            bestPath = tripPath;
+            method = "trip";
+          }
+        } catch (error) {
+          // Cancelación o timeout: no tiene sentido seguir con la heurística
+          if (request.signal.aborted) {
+            throw error;
+          }
+          console.warn("⚠️ /trip no disponible, se usa la heurística:", error);
+        }
+      }
 
-    // Crear la ruta en nuestro formato
-    const route: Route = {
-      id: crypto.randomUUID(),
-      distance: osrmRoute.distance, // La distancia es la misma para todos los modos
-      duration: totalDuration, // Pero la duración varía según el modo
-      segments,
-      geometry,
-      travelMode,
-      calculatedAt: new Date(),
-      waypoints,
-      osrmDuration: osrmRoute.duration, // Guardar tiempo original de OSRM
-      osrmSegmentDurations, // Guardar tiempos de cada segmento
-      alternativeIndex, // 🆕 Índice de alternativa (0 = principal, 1+ = alternativa)
-      isSelected: alternativeIndex === 0, // 🆕 Por defecto, solo la principal está seleccionada
-    };
+      return {
+        order: roundTrip ? bestPath.slice(0, -1) : bestPath,
+        roundTrip,
+        originalDuration: getPathDuration(durations, originalPath),
+        optimizedDuration: getPathDuration(durations, bestPath),
+        method,
+        durationMethod,
+      };
+    } catch (error) {
+      throw this.normalizeError(
+        error,
+        signal,
+        request.timedOut(),
+        t("errors.optimizationFailed")
+      );
+    } finally {
+      request.dispose();
+    }
+  }
+
+  /**
+   * resolveOptimizationProvider: Proveedor con matriz de tiempos
+   *
+   * @param travelMode - Modo de transporte elegido por el usuario
+   * @returns El mismo proveedor y perfil que para las rutas
+   * @throws RoutingError si ese proveedor no tiene matriz de tiempos
+   *
+   * Las paradas nunca se mandan a otro servidor: si el motor
+   * configurado no puede optimizar, se avisa al usuario.
+   */
+  private resolveOptimizationProvider(travelMode: TravelMode): {
+    provider: MatrixRoutingProvider;
+    profile: TravelMode;
+  } {
+    const { provider, profile } = this.resolveProvider(travelMode);
+    if (!hasMatrix(provider)) {
+      throw this.createError(
+        "API_ERROR",
+        t("errors.optimizationUnsupported")
+      );
+    }
 
-    return route;
+    return { provider, profile };
   }
 
   /**
@@ -337,8 +528,11 @@ class RoutingService {
    * @returns Ruta con tiempos recalculados
    *
    * Este método NO llama a la API. Solo recalcula las duraciones:
-   * - Para driving: usa los tiempos originales de OSRM (precisos)
-   * - Para cycling/walking: calcula basándose en velocidades promedio
+   * - Para el perfil con el que se calculó la ruta: usa los tiempos
+   *   originales del motor (precisos)
+   * - Para cualquier otro modo: calcula basándose en velocidades promedio
+   *   (en bici y a pie, corregidas por la pendiente si la ruta ya
+   *   tiene su perfil de elevación)
    */
   recalculateRouteTimes(route: Route, newTravelMode: TravelMode): Route {
     // Si el modo no cambió, devolver la ruta sin cambios
@@ -348,21 +542,32 @@ class RoutingService {
 
     let totalDuration: number;
     let updatedSegments: RouteSegment[];
+    let updatedLegs: RouteLeg[] | undefined;
+    let durationMethod: DurationMethod;
 
-    if (newTravelMode === "driving") {
-      // Para driving, restaurar los tiempos originales de OSRM
+    // Rutas antiguas sin providerTravelMode siempre se pedían en coche
+    const providerTravelMode = route.providerTravelMode ?? FALLBACK_TRAVEL_MODE;
+
+    if (newTravelMode === providerTravelMode) {
+      // Volvemos al perfil del motor: restaurar sus tiempos originales
       totalDuration = route.osrmDuration || route.duration;
       updatedSegments = route.segments.map((segment, index) => ({
         ...segment,
         duration: route.osrmSegmentDurations?.[index] || segment.duration,
       }));
-    } else {
-      // Para cycling/walking, calcular basándose en la distancia
-      totalDuration = this.calculateDuration(route.distance, newTravelMode);
-      updatedSegments = route.segments.map((segment) => ({
-        ...segment,
-        duration: this.calculateDuration(segment.distance, newTravelMode),
+      updatedLegs = route.legs?.map((leg, index) => ({
+        ...leg,
+        duration: route.osrmLegDurations?.[index] || leg.duration,
       }));
+      durationMethod = "routed";
+    } else {
+      // Para otro modo, calcular basándose en la distancia (y la pendiente)
+      ({
+        duration: totalDuration,
+        segments: updatedSegments,
+        legs: updatedLegs,
+      } = this.estimateRouteTimes(route, newTravelMode));
+      durationMethod = "estimated";
     }
 
     // Crear nueva ruta con tiempos actualizados y nuevo ID
@@ -370,54 +575,84 @@ class RoutingService {
       ...route,
       id: crypto.randomUUID(), // 🆕 Nuevo ID para forzar actualización de UI
       segments: updatedSegments,
+      legs: updatedLegs,
       duration: totalDuration,
       travelMode: newTravelMode,
+      options: route.options && { ...route.options, travelMode: newTravelMode },
+      durationMethod,
       calculatedAt: new Date(),
     };
   }
 
   /**
-   * buildInstruction: Construye una instrucción legible
+   * applyElevation: Añade el perfil de elevación a una ruta
    *
-   * @param step - Step de OSRM
-   * @returns Instrucción en español
+   * @param route - Ruta a la que pertenece el perfil
+   * @param elevation - Perfil de elevación de su geometría
+   * @returns Ruta con el perfil (mismo ID: es la misma ruta)
    *
-   * Ejemplos:
-   * - "Continúa por Calle Mayor"
-   * - "Gira a la derecha en Plaza España"
+   * Si los tiempos de la ruta son estimados, se vuelven a estimar
+   * teniendo en cuenta las pendientes. Los tiempos del motor no se
+   * tocan: el motor ya sabe cómo es el terreno.
    */
-  private buildInstruction(step: OSRMStep): string {
-    const streetName = step.name || "la carretera";
-    const maneuverType = step.maneuver.type;
-
-    // Mapeo de tipos de maniobra a texto en español
-    const maneuverTexts: Record<string, string> = {
-      depart: `Sal hacia ${streetName}`,
-      arrive: `Llegarás a tu destino`,
-      turn: `Gira en ${streetName}`,
-      "new name": `Continúa por ${streetName}`,
-      continue: `Continúa por ${streetName}`,
-      merge: `Incorpórate a ${streetName}`,
-      "on ramp": `Toma la rampa hacia ${streetName}`,
-      "off ramp": `Sal por la rampa hacia ${streetName}`,
-      fork: `En la bifurcación, toma ${streetName}`,
-      roundabout: `En la rotonda, toma ${streetName}`,
-      rotary: `En la rotonda, toma ${streetName}`,
-    };
+  applyElevation(route: Route, elevation: ElevationProfile): Route {
+    const withElevation = { ...route, elevation };
+    if (route.durationMethod !== "estimated") {
+      return withElevation;
+    }
 
-    return maneuverTexts[maneuverType] || `Continúa por ${streetName}`;
+    return {
+      ...withElevation,
+      ...this.estimateRouteTimes(withElevation, route.travelMode),
+    };
   }
 
   /**
-   * convertCoordinates: Convierte coordenadas de OSRM a nuestro formato
+   * estimateRouteTimes: Tiempos estimados de la ruta, sus pasos y sus tramos
    *
-   * @param coords - Coordenadas en formato OSRM [lon, lat]
-   * @returns Coordenadas en nuestro formato [lat, lon]
+   * @param route - Ruta (con o sin perfil de elevación)
+   * @param travelMode - Modo de transporte
+   * @returns Duración total, pasos y tramos con los tiempos estimados
    *
-   * ¡Importante! OSRM usa [longitud, latitud] pero Leaflet usa [lat, lon]
+   * Cada paso y cada tramo se corrige con la pendiente de su parte
+   * de la ruta (ver getClimbTimeFactor)
    */
-  private convertCoordinates(coords: OSRMCoordinate[]): [number, number][] {
-    return coords.map((coord) => [coord[1], coord[0]]); // [lat, lon]
+  private estimateRouteTimes(
+    route: Route,
+    travelMode: TravelMode
+  ): Pick<Route, "duration" | "segments" | "legs"> {
+    const estimate = (from: number, distance: number) => {
+      const factor = route.elevation
+        ? getClimbTimeFactor(
+            route.elevation,
+            from,
+            from + distance,
+            route.distance,
+            travelMode
+          )
+        : 1;
+      return Math.round(this.calculateDuration(distance, travelMode) * factor);
+    };
+
+    let segmentStart = 0;
+    const segments = route.segments.map((segment) => {
+      const duration = estimate(segmentStart, segment.distance);
+      segmentStart += segment.distance;
+      return { ...segment, duration };
+    });
+
+    let legStart = 0;
+    const legs = route.legs?.map((leg) => {
+      const duration = estimate(legStart, leg.distance);
+      legStart += leg.distance;
+      return { ...leg, duration };
+    });
+
+    return {
+      duration: estimate(0, route.distance),
+      segments,
+      legs,
+    };
   }
 
   /**
@@ -427,8 +662,9 @@ class RoutingService {
    * @param travelMode - Modo de transporte
    * @returns Duración estimada en segundos
    *
-   * Para 'driving', usamos la duración de OSRM (pasada como distanceMeters por simplicidad).
-   * Para 'cycling' y 'walking', calculamos en base a velocidades promedio:
+   * Solo se usa cuando el motor no nos da tiempos para ese modo.
+   * Calculamos en base a velocidades promedio:
+   * - Coche: 40 km/h
    * - Bicicleta: 15 km/h
    * - Andando: 5 km/h
    *
@@ -445,6 +681,57 @@ class RoutingService {
     return Math.round(durationSeconds);
   }
 
+  /**
+   * normalizeError: Convierte cualquier fallo de una petición en lo que se lanza
+   *
+   * @param error - Error capturado
+   * @param signal - Señal de cancelación del llamador
+   * @param timedOut - ¿Se agotó el tiempo de espera?
+   * @param message - Mensaje si hay que envolverlo como API_ERROR
+   * @returns El motivo de la cancelación (el llamador lo descarta),
+   *          un RoutingError TIMEOUT, RATE_LIMITED u OFFLINE,
+   *          el RoutingError original o uno nuevo
+   */
+  private normalizeError(
+    error: unknown,
+    signal: AbortSignal | undefined,
+    timedOut: boolean,
+    message: string
+  ): unknown {
+    // Cancelada por el llamador: se propaga el motivo sin avisar
+    if (signal?.aborted) {
+      return signal.reason;
+    }
+
+    if (timedOut) {
+      return createExplainedError("TIMEOUT", error);
+    }
+
+    // Sin conexión: fetch falla antes de llegar al servidor
+    if (typeof navigator !== "undefined" && navigator.onLine === false) {
+      return createExplainedError("OFFLINE", error);
+    }
+
+    // El servidor nos limita: el cliente HTTP ya agotó los reintentos
+    if (isRateLimitError(error)) {
+      return this.createError("RATE_LIMITED", error.message, error);
+    }
+
+    // Si es un RoutingError que ya creamos, lo lanzamos tal cual
+    if (this.isRoutingError(error)) {
+      return error;
+    }
+
+    // fetch lanza TypeError cuando no llega al servidor (CORS, DNS, caído)
+    if (error instanceof TypeError) {
+      return createExplainedError("NETWORK_ERROR", error);
+    }
+
+    // Si es otro tipo de error, lo envolvemos
+    console.error(`❌ ${message}:`, error);
+    return this.createError("API_ERROR", message, error);
+  }
+
   /**
    * createError: Crea un error de routing
    *
@@ -458,11 +745,7 @@ class RoutingService {
     message: string,
     details?: any
   ): RoutingError {
-    return {
-      code,
-      message,
-      details,
-    };
+    return createRoutingError(code, message, details);
   }
 
   /**
@@ -0,0 +1,242 @@
+/**
+ * SAVED PLACES
+ *
+ * Guarda los lugares del usuario en localStorage y los convierte
+ * a GeoJSON (y desde GeoJSON) para exportarlos o importarlos.
+ *
+ * Formato GeoJSON: un FeatureCollection de puntos con las propiedades
+ * label, category, name, placeId y createdAt. Al importar se aceptan
+ * también puntos de otras apps: si no traen label se usa "name" o
+ * "title", y si no traen categoría se guardan como favoritos.
+ */
+
+import type { Place } from "../interfaces/place.interfaces";
+import type {
+  SavedPlace,
+  SavedPlaceCategory,
+} from "../interfaces/saved-place.interfaces";
+import { formatCoordinates } from "./geocoders";
+import { normalizeSearchText } from "./text.utils";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Clave de localStorage donde se guardan los lugares
+ */
+const STORAGE_KEY = "vueflet:saved-places";
+
+/**
+ * Categorías en el orden en que se muestran (Casa, Trabajo y el resto)
+ */
+export const SAVED_PLACE_CATEGORIES: SavedPlaceCategory[] = [
+  "home",
+  "work",
+  "favorite",
+];
+
+/**
+ * Icono de cada categoría en las listas
+ */
+export const SAVED_PLACE_ICONS: Record<SavedPlaceCategory, string> = {
+  home: "🏠",
+  work: "💼",
+  favorite: "⭐",
+};
+
+// ============================================
+// PERSISTENCIA
+// ============================================
+
+/**
+ * loadSavedPlaces: Lugares guardados en este navegador
+ *
+ * @returns Los lugares válidos (los que no se entienden se descartan)
+ */
+export const loadSavedPlaces = (): SavedPlace[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      throw new Error("No es una lista de lugares");
+    }
+    return parsed.filter(isSavedPlace);
+  } catch (error) {
+    console.warn("Lugares guardados no válidos:", error);
+    return [];
+  }
+};
+
+/**
+ * storeSavedPlaces: Guarda la lista de lugares
+ */
+export const storeSavedPlaces = (places: SavedPlace[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(places));
+  } catch (error) {
+    console.warn("No se pudieron guardar los lugares:", error);
+  }
+};
+
+// ============================================
+// GEOJSON
+// ============================================
+
+/**
+ * savedPlacesToGeoJson: Exporta los lugares como GeoJSON
+ *
+ * @returns Texto del FeatureCollection (GeoJSON usa [lon, lat])
+ */
+export const savedPlacesToGeoJson = (places: SavedPlace[]): string => {
+  const collection = {
+    type: "FeatureCollection",
+    features: places.map((place) => ({
+      type: "Feature",
+      geometry: {
+        type: "Point",
+        coordinates: [place.coordinates[1], place.coordinates[0]],
+      },
+      properties: {
+        label: place.label,
+        category: place.category,
+        name: place.name,
+        placeId: place.placeId,
+        createdAt: new Date(place.createdAt).toISOString(),
+      },
+    })),
+  };
+
+  return JSON.stringify(collection, null, 2);
+};
+
+/**
+ * parseSavedPlacesGeoJson: Lee lugares de un GeoJSON
+ *
+ * @param text - Contenido del archivo
+ * @returns Lugares nuevos (con ID propio), en el orden del archivo
+ * @throws Error si no es GeoJSON o no tiene ningún punto
+ */
+export const parseSavedPlacesGeoJson = (text: string): SavedPlace[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es GeoJSON");
+  }
+
+  const features: any[] =
+    data?.type === "FeatureCollection" && Array.isArray(data.features)
+      ? data.features
+      : data?.type === "Feature"
+      ? [data]
+      : [];
+
+  const now = Date.now();
+  const places = features.flatMap((feature): SavedPlace[] => {
+    if (feature?.geometry?.type !== "Point") return [];
+    // Archivo editado a mano: coordinates puede ser cualquier cosa
+    if (!Array.isArray(feature.geometry.coordinates)) return [];
+
+    const [lon, lat] = feature.geometry.coordinates;
+    if (!isValidCoordinates([lat, lon])) return [];
+
+    const properties = feature.properties ?? {};
+    const coordinates: [number, number] = [lat, lon];
+    const name = getText(properties.name) ?? formatCoordinates(coordinates);
+    const createdAt = Date.parse(properties.createdAt);
+
+    return [
+      {
+        id: crypto.randomUUID(),
+        label: getText(properties.label) ?? getText(properties.title) ?? name,
+        category: SAVED_PLACE_CATEGORIES.includes(properties.category)
+          ? properties.category
+          : "favorite",
+        name,
+        coordinates,
+        placeId:
+          typeof properties.placeId === "number" ? properties.placeId : undefined,
+        createdAt: Number.isNaN(createdAt) ? now : createdAt,
+      },
+    ];
+  });
+
+  if (places.length === 0) {
+    throw new Error("El GeoJSON no tiene ningún punto");
+  }
+  return places;
+};
+
+// ============================================
+// BÚSQUEDA
+// ============================================
+
+/**
+ * matchSavedPlaces: Lugares guardados cuyo nombre o dirección contiene el texto
+ *
+ * @param places - Lugares guardados (ya ordenados)
+ * @param query - Texto escrito (vacío = todos)
+ * @returns Los que coinciden, sin tener en cuenta mayúsculas ni tildes
+ */
+export const matchSavedPlaces = (
+  places: SavedPlace[],
+  query: string
+): SavedPlace[] => {
+  const normalizedQuery = normalizeSearchText(query.trim());
+  if (!normalizedQuery) return places;
+
+  return places.filter(
+    (place) =>
+      normalizeSearchText(place.label).includes(normalizedQuery) ||
+      normalizeSearchText(place.name).includes(normalizedQuery)
+  );
+};
+
+/**
+ * savedPlaceToPlace: Convierte un lugar guardado en un resultado de búsqueda
+ *
+ * Así se puede elegir en los mismos sitios que un resultado de Nominatim
+ * (ej: el autocompletado de origen y destino). Su nombre es el del usuario.
+ */
+export const savedPlaceToPlace = (place: SavedPlace): Place => {
+  return {
+    id: place.placeId,
+    name: place.label,
+    display_name: place.name,
+    addresstype: "saved",
+    coordinates: place.coordinates,
+  } as Place;
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+const getText = (value: unknown): string | undefined => {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+const isValidCoordinates = (value: unknown): value is [number, number] => {
+  if (!Array.isArray(value) || value.length !== 2) return false;
+  const [lat, lon] = value;
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lon) <= 180
+  );
+};
+
+const isSavedPlace = (value: any): value is SavedPlace => {
+  return (
+    typeof value?.id === "string" &&
+    typeof value.label === "string" &&
+    SAVED_PLACE_CATEGORIES.includes(value.category) &&
+    typeof value.name === "string" &&
+    isValidCoordinates(value.coordinates) &&
+    typeof value.createdAt === "number"
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * SEARCH HISTORY
+ *
+ * Guarda en localStorage los lugares elegidos en búsquedas anteriores
+ * (en el buscador o en origen, destino y paradas) para ofrecerlos
+ * otra vez en el autocompletado sin esperar a Nominatim.
+ */
+
+import type { Place } from "../interfaces/place.interfaces";
+import type { RecentSearch } from "../interfaces/search.interfaces";
+import { normalizeSearchText } from "./text.utils";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Clave de localStorage donde se guarda el historial
+ */
+const STORAGE_KEY = "vueflet:search-history";
+
+/**
+ * Búsquedas que se recuerdan (las más antiguas se descartan)
+ */
+export const MAX_RECENT_SEARCHES = 20;
+
+// ============================================
+// PERSISTENCIA
+// ============================================
+
+/**
+ * loadSearchHistory: Búsquedas recientes de este navegador
+ *
+ * @returns Las entradas válidas, la más reciente primero
+ */
+export const loadSearchHistory = (): RecentSearch[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+
+    const parsed = JSON.parse(stored);
+    if (!Array.isArray(parsed)) {
+      throw new Error("No es una lista de búsquedas");
+    }
+    return parsed.filter(isRecentSearch);
+  } catch (error) {
+    console.warn("Historial de búsquedas no válido:", error);
+    return [];
+  }
+};
+
+/**
+ * storeSearchHistory: Guarda el historial de búsquedas
+ */
+export const storeSearchHistory = (entries: RecentSearch[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.warn("No se pudo guardar el historial de búsquedas:", error);
+  }
+};
+
+// ============================================
+// CONVERSIONES Y BÚSQUEDA
+// ============================================
+
+/**
+ * isSameRecentSearch: ¿Es el mismo lugar? (mismo ID o mismas coordenadas)
+ */
+export const isSameRecentSearch = (a: RecentSearch, b: RecentSearch) => {
+  if (a.placeId !== undefined && a.placeId === b.placeId) return true;
+  return (
+    a.coordinates[0] === b.coordinates[0] &&
+    a.coordinates[1] === b.coordinates[1]
+  );
+};
+
+/**
+ * placeToRecentSearch: Convierte el lugar elegido en una entrada del historial
+ */
+export const placeToRecentSearch = (place: Place): RecentSearch => {
+  return {
+    name: place.name,
+    coordinates: place.coordinates,
+    placeId: place.id,
+    addresstype: place.addresstype,
+    usedAt: Date.now(),
+  };
+};
+
+/**
+ * recentSearchToPlace: Convierte una entrada del historial en un resultado
+ * de búsqueda (para elegirla en los mismos sitios que uno de Nominatim)
+ */
+export const recentSearchToPlace = (entry: RecentSearch): Place => {
+  return {
+    id: entry.placeId,
+    name: entry.name,
+    addresstype: entry.addresstype ?? "recent",
+    coordinates: entry.coordinates,
+  } as Place;
+};
+
+/**
+ * matchSearchHistory: Búsquedas recientes cuyo nombre contiene el texto
+ *
+ * @param entries - Historial (la más reciente primero)
+ * @param query - Texto escrito (vacío = todas)
+ */
+export const matchSearchHistory = (
+  entries: RecentSearch[],
+  query: string
+): RecentSearch[] => {
+  const normalizedQuery = normalizeSearchText(query.trim());
+  if (!normalizedQuery) return entries;
+
+  return entries.filter((entry) =>
+    normalizeSearchText(entry.name).includes(normalizedQuery)
+  );
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+const isRecentSearch = (value: any): value is RecentSearch => {
+  return (
+    typeof value?.name === "string" &&
+    Array.isArray(value.coordinates) &&
+    value.coordinates.length === 2 &&
+    value.coordinates.every((n: unknown) => typeof n === "number") &&
+    typeof value.usedAt === "number"
+  );
+};
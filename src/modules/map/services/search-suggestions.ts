@@ -0,0 +1,159 @@
+/**
+ * SEARCH SUGGESTIONS
+ *
+ * Construye las sugerencias del autocompletado a partir de varias
+ * fuentes y las junta en secciones, sin repetir lugares:
+ * 1. Coordenadas escritas ("40.4168, -3.7038")
+ * 2. Lugares guardados
+ * 3. Búsquedas recientes
+ * 4. Resultados de Nominatim
+ *
+ * Las tres primeras son locales (al instante); la última llega cuando
+ * responde el servidor. Si un lugar sale en varias fuentes, se queda
+ * en la primera.
+ */
+
+import type { Place } from "../interfaces/place.interfaces";
+import type { SavedPlace } from "../interfaces/saved-place.interfaces";
+import type {
+  PlaceSuggestion,
+  RecentSearch,
+  SuggestionSection,
+} from "../interfaces/search.interfaces";
+import { formatCoordinates, parseCoordinates } from "./geocoders";
+import { SAVED_PLACE_ICONS, savedPlaceToPlace } from "./saved-places";
+import { recentSearchToPlace } from "./search-history";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Decimales de las coordenadas al buscar repetidos (~10 m)
+ */
+const DUPLICATE_PRECISION = 4;
+
+// ============================================
+// SUGERENCIAS DE CADA FUENTE
+// ============================================
+
+/**
+ * coordinatesSuggestion: Sugerencia si el texto son coordenadas
+ *
+ * @param query - Texto escrito
+ * @returns La sugerencia, o null si el texto no son coordenadas válidas
+ */
+export const coordinatesSuggestion = (
+  query: string
+): PlaceSuggestion | null => {
+  const coordinates = parseCoordinates(query);
+  if (!coordinates) return null;
+
+  const name = formatCoordinates(coordinates);
+  return {
+    key: `coordinates-${name}`,
+    source: "coordinates",
+    title: name,
+    icon: "📍",
+    place: {
+      name,
+      display_name: name,
+      addresstype: "coordinates",
+      coordinates,
+    } as Place,
+  };
+};
+
+/**
+ * savedPlaceSuggestion: Sugerencia de un lugar guardado
+ */
+export const savedPlaceSuggestion = (place: SavedPlace): PlaceSuggestion => {
+  return {
+    key: `saved-${place.id}`,
+    source: "saved",
+    title: place.label,
+    subtitle: place.name,
+    icon: SAVED_PLACE_ICONS[place.category],
+    place: savedPlaceToPlace(place),
+    savedPlace: place,
+  };
+};
+
+/**
+ * recentSearchSuggestion: Sugerencia de una búsqueda reciente
+ */
+export const recentSearchSuggestion = (
+  entry: RecentSearch
+): PlaceSuggestion => {
+  const [lat, lon] = entry.coordinates;
+  return {
+    key: `recent-${entry.placeId ?? `${lat},${lon}`}`,
+    source: "recent",
+    title: entry.name,
+    icon: "🕘",
+    place: recentSearchToPlace(entry),
+    recentSearch: entry,
+  };
+};
+
+/**
+ * remotePlaceSuggestion: Sugerencia de un resultado de Nominatim
+ */
+export const remotePlaceSuggestion = (place: Place): PlaceSuggestion => {
+  return {
+    key: `remote-${place.id}`,
+    source: "remote",
+    title: place.name,
+    subtitle: place.display_name,
+    icon: "",
+    place,
+  };
+};
+
+// ============================================
+// SECCIONES
+// ============================================
+
+/**
+ * mergeSuggestionSections: Junta las secciones quitando repetidos
+ *
+ * @param sections - Secciones en orden de prioridad
+ * @returns Las mismas secciones sin lugares repetidos (mismo ID de
+ *          Nominatim o a ~10 m) y sin las que se quedan vacías
+ */
+export const mergeSuggestionSections = (
+  sections: SuggestionSection[]
+): SuggestionSection[] => {
+  const seen = new Set<string>();
+
+  return sections
+    .map((section) => ({
+      source: section.source,
+      suggestions: section.suggestions.filter((suggestion) => {
+        const keys = getDuplicateKeys(suggestion.place);
+        if (keys.some((key) => seen.has(key))) return false;
+
+        keys.forEach((key) => seen.add(key));
+        return true;
+      }),
+    }))
+    .filter((section) => section.suggestions.length > 0);
+};
+
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
+/**
+ * getDuplicateKeys: Claves con las que se reconoce un lugar repetido
+ */
+const getDuplicateKeys = (place: Place): string[] => {
+  const [lat, lon] = place.coordinates;
+  const keys = [
+    `at:${lat.toFixed(DUPLICATE_PRECISION)},${lon.toFixed(DUPLICATE_PRECISION)}`,
+  ];
+  if (place.id !== undefined) {
+    keys.push(`id:${place.id}`);
+  }
+  return keys;
+};
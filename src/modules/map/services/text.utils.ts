@@ -0,0 +1,18 @@
+/**
+ * UTILIDADES DE TEXTO
+ *
+ * Utilidades de texto compartidas por las búsquedas locales
+ * (lugares guardados, historial de rutas y de búsquedas).
+ */
+
+/**
+ * normalizeSearchText: Texto para comparar sin mayúsculas ni tildes
+ *
+ * @example normalizeSearchText("Álamo") → "alamo"
+ */
+export const normalizeSearchText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+};
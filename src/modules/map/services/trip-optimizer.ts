@@ -0,0 +1,130 @@
+/**
+ * TRIP OPTIMIZER
+ *
+ * Heurística local para el "problema del viajante" con extremos fijos:
+ * dado el origen, el punto final y las paradas, busca un orden de visita
+ * que minimice el tiempo total usando una matriz de duraciones.
+ *
+ * 1. Vecino más cercano: construye un orden inicial razonable
+ * 2. 2-opt: invierte tramos del orden mientras eso acorte el viaje
+ *
+ * No garantiza el óptimo, pero con 5-20 paradas queda muy cerca
+ * y se calcula al instante.
+ */
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Mejora mínima (en segundos) para aceptar un cambio de 2-opt
+ * Evita bucles infinitos por errores de redondeo
+ */
+const MIN_IMPROVEMENT = 1e-6;
+
+// ============================================
+// FUNCIONES
+// ============================================
+
+/**
+ * getPathDuration: Duración total de un recorrido
+ *
+ * @param matrix - Matriz de duraciones (fila = desde, columna = hasta)
+ * @param path - Índices de los puntos en orden de visita
+ * @returns Suma de las duraciones de cada tramo (Infinity si alguno no tiene ruta)
+ */
+export const getPathDuration = (matrix: number[][], path: number[]): number => {
+  let total = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    total += matrix[path[i]!]?.[path[i + 1]!] ?? Infinity;
+  }
+  return total;
+};
+
+/**
+ * solveTripOrder: Ordena las paradas para minimizar el tiempo total
+ *
+ * @param matrix - Matriz de duraciones
+ * @param start - Índice del punto de salida (fijo)
+ * @param end - Índice del punto final (fijo; igual a start en ida y vuelta)
+ * @param stops - Índices de las paradas a ordenar
+ * @returns Las paradas en el orden de visita propuesto
+ *
+ * Ejemplo: solveTripOrder(matrix, 0, 4, [1, 2, 3]) → [3, 1, 2]
+ */
+export const solveTripOrder = (
+  matrix: number[][],
+  start: number,
+  end: number,
+  stops: number[]
+): number[] => {
+  if (stops.length < 2) return [...stops];
+
+  const path = [start, ...nearestNeighbour(matrix, start, stops), end];
+  improveWithTwoOpt(matrix, path);
+
+  return path.slice(1, -1);
+};
+
+/**
+ * nearestNeighbour: Desde cada punto, ir a la parada más cercana sin visitar
+ */
+const nearestNeighbour = (
+  matrix: number[][],
+  start: number,
+  stops: number[]
+): number[] => {
+  const pending = [...stops];
+  const order: number[] = [];
+  let current = start;
+
+  while (pending.length > 0) {
+    let bestIndex = 0;
+    pending.forEach((stop, index) => {
+      const duration = matrix[current]?.[stop] ?? Infinity;
+      const bestDuration = matrix[current]?.[pending[bestIndex]!] ?? Infinity;
+      if (duration < bestDuration) {
+        bestIndex = index;
+      }
+    });
+
+    current = pending.splice(bestIndex, 1)[0]!;
+    order.push(current);
+  }
+
+  return order;
+};
+
+/**
+ * improveWithTwoOpt: Invierte tramos del recorrido mientras mejore
+ *
+ * Modifica el array recibido. Nunca toca el primer ni el último punto.
+ * Como la matriz puede ser asimétrica (calles de sentido único),
+ * comparamos la duración completa del recorrido en vez de solo los
+ * dos tramos que cambian.
+ */
+const improveWithTwoOpt = (matrix: number[][], path: number[]) => {
+  let bestDuration = getPathDuration(matrix, path);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+
+    for (let i = 1; i < path.length - 2; i++) {
+      for (let j = i + 1; j < path.length - 1; j++) {
+        const candidate = [
+          ...path.slice(0, i),
+          ...path.slice(i, j + 1).reverse(),
+          ...path.slice(j + 1),
+        ];
+        const duration = getPathDuration(matrix, candidate);
+
+        if (duration < bestDuration - MIN_IMPROVEMENT) {
+          path.splice(0, path.length, ...candidate);
+          bestDuration = duration;
+          improved = true;
+        }
+      }
+    }
+  }
+};
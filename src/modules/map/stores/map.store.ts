@@ -6,6 +6,7 @@
  * - Marcadores en el mapa
  * - Información de rutas (distancia y duración)
  * - Controles de zoom y centrado
+ * - Mantener la vista de un enlace compartido al calcular su ruta
  */
 
 import { defineStore } from "pinia";
@@ -40,6 +41,12 @@ export const useMapStore = defineStore("map", () => {
    */
   const duration = ref<number | null>(null);
 
+  /**
+   * keepViewOnNextRoute: La próxima ruta calculada no mueve el mapa
+   * Un enlace compartido ya dice qué parte del mapa enseñar
+   */
+  const keepViewOnNextRoute = ref<boolean>(false);
+
   // ============================================
   // GETTERS (COMPUTADOS)
   // ============================================
@@ -198,12 +205,22 @@ export const useMapStore = defineStore("map", () => {
     duration.value = null;
   };
 
+  /**
+   * setKeepViewOnNextRoute: Evita (o vuelve a permitir) que la próxima
+   * ruta calculada ajuste el mapa a ella
+   * @param keep - true = no mover el mapa
+   */
+  const setKeepViewOnNextRoute = (keep: boolean) => {
+    keepViewOnNextRoute.value = keep;
+  };
+
   return {
     // State
     mapInstance,
     markers,
     distance,
     duration,
+    keepViewOnNextRoute,
     // Getters
     getMapInstance,
     getMarkers,
@@ -223,5 +240,6 @@ export const useMapStore = defineStore("map", () => {
     setDistance,
     setDuration,
     clearRouteData,
+    setKeepViewOnNextRoute,
   };
 });
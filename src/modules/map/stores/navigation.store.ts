@@ -0,0 +1,419 @@
+/**
+ * NAVIGATION STORE
+ *
+ * Este store gestiona el modo navegación (seguir la ruta en directo):
+ * - Seguimiento de la posición (GPS o fuente simulada, ver location.service.ts)
+ * - Posición ajustada sobre la ruta y avance (paso actual, siguiente maniobra)
+ * - Distancia y tiempo restantes, y hora estimada de llegada
+ * - Detección de salida de la ruta y recálculo desde la posición actual
+ * - Llegada al destino
+ *
+ * Sigue siempre la ruta seleccionada del routing store: si se recalcula
+ * o se elige otra alternativa, el avance vuelve a empezar sobre ella.
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed, watch } from "vue";
+import type {
+  NavigationProgress,
+  RouteSnap,
+} from "../interfaces/navigation.interfaces";
+import type {
+  LocationPosition,
+  LocationSourceError,
+} from "../interfaces/location.interfaces";
+import type { Route } from "../interfaces/routing.interfaces";
+import {
+  getCumulativeDistances,
+  getOffRouteDistance,
+  getRouteProgress,
+  snapToRoute,
+} from "../services/route-progress";
+import { locationService } from "../services/location.service";
+import { LOCATION_ERROR_CODES } from "../services/location";
+import { useRoutingStore } from "./routing.store";
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Posiciones con peor precisión que esta (metros) no mueven el avance
+ * ni cuentan para salirse de la ruta: se muestran y nada más
+ */
+const MAX_ACCURACY_M = 100;
+
+/**
+ * Posiciones seguidas fuera de la ruta antes de darla por abandonada
+ * (una sola puede ser un salto del GPS)
+ */
+const OFF_ROUTE_CONFIRMATIONS = 3;
+
+/**
+ * Tiempo mínimo entre dos recálculos (ms)
+ */
+const REROUTE_COOLDOWN_MS = 10000;
+
+/**
+ * Distancia al destino a partir de la cual se considera que se ha llegado (metros)
+ */
+const ARRIVAL_DISTANCE_M = 25;
+
+/**
+ * Cuánto puede retroceder la posición sobre la ruta (metros)
+ * Más atrás no se busca: así una calle por la que la ruta pasa
+ * dos veces no hace saltar el avance
+ */
+const SNAP_BACKTRACK_M = 100;
+
+export const useNavigationStore = defineStore("navigation", () => {
+  const routingStore = useRoutingStore();
+
+  // ============================================
+  // ESTADO (STATE)
+  // ============================================
+
+  /**
+   * isNavigating: ¿Está activo el modo navegación?
+   */
+  const isNavigating = ref<boolean>(false);
+
+  /**
+   * position: Última posición recibida del GPS
+   * null mientras no llega la primera
+   */
+  const position = ref<LocationPosition | null>(null);
+
+  /**
+   * snap: Punto de la ruta donde está el usuario
+   * null si aún no se conoce o la ruta ha cambiado
+   */
+  const snap = ref<RouteSnap | null>(null);
+
+  /**
+   * progress: Avance sobre la ruta (paso actual, distancia y tiempo restantes)
+   */
+  const progress = ref<NavigationProgress | null>(null);
+
+  /**
+   * isOffRoute: ¿El usuario se ha salido de la ruta?
+   */
+  const isOffRoute = ref<boolean>(false);
+
+  /**
+   * isRerouting: ¿Se está recalculando la ruta desde la posición actual?
+   */
+  const isRerouting = ref<boolean>(false);
+
+  /**
+   * hasArrived: ¿Se ha llegado al destino?
+   */
+  const hasArrived = ref<boolean>(false);
+
+  /**
+   * locationError: Código del último error del GPS
+   * (1 = permiso denegado, 2 = no disponible, 3 = tiempo agotado)
+   */
+  const locationError = ref<number | null>(null);
+
+  /**
+   * followUser: ¿El mapa sigue la posición del usuario?
+   * Se desactiva al mover el mapa a mano
+   */
+  const followUser = ref<boolean>(true);
+
+  // ============================================
+  // GETTERS (COMPUTADOS)
+  // ============================================
+
+  /**
+   * route: Ruta que se está siguiendo (la seleccionada)
+   */
+  const route = computed(() => routingStore.selectedRoute);
+
+  /**
+   * displayPosition: Dónde dibujar al usuario
+   * Sobre la línea mientras sigue la ruta; fuera de ella, la posición del GPS
+   */
+  const displayPosition = computed<[number, number] | null>(() => {
+    if (snap.value && !isOffRoute.value) return snap.value.coordinates;
+    return position.value?.coordinates ?? null;
+  });
+
+  /**
+   * nextSegment: Paso cuya maniobra viene a continuación
+   * En el último paso, el propio paso (la llegada)
+   */
+  const nextSegment = computed(() => {
+    if (!route.value || !progress.value) return null;
+    const index = progress.value.nextSegmentIndex ?? progress.value.segmentIndex;
+    return route.value.segments[index] ?? null;
+  });
+
+  /**
+   * estimatedArrival: Hora estimada de llegada (milisegundos)
+   */
+  const estimatedArrival = computed<number | null>(() => {
+    if (!progress.value || !position.value) return null;
+    return position.value.timestamp + progress.value.durationRemaining * 1000;
+  });
+
+  // ============================================
+  // ACCIONES (ACTIONS)
+  // ============================================
+
+  /** Deja de escuchar la fuente de ubicación (null = sin seguimiento) */
+  let stopWatch: (() => void) | null = null;
+
+  /** Posiciones seguidas fuera de la ruta */
+  let offRouteCount = 0;
+
+  /** Momento del último recálculo (ms) */
+  let lastRerouteAt = 0;
+
+  /** Distancias acumuladas de la geometría de la última ruta */
+  let geometryDistances: {
+    geometry: [number, number][];
+    cumulative: number[];
+  } | null = null;
+
+  /**
+   * startNavigation: Empieza a seguir la ruta seleccionada con el GPS
+   */
+  const startNavigation = () => {
+    if (!route.value || isNavigating.value) return;
+
+    resetProgress();
+    position.value = null;
+    hasArrived.value = false;
+    locationError.value = null;
+    followUser.value = true;
+    isNavigating.value = true;
+
+    // El paso resaltado movería el mapa: durante la navegación manda el GPS
+    routingStore.setActiveSegment(null);
+    routingStore.setHoveredSegment(null);
+
+    stopWatch = locationService.watchPosition(
+      handlePosition,
+      handlePositionError
+    );
+  };
+
+  /**
+   * stopNavigation: Sale del modo navegación
+   */
+  const stopNavigation = () => {
+    stopWatching();
+    resetProgress();
+    position.value = null;
+    isRerouting.value = false;
+    hasArrived.value = false;
+    locationError.value = null;
+    isNavigating.value = false;
+  };
+
+  /**
+   * setFollowUser: Activa o desactiva que el mapa siga al usuario
+   */
+  const setFollowUser = (value: boolean) => {
+    followUser.value = value;
+  };
+
+  /**
+   * stopWatching: Deja de escuchar la fuente de ubicación
+   */
+  const stopWatching = () => {
+    stopWatch?.();
+    stopWatch = null;
+  };
+
+  /**
+   * resetProgress: Olvida el avance (al empezar o cuando cambia la ruta)
+   */
+  const resetProgress = () => {
+    snap.value = null;
+    progress.value = null;
+    isOffRoute.value = false;
+    offRouteCount = 0;
+  };
+
+  /**
+   * handlePosition: Llega una posición nueva
+   */
+  const handlePosition = (fix: LocationPosition) => {
+    position.value = fix;
+    locationError.value = null;
+
+    if (!hasArrived.value && !isRerouting.value) {
+      updateProgress(fix);
+    }
+  };
+
+  /**
+   * handlePositionError: El GPS no puede dar la posición
+   *
+   * Si falta el permiso se deja de escuchar; el resto de errores
+   * (sin señal, tiempo agotado) suelen ser pasajeros y se sigue esperando
+   */
+  const handlePositionError = (error: LocationSourceError) => {
+    console.warn("Error siguiendo la ubicación:", error);
+    locationError.value = error.code;
+
+    if (error.code === LOCATION_ERROR_CODES.PERMISSION_DENIED) {
+      stopWatching();
+    }
+  };
+
+  /**
+   * getGeometryDistances: Distancias acumuladas de la geometría de la ruta
+   * Se calculan una vez por ruta, no en cada posición
+   */
+  const getGeometryDistances = (target: Route): number[] => {
+    if (geometryDistances?.geometry !== target.geometry) {
+      geometryDistances = {
+        geometry: target.geometry,
+        cumulative: getCumulativeDistances(target.geometry),
+      };
+    }
+    return geometryDistances.cumulative;
+  };
+
+  /**
+   * updateProgress: Ajusta la posición a la ruta y actualiza el avance
+   */
+  const updateProgress = (fix: LocationPosition) => {
+    const target = route.value;
+
+    // Sin ruta (falló el último recálculo): se vuelve a intentar
+    if (!target) {
+      handleOffRoute(fix);
+      return;
+    }
+
+    if (fix.accuracy > MAX_ACCURACY_M) return;
+
+    const cumulative = getGeometryDistances(target);
+    const from = snap.value
+      ? Math.max(0, snap.value.distanceAlong - SNAP_BACKTRACK_M)
+      : 0;
+    const nextSnap = snapToRoute(target.geometry, cumulative, fix.coordinates, from);
+    if (!nextSnap) return;
+
+    if (
+      nextSnap.distanceFromRoute >
+      getOffRouteDistance(target.travelMode, fix.accuracy)
+    ) {
+      handleOffRoute(fix);
+      return;
+    }
+
+    offRouteCount = 0;
+    isOffRoute.value = false;
+    snap.value = nextSnap;
+    progress.value = getRouteProgress(
+      target,
+      nextSnap.distanceAlong,
+      cumulative[cumulative.length - 1] ?? 0
+    );
+
+    if (progress.value.distanceRemaining <= ARRIVAL_DISTANCE_M) {
+      hasArrived.value = true;
+      stopWatching();
+    }
+  };
+
+  /**
+   * handleOffRoute: La posición está lejos de la ruta
+   *
+   * Tras varias posiciones seguidas fuera, se recalcula la ruta desde
+   * la posición actual (como mucho una vez cada REROUTE_COOLDOWN_MS)
+   */
+  const handleOffRoute = (fix: LocationPosition) => {
+    offRouteCount++;
+    if (offRouteCount < OFF_ROUTE_CONFIRMATIONS) return;
+
+    isOffRoute.value = true;
+    if (Date.now() - lastRerouteAt < REROUTE_COOLDOWN_MS) return;
+
+    reroute(fix.coordinates);
+  };
+
+  /**
+   * reroute: Recalcula la ruta desde la posición actual
+   *
+   * Las paradas que ya se han pasado se quitan de la ruta nueva
+   */
+  const reroute = async (coordinates: [number, number]) => {
+    lastRerouteAt = Date.now();
+    isRerouting.value = true;
+
+    try {
+      await routingStore.rerouteFrom(
+        coordinates,
+        progress.value?.completedLegs ?? 0
+      );
+    } finally {
+      isRerouting.value = false;
+    }
+  };
+
+  // ============================================
+  // WATCHERS
+  // ============================================
+
+  /**
+   * Nueva ruta (recálculo o alternativa): el avance empieza de nuevo sobre ella
+   */
+  watch(
+    () => route.value?.id,
+    () => {
+      if (!isNavigating.value) return;
+
+      resetProgress();
+      if (position.value && !hasArrived.value) {
+        updateProgress(position.value);
+      }
+    }
+  );
+
+  /**
+   * Sin destino (se limpió la ruta o se volvió a la búsqueda): fin de la navegación
+   */
+  watch(
+    () => routingStore.destinationWaypoint,
+    (destination) => {
+      if (!destination && isNavigating.value) {
+        stopNavigation();
+      }
+    }
+  );
+
+  // ============================================
+  // RETURN (EXPORTAR)
+  // ============================================
+
+  return {
+    // Estado
+    isNavigating,
+    position,
+    snap,
+    progress,
+    isOffRoute,
+    isRerouting,
+    hasArrived,
+    locationError,
+    followUser,
+
+    // Getters
+    route,
+    displayPosition,
+    nextSegment,
+    estimatedArrival,
+
+    // Acciones
+    startNavigation,
+    stopNavigation,
+    setFollowUser,
+  };
+});
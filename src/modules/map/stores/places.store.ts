@@ -2,8 +2,10 @@
  * PLACES STORE
  *
  * Este store gestiona la ubicación del usuario y la búsqueda de lugares:
- * - Obtención de la ubicación actual del usuario
- * - Búsqueda de lugares usando Nominatim
+ * - Obtención de la ubicación actual del usuario (de la fuente elegida)
+ * - Búsqueda de lugares usando Nominatim (cerca de la vista del mapa,
+ *   con filtros, en una zona y por páginas)
+ * - Geocodificación inversa (coordenadas -> nombre del lugar)
  * - Gestión de resultados de búsqueda
  * - Control de marcadores de búsqueda
  */
@@ -12,6 +14,52 @@ import { defineStore } from "pinia";
 import { ref, computed } from "vue";
 import type { UserLocation } from "@/modules/map/interfaces/map.interfaces";
 import type { Place } from "../interfaces/place.interfaces";
+import type { ReverseGeocodeResult } from "../interfaces/geocoding.interfaces";
+import type { LocationSourceError } from "../interfaces/location.interfaces";
+import type {
+  PlaceSearchFilters,
+  SearchBounds,
+} from "../interfaces/search.interfaces";
+import { geocodingService } from "../services/geocoding.service";
+import { locationService } from "../services/location.service";
+import { formatCoordinates } from "../services/geocoders";
+import {
+  boundsAround,
+  clampBounds,
+  fetchPlaceSearchPage,
+  hasSearchTerms,
+  loadSearchFilters,
+  storeSearchFilters,
+  type PlaceSearchPage,
+  type PlaceSearchRequest,
+} from "../services/place-search";
+import { createRequestSignal } from "../services/request.utils";
+import { isRateLimitError } from "../services/http-client";
+import { useMapStore } from "./map.store";
+import { locale, t } from "@/modules/i18n/i18n";
+
+/**
+ * Tiempo máximo de espera de una búsqueda de lugares (ms)
+ */
+const SEARCH_TIMEOUT_MS = 10000;
+
+/**
+ * Grados alrededor del punto de "Buscar cerca de aquí" (~5 km)
+ */
+const NEARBY_DELTA = 0.05;
+
+/**
+ * Grados alrededor del usuario en los que se prefieren los resultados
+ * cuando la vista del mapa no sirve para elegir (~20 km)
+ */
+const USER_BIAS_DELTA = 0.2;
+
+/**
+ * Tamaño máximo (grados de alto o de ancho) de una vista del mapa que
+ * todavía sirve para preferir resultados (~200 km). Con el mapa más
+ * alejado la vista abarca medio mundo y no prefiere nada.
+ */
+const MAX_BIAS_SPAN = 2;
 
 export const usePlacesStore = defineStore("places", () => {
   // ============================================
@@ -36,6 +84,17 @@ export const usePlacesStore = defineStore("places", () => {
    */
   const locationError = ref<number | null>(null);
 
+  /**
+   * userLocationAddress: Dirección de la ubicación del usuario
+   * null mientras no se ha resuelto (o si no se pudo resolver)
+   */
+  const userLocationAddress = ref<ReverseGeocodeResult | null>(null);
+
+  /**
+   * searchQuery: Texto de la última búsqueda de lugares
+   */
+  const searchQuery = ref<string>("");
+
   /**
    * searchResults: Resultados de la búsqueda de lugares
    * Array vacío cuando no hay resultados
@@ -48,6 +107,12 @@ export const usePlacesStore = defineStore("places", () => {
    */
   const isSearching = ref<boolean>(false);
 
+  /**
+   * searchError: Mensaje si la última búsqueda falló
+   * null si fue bien (aunque no encontrara nada)
+   */
+  const searchError = ref<string | null>(null);
+
   /**
    * activePlaceId: ID del lugar actualmente seleccionado
    * null si no hay lugar activo
@@ -60,6 +125,35 @@ export const usePlacesStore = defineStore("places", () => {
    */
   const showSearchMarkers = ref<boolean>(true);
 
+  /**
+   * searchNearLocation: Punto alrededor del cual se limita la búsqueda
+   * null = buscar en cualquier sitio
+   */
+  const searchNearLocation = ref<[number, number] | null>(null);
+
+  /**
+   * searchBounds: Zona del mapa a la que se limita la búsqueda
+   * ("Buscar en esta zona"); null = buscar en cualquier sitio
+   */
+  const searchBounds = ref<SearchBounds | null>(null);
+
+  /**
+   * searchFilters: País, idioma y tipo de lugar de las búsquedas
+   */
+  const searchFilters = ref<PlaceSearchFilters>(loadSearchFilters());
+
+  /**
+   * hasMoreResults: ¿La última búsqueda puede tener más resultados?
+   * true si la última página vino llena ("Más resultados")
+   */
+  const hasMoreResults = ref<boolean>(false);
+
+  /**
+   * Última búsqueda y lugares ya recibidos (para pedir más páginas)
+   */
+  let currentRequest: PlaceSearchRequest | null = null;
+  let receivedPlaceIds: number[] = [];
+
   // ============================================
   // GETTERS (COMPUTADOS)
   // ============================================
@@ -72,6 +166,22 @@ export const usePlacesStore = defineStore("places", () => {
     return !!userLocation.value;
   });
 
+  /**
+   * userLocationName: Nombre para usar la ubicación del usuario como waypoint
+   * Su dirección si ya la conocemos, o "Mi ubicación" si no
+   */
+  const userLocationName = computed<string>(() => {
+    return userLocationAddress.value?.name ?? t("map.myLocation");
+  });
+
+  /**
+   * activeFilterCount: Número de filtros elegidos
+   */
+  const activeFilterCount = computed<number>(() => {
+    return Object.values(searchFilters.value).filter((value) => value !== null)
+      .length;
+  });
+
   // ============================================
   // ACCIONES (ACTIONS)
   // ============================================
@@ -79,69 +189,330 @@ export const usePlacesStore = defineStore("places", () => {
   /**
    * getCurrentPosition: Obtiene la ubicación actual del usuario
    *
-   * Usa la API de geolocalización del navegador para obtener
-   * las coordenadas del usuario. Actualiza isLoading y userLocation.
+   * Pide la posición a la fuente de ubicación elegida (el GPS del
+   * navegador, una posición fija o un recorrido que se reproduce).
+   * Actualiza isLoading y userLocation.
    *
    * @returns Promise que resuelve con la ubicación [lat, lon]
    */
-  const getCurrentPosition = (): Promise<UserLocation> => {
-    return new Promise((resolve, reject) => {
-      navigator.geolocation.getCurrentPosition(
-        ({ coords }) => {
-          const location: UserLocation = [coords.latitude, coords.longitude];
-          userLocation.value = location;
-          isLoading.value = false;
-          locationError.value = null;
-          resolve(location);
-        },
-        (err) => {
-          isLoading.value = false;
-          locationError.value = err.code;
-          console.error("Error obteniendo ubicación:", err);
-          reject(err);
-        }
-      );
-    });
+  const getCurrentPosition = async (): Promise<UserLocation> => {
+    try {
+      const { coordinates } = await locationService.getCurrentPosition();
+      const location: UserLocation = coordinates;
+      userLocation.value = location;
+      isLoading.value = false;
+      locationError.value = null;
+      resolveUserLocationAddress(coordinates);
+      return location;
+    } catch (err) {
+      isLoading.value = false;
+      locationError.value = (err as LocationSourceError).code ?? null;
+      console.error("Error obteniendo ubicación:", err);
+      throw err;
+    }
   };
 
   /**
    * searchPlaces: Busca lugares por texto usando Nominatim
    *
    * Realiza una búsqueda en la API de OpenStreetMap Nominatim
-   * y actualiza searchResults con los resultados encontrados.
+   * y actualiza searchResults con la primera página de resultados.
+   * Los resultados dentro de la vista del mapa salen antes (o los
+   * cercanos al usuario si el mapa aún no existe), y se aplican los
+   * filtros activos. Con una zona elegida ("Buscar en esta zona" o
+   * "Buscar cerca de aquí") solo se buscan lugares dentro de ella.
    *
-   * @param query - Texto a buscar (dirección, lugar, etc.)
+   * @param query - Texto a buscar (dirección, lugar, etc.). Puede ir
+   * vacío si hay un tipo de lugar elegido: se buscan en la zona.
+   *
+   * Cada búsqueda cancela la anterior: si el usuario sigue escribiendo,
+   * los resultados de un texto antiguo nunca sustituyen a los del nuevo.
    */
   const searchPlaces = async (query: string): Promise<void> => {
-    if (!query) {
+    // Cancelar la búsqueda anterior (si sigue en camino)
+    searchController?.abort();
+    searchController = null;
+
+    searchQuery.value = query;
+    searchError.value = null;
+    hasMoreResults.value = false;
+    currentRequest = null;
+    receivedPlaceIds = [];
+
+    if (!hasSearchTerms(query, searchFilters.value)) {
       searchResults.value = [];
       activePlaceId.value = null;
+      isSearching.value = false;
       return;
     }
 
+    const request = createSearchRequest(query);
+    currentRequest = request;
+
+    await runSearch(request, (page) => {
+      searchResults.value = page.places;
+      activePlaceId.value = null; // Reset active place on new search
+    });
+  };
+
+  /**
+   * loadMoreResults: Añade la siguiente página de resultados
+   *
+   * Repite la última búsqueda (mismo texto, filtros y zona, aunque el
+   * mapa se haya movido) sin los lugares ya recibidos.
+   */
+  const loadMoreResults = async (): Promise<void> => {
+    const request = currentRequest;
+    if (!request || !hasMoreResults.value || isSearching.value) return;
+
+    searchError.value = null;
+
+    await runSearch(request, (page) => {
+      const knownIds = new Set(searchResults.value.map((place) => place.id));
+      searchResults.value = [
+        ...searchResults.value,
+        ...page.places.filter((place) => !knownIds.has(place.id)),
+      ];
+    });
+  };
+
+  /**
+   * runSearch: Pide la página siguiente de una búsqueda y la aplica
+   *
+   * Se encarga de la cancelación, el tiempo máximo y los errores.
+   *
+   * @param request - Búsqueda
+   * @param applyPage - Qué hacer con los resultados recibidos
+   */
+  let searchController: AbortController | null = null;
+  const runSearch = async (
+    request: PlaceSearchRequest,
+    applyPage: (page: PlaceSearchPage) => void
+  ): Promise<void> => {
+    searchController?.abort();
+
+    const controller = new AbortController();
+    searchController = controller;
+    const timeout = createRequestSignal(SEARCH_TIMEOUT_MS, controller.signal);
+
     isSearching.value = true;
 
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?` +
-          `format=json&q=${encodeURIComponent(query)}&limit=4`
+      const page = await fetchPlaceSearchPage(
+        request,
+        receivedPlaceIds,
+        timeout.signal
       );
-      const data = await response.json();
-      // Datos obtenidos
-
-      searchResults.value = data.map((item: any) => ({
-        id: item.place_id,
-        name: item.display_name,
-        addresstype: item.addresstype,
-        coordinates: [parseFloat(item.lat), parseFloat(item.lon)],
-      }));
-      activePlaceId.value = null; // Reset active place on new search
+
+      // Otra búsqueda más reciente ha tomado el relevo
+      if (controller.signal.aborted) return;
+
+      receivedPlaceIds = [...receivedPlaceIds, ...page.placeIds];
+      hasMoreResults.value = page.hasMore;
+      applyPage(page);
     } catch (error) {
-      console.error("Error buscando lugares:", error);
-      searchResults.value = [];
-      activePlaceId.value = null;
+      // Búsqueda cancelada: sus resultados ya no interesan
+      if (controller.signal.aborted) return;
+
+      if (isRateLimitError(error)) {
+        console.warn("⚠️ Búsqueda limitada por el servidor:", error.message);
+        searchError.value = error.message;
+      } else if (timeout.timedOut()) {
+        console.warn("⏱️ La búsqueda de lugares tardó demasiado");
+        searchError.value = t("search.errors.timeout");
+      } else {
+        console.error("Error buscando lugares:", error);
+        searchError.value = t("search.errors.failed");
+      }
+
+      // Si falla la primera página no queda nada; si falla "Más
+      // resultados", se mantienen los que ya había
+      if (receivedPlaceIds.length === 0) {
+        searchResults.value = [];
+        activePlaceId.value = null;
+      }
     } finally {
-      isSearching.value = false;
+      timeout.dispose();
+      if (searchController === controller) {
+        searchController = null;
+        isSearching.value = false;
+      }
+    }
+  };
+
+  /**
+   * createSearchRequest: Búsqueda con los filtros y la zona actuales
+   *
+   * Zona, por orden de prioridad:
+   * 1. La elegida con "Buscar en esta zona" (solo dentro)
+   * 2. Los alrededores del punto de "Buscar cerca de aquí" (solo dentro)
+   * 3. La vista del mapa, si no es demasiado grande
+   * 4. Los alrededores del usuario, si se conoce su ubicación
+   * 5. La vista del mapa aunque sea grande (o ninguna si aún no hay mapa)
+   *
+   * En 3-5 la zona solo se prefiere, salvo sin texto (solo tipo de
+   * lugar): entonces solo se busca dentro.
+   */
+  const createSearchRequest = (query: string): PlaceSearchRequest => {
+    const filters = { ...searchFilters.value };
+    const base = { query, filters, locale: locale.value };
+
+    if (searchBounds.value) {
+      return { ...base, bounds: searchBounds.value, bounded: true };
+    }
+    if (searchNearLocation.value) {
+      return {
+        ...base,
+        bounds: boundsAround(searchNearLocation.value, NEARBY_DELTA),
+        bounded: true,
+      };
+    }
+
+    // Sin texto (solo tipo de lugar), Nominatim necesita una zona cerrada
+    const bounded = !query.trim();
+    const viewBounds = getMapBounds();
+    if (viewBounds && isUsefulBias(viewBounds)) {
+      return { ...base, bounds: viewBounds, bounded };
+    }
+    if (userLocation.value) {
+      return {
+        ...base,
+        bounds: boundsAround(userLocation.value, USER_BIAS_DELTA),
+        bounded,
+      };
+    }
+    if (viewBounds) {
+      return { ...base, bounds: viewBounds, bounded };
+    }
+    return { ...base, bounds: null, bounded: false };
+  };
+
+  /**
+   * isUsefulBias: ¿La zona es lo bastante pequeña para preferir resultados?
+   */
+  const isUsefulBias = (bounds: SearchBounds): boolean => {
+    return (
+      bounds.north - bounds.south <= MAX_BIAS_SPAN &&
+      bounds.east - bounds.west <= MAX_BIAS_SPAN
+    );
+  };
+
+  /**
+   * getMapBounds: Zona que se ve en el mapa (null si aún no hay mapa)
+   */
+  const getMapBounds = (): SearchBounds | null => {
+    const map = useMapStore().getMapInstance();
+    if (!map) return null;
+
+    const bounds = map.getBounds();
+    return clampBounds({
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    });
+  };
+
+  /**
+   * setSearchNearLocation: Limita las búsquedas a los alrededores de un punto
+   * @param location - [lat, lon] del punto, o null para buscar en cualquier sitio
+   */
+  const setSearchNearLocation = (location: [number, number] | null) => {
+    searchNearLocation.value = location;
+    if (location) searchBounds.value = null;
+  };
+
+  /**
+   * setSearchBounds: Limita las búsquedas a una zona del mapa
+   * @param bounds - Zona, o null para buscar en cualquier sitio
+   */
+  const setSearchBounds = (bounds: SearchBounds | null) => {
+    searchBounds.value = bounds;
+    if (bounds) searchNearLocation.value = null;
+  };
+
+  /**
+   * searchInMapArea: "Buscar en esta zona"
+   * Repite la búsqueda actual solo dentro de la vista del mapa
+   */
+  const searchInMapArea = async (): Promise<void> => {
+    const bounds = getMapBounds();
+    if (!bounds) return;
+
+    setSearchBounds(bounds);
+    await searchPlaces(searchQuery.value);
+  };
+
+  /**
+   * setSearchFilters: Cambia los filtros y repite la búsqueda actual
+   * @param filters - Filtros que cambian (el resto se mantienen)
+   */
+  const setSearchFilters = async (
+    filters: Partial<PlaceSearchFilters>
+  ): Promise<void> => {
+    searchFilters.value = { ...searchFilters.value, ...filters };
+    storeSearchFilters(searchFilters.value);
+
+    // Con texto o con un tipo de lugar (buscar "restaurantes" sin texto);
+    // sin ninguno de los dos, se quitan los resultados del tipo anterior
+    if (
+      hasSearchTerms(searchQuery.value, searchFilters.value) ||
+      searchResults.value.length > 0
+    ) {
+      await searchPlaces(searchQuery.value);
+    }
+  };
+
+  /**
+   * reverseGeocodePlace: Obtiene la dirección completa de unas coordenadas
+   *
+   * Usa el servicio de geocodificación (con caché).
+   *
+   * @param coordinates - [latitud, longitud]
+   * @returns La dirección, o null si no hay nada o la petición falla
+   */
+  const reverseGeocodePlace = async (
+    coordinates: [number, number]
+  ): Promise<ReverseGeocodeResult | null> => {
+    try {
+      return await geocodingService.reverse(coordinates);
+    } catch (error) {
+      console.error("Error en la geocodificación inversa:", error);
+      return null;
+    }
+  };
+
+  /**
+   * reverseGeocode: Obtiene el nombre de un lugar a partir de sus coordenadas
+   *
+   * Si falla o no hay resultado, devuelve las coordenadas
+   * formateadas como nombre.
+   *
+   * @param coordinates - [latitud, longitud]
+   * @returns Nombre legible del lugar (ej: "Calle Mayor 5, Madrid")
+   */
+  const reverseGeocode = async (
+    coordinates: [number, number]
+  ): Promise<string> => {
+    const result = await reverseGeocodePlace(coordinates);
+    return result?.name ?? formatCoordinates(coordinates);
+  };
+
+  /**
+   * resolveUserLocationAddress: Busca la dirección de la ubicación del usuario
+   *
+   * Se llama al obtener la ubicación; mientras llega la respuesta
+   * userLocationName sigue siendo "Mi ubicación"
+   */
+  const resolveUserLocationAddress = async (location: [number, number]) => {
+    const result = await reverseGeocodePlace(location);
+
+    // Si la ubicación cambió mientras esperábamos, ignorar la respuesta
+    if (
+      userLocation.value?.[0] === location[0] &&
+      userLocation.value?.[1] === location[1]
+    ) {
+      userLocationAddress.value = result;
     }
   };
 
@@ -174,15 +545,31 @@ export const usePlacesStore = defineStore("places", () => {
     isLoading,
     userLocation,
     locationError,
+    userLocationAddress,
+    searchQuery,
     searchResults,
     isSearching,
+    searchError,
     activePlaceId,
     showSearchMarkers,
+    searchNearLocation,
+    searchBounds,
+    searchFilters,
+    hasMoreResults,
     // Getters
     isUserLocationReady,
+    userLocationName,
+    activeFilterCount,
     // Actions
     getCurrentPosition,
     searchPlaces,
+    loadMoreResults,
+    searchInMapArea,
+    setSearchBounds,
+    setSearchFilters,
+    reverseGeocode,
+    reverseGeocodePlace,
+    setSearchNearLocation,
     setActivePlaceId,
     hideSearchMarkers,
     showSearchMarkersAgain,
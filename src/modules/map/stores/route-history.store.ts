@@ -0,0 +1,284 @@
+/**
+ * ROUTE HISTORY STORE
+ *
+ * Este store recuerda las rutas calculadas para no perderlas al pulsar
+ * "Limpiar" o al recargar:
+ * - Historial: cada ruta calculada (puntos, opciones y resumen)
+ * - Viajes guardados: rutas del historial a las que el usuario pone nombre
+ * - Abrir una ruta: rellena el routing store y la vuelve a pedir
+ *   (si sigue en la caché de rutas, la geometría llega al instante)
+ * - Buscar y borrar (panel del historial)
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import type { Route, RoutingOptions } from "../interfaces/routing.interfaces";
+import type {
+  RouteHistoryEntry,
+  RouteHistoryWaypoint,
+} from "../interfaces/route-history.interfaces";
+import {
+  MAX_HISTORY_ENTRIES,
+  getRouteHistoryKey,
+  loadRouteHistory,
+  matchRouteHistory,
+  storeRouteHistory,
+} from "../services/route-history";
+import { useRoutingStore } from "./routing.store";
+
+export const useRouteHistoryStore = defineStore("routeHistory", () => {
+  // ============================================
+  // ESTADO (STATE)
+  // ============================================
+
+  /**
+   * entries: Rutas del historial y viajes guardados
+   * (la calculada más recientemente, la primera)
+   */
+  const entries = ref<RouteHistoryEntry[]>(loadRouteHistory());
+
+  /**
+   * isPanelOpen: ¿Se muestra el panel del historial?
+   */
+  const isPanelOpen = ref<boolean>(false);
+
+  // ============================================
+  // GETTERS (COMPUTADOS)
+  // ============================================
+
+  /**
+   * savedTrips: Viajes guardados, por nombre
+   */
+  const savedTrips = computed(() => {
+    return entries.value
+      .filter((entry) => entry.tripName)
+      .sort((a, b) => a.tripName!.localeCompare(b.tripName!));
+  });
+
+  /**
+   * recentRoutes: Rutas del historial sin nombre, la más reciente primero
+   */
+  const recentRoutes = computed(() => {
+    return entries.value.filter((entry) => !entry.tripName);
+  });
+
+  /**
+   * hasEntries: ¿Hay alguna ruta en el historial o guardada?
+   */
+  const hasEntries = computed(() => entries.value.length > 0);
+
+  // ============================================
+  // ACCIONES (ACTIONS)
+  // ============================================
+
+  /**
+   * recordRoute: Añade al historial una ruta recién calculada
+   *
+   * @param waypoints - Puntos en orden (origen, paradas y destino)
+   * @param options - Opciones con las que se calculó
+   * @param route - Ruta principal (para el resumen)
+   *
+   * Si la misma ruta ya estaba, sube al principio con el resumen nuevo
+   * (y conserva su nombre si es un viaje guardado)
+   */
+  const recordRoute = (
+    waypoints: RouteHistoryWaypoint[],
+    options: RoutingOptions,
+    route: Route
+  ) => {
+    const points = waypoints.map(({ name, coordinates }) => ({
+      name,
+      coordinates,
+    }));
+    const key = getRouteHistoryKey(points, options);
+    const existing = entries.value.find(
+      (entry) => getRouteHistoryKey(entry.waypoints, entry.options) === key
+    );
+
+    const entry: RouteHistoryEntry = {
+      id: existing?.id ?? crypto.randomUUID(),
+      waypoints: points,
+      options: { ...options },
+      summary: { distance: route.distance, duration: route.duration },
+      calculatedAt: Date.now(),
+      tripName: existing?.tripName,
+    };
+
+    const others = entries.value.filter((item) => item.id !== entry.id);
+    entries.value = [entry, ...others];
+    pruneHistory();
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * renameLatestWaypoint: Pone el nombre definitivo a un punto de la última ruta
+   *
+   * @param coordinates - [latitud, longitud] del punto
+   * @param name - Nombre obtenido con geocodificación inversa
+   *
+   * Un punto elegido en el mapa se usa en la ruta antes de saber su
+   * dirección; cuando llega, se actualiza también en el historial
+   */
+  const renameLatestWaypoint = (
+    coordinates: [number, number],
+    name: string
+  ) => {
+    const [latest, ...others] = entries.value;
+    if (!latest) return;
+
+    const waypoints = latest.waypoints.map((waypoint) =>
+      waypoint.coordinates[0] === coordinates[0] &&
+      waypoint.coordinates[1] === coordinates[1]
+        ? { ...waypoint, name }
+        : waypoint
+    );
+
+    entries.value = [{ ...latest, waypoints }, ...others];
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * findEntry: Entrada del historial de una ruta (o undefined)
+   *
+   * @param waypoints - Puntos de la ruta
+   * @param options - Opciones de la ruta
+   */
+  const findEntry = (
+    waypoints: RouteHistoryWaypoint[],
+    options: RoutingOptions
+  ) => {
+    const key = getRouteHistoryKey(waypoints, options);
+    return entries.value.find(
+      (entry) => getRouteHistoryKey(entry.waypoints, entry.options) === key
+    );
+  };
+
+  /**
+   * searchEntries: Entradas que coinciden con lo escrito en el panel
+   *
+   * @param query - Texto (vacío = todas)
+   */
+  const searchEntries = (query: string) => {
+    return {
+      trips: matchRouteHistory(savedTrips.value, query),
+      recent: matchRouteHistory(recentRoutes.value, query),
+    };
+  };
+
+  /**
+   * saveTrip: Guarda una ruta como viaje con nombre (o le cambia el nombre)
+   *
+   * @param id - ID de la entrada
+   * @param name - Nombre del viaje
+   */
+  const saveTrip = (id: string, name: string) => {
+    const tripName = name.trim();
+    if (!tripName) return;
+
+    updateEntry(id, { tripName });
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * unsaveTrip: Quita el nombre a un viaje (vuelve al historial)
+   *
+   * @param id - ID de la entrada
+   */
+  const unsaveTrip = (id: string) => {
+    updateEntry(id, { tripName: undefined });
+    pruneHistory();
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * removeEntry: Borra una ruta del historial (o un viaje guardado)
+   *
+   * @param id - ID de la entrada
+   */
+  const removeEntry = (id: string) => {
+    entries.value = entries.value.filter((entry) => entry.id !== id);
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * clearHistory: Borra el historial (los viajes guardados se quedan)
+   */
+  const clearHistory = () => {
+    entries.value = entries.value.filter((entry) => entry.tripName);
+    storeRouteHistory(entries.value);
+  };
+
+  /**
+   * restoreEntry: Abre una ruta del historial en el panel de direcciones
+   *
+   * @param id - ID de la entrada
+   *
+   * Sustituye los puntos del routing store y vuelve a calcular la ruta
+   * con sus opciones (la caché de rutas evita pedirla otra vez al motor)
+   */
+  const restoreEntry = (id: string) => {
+    const entry = entries.value.find((item) => item.id === id);
+    if (!entry) return;
+
+    const routingStore = useRoutingStore();
+    if (!routingStore.isDirectionsMode) {
+      routingStore.setDirectionsMode();
+    }
+    routingStore.replaceWaypoints(entry.waypoints);
+    routingStore.calculateRoute(entry.options);
+
+    isPanelOpen.value = false;
+  };
+
+  /**
+   * setPanelOpen: Muestra u oculta el panel del historial
+   */
+  const setPanelOpen = (open: boolean) => {
+    isPanelOpen.value = open;
+  };
+
+  // ============================================
+  // FUNCIONES AUXILIARES
+  // ============================================
+
+  /**
+   * updateEntry: Cambia una entrada (sin guardar el historial)
+   */
+  const updateEntry = (id: string, updates: Partial<RouteHistoryEntry>) => {
+    entries.value = entries.value.map((entry) =>
+      entry.id === id ? { ...entry, ...updates } : entry
+    );
+  };
+
+  /**
+   * pruneHistory: Descarta las rutas sin nombre más antiguas
+   * si hay más de MAX_HISTORY_ENTRIES
+   */
+  const pruneHistory = () => {
+    let unnamed = 0;
+    entries.value = entries.value.filter(
+      (entry) => entry.tripName || ++unnamed <= MAX_HISTORY_ENTRIES
+    );
+  };
+
+  return {
+    // State
+    entries,
+    isPanelOpen,
+    // Getters
+    savedTrips,
+    recentRoutes,
+    hasEntries,
+    // Actions
+    recordRoute,
+    renameLatestWaypoint,
+    findEntry,
+    searchEntries,
+    saveTrip,
+    unsaveTrip,
+    removeEntry,
+    clearHistory,
+    restoreEntry,
+    setPanelOpen,
+  };
+});
@@ -6,6 +6,7 @@
  * - Los waypoints (origen, destino, paradas)
  * - Las rutas calculadas
  * - El modo de transporte seleccionado
+ * - Apuntar cada ruta calculada en el historial de rutas
  *
  * Piensa en el store como el "cerebro" que guarda toda la información
  * y permite que los componentes la compartan.
@@ -19,9 +20,36 @@ import type {
   TravelMode,
   UIMode,
   RoutingError,
+  RoutingOptions,
+  RouteAvoidOptions,
+  RoutePreference,
+  TripOptimization,
+  WaypointType,
+  SegmentSelection,
 } from "../interfaces/routing.interfaces";
 import { routingService } from "../services/routing.service";
+import { elevationService } from "../services/elevation.service";
+import type { ElevationProfile } from "../interfaces/elevation.interfaces";
+import { sortRoutesByPreference } from "../services/route-ranking";
+import {
+  getGeometryKey,
+  getStopInsertPosition,
+} from "../services/route-geometry";
 import { usePlacesStore } from "./places.store";
+import { useRouteHistoryStore } from "./route-history.store";
+import { t } from "@/modules/i18n/i18n";
+import { formatDistance, formatDuration } from "@/modules/i18n/format";
+
+/**
+ * Espera (ms) antes de recalcular la ruta tras arrastrar un punto en el mapa
+ * Así varios arrastres seguidos solo lanzan una petición
+ */
+const ROUTE_RECALCULATION_DELAY_MS = 600;
+
+/**
+ * Nombre provisional de un punto movido en el mapa mientras se busca su dirección
+ */
+const getPendingWaypointName = () => t("map.pendingPoint");
 
 export const useRoutingStore = defineStore("routing", () => {
   // ============================================
@@ -61,6 +89,23 @@ export const useRoutingStore = defineStore("routing", () => {
    */
   const travelMode = ref<TravelMode>("driving");
 
+  /**
+   * routePreference: Criterio para elegir la ruta principal
+   * Por defecto: 'fastest' (la más rápida)
+   * Se mantiene aunque se limpie la ruta o se vuelva al modo búsqueda
+   */
+  const routePreference = ref<RoutePreference>("fastest");
+
+  /**
+   * avoidOptions: Tipos de vía que el usuario quiere evitar
+   * Por defecto no se evita nada
+   */
+  const avoidOptions = ref<RouteAvoidOptions>({
+    avoidHighways: false,
+    avoidTolls: false,
+    avoidFerries: false,
+  });
+
   /**
    * isCalculatingRoute: Indica si estamos calculando una ruta
    * true = mostramos un spinner/loading
@@ -73,6 +118,46 @@ export const useRoutingStore = defineStore("routing", () => {
    */
   const routingError = ref<RoutingError | null>(null);
 
+  /**
+   * isOptimizingOrder: Indica si estamos optimizando el orden de las paradas
+   */
+  const isOptimizingOrder = ref<boolean>(false);
+
+  /**
+   * tripOptimization: Resultado de la última optimización de paradas
+   * null = no se ha optimizado o las paradas cambiaron después
+   */
+  const tripOptimization = ref<TripOptimization | null>(null);
+
+  /**
+   * optimizationError: Error al optimizar el orden de las paradas
+   * Va aparte de routingError para no borrar la ruta actual
+   */
+  const optimizationError = ref<RoutingError | null>(null);
+
+  /**
+   * activeSegment: Paso de las instrucciones elegido (click o teclado)
+   * Se resalta en el mapa y el mapa se ajusta a él
+   */
+  const activeSegment = ref<SegmentSelection | null>(null);
+
+  /**
+   * hoveredSegment: Paso de las instrucciones bajo el ratón
+   * Solo se resalta, sin mover el mapa
+   */
+  const hoveredSegment = ref<SegmentSelection | null>(null);
+
+  /**
+   * isLoadingElevation: ¿Se están pidiendo los perfiles de elevación?
+   */
+  const isLoadingElevation = ref<boolean>(false);
+
+  /**
+   * elevationHoverPoint: Punto del perfil de elevación bajo el ratón
+   * Se marca en el mapa mientras se recorre la gráfica
+   */
+  const elevationHoverPoint = ref<[number, number] | null>(null);
+
   // ============================================
   // GETTERS (COMPUTADOS)
   // ============================================
@@ -130,35 +215,91 @@ export const useRoutingStore = defineStore("routing", () => {
     );
   });
 
+  /**
+   * isRoundTrip: ¿El destino es el mismo punto que el origen?
+   */
+  const isRoundTrip = computed(() => {
+    const origin = originWaypoint.value;
+    const destination = destinationWaypoint.value;
+    if (!origin || !destination) return false;
+    return (
+      origin.coordinates[0] === destination.coordinates[0] &&
+      origin.coordinates[1] === destination.coordinates[1]
+    );
+  });
+
+  /**
+   * canOptimizeOrder: ¿Hay paradas que se puedan reordenar?
+   * Sin ida y vuelta hacen falta al menos 2 paradas intermedias
+   * (con 1 sola no hay nada que cambiar)
+   */
+  const canOptimizeOrder = computed(() => {
+    return canCalculateRoute.value && intermediateWaypoints.value.length >= 2;
+  });
+
+  /**
+   * routingOptions: Todas las opciones de la ruta en un solo objeto
+   * Es lo que se envía al servicio de routing
+   */
+  const routingOptions = computed<RoutingOptions>(() => ({
+    travelMode: travelMode.value,
+    preference: routePreference.value,
+    ...avoidOptions.value,
+  }));
+
+  /**
+   * selectedRoute: La ruta seleccionada (principal o alternativa)
+   */
+  const selectedRoute = computed(() => {
+    return (
+      alternativeRoutes.value.find((route) => route.isSelected) ??
+      currentRoute.value
+    );
+  });
+
+  /**
+   * activeSegmentIndex: Índice del paso elegido en la ruta seleccionada
+   * null si no hay paso elegido o es de otra ruta
+   */
+  const activeSegmentIndex = computed(() => {
+    const route = selectedRoute.value;
+    if (!route || activeSegment.value?.routeId !== route.id) return null;
+    return activeSegment.value.index;
+  });
+
+  /**
+   * highlightedSegment: Paso a resaltar en el mapa
+   * El que está bajo el ratón o, si no hay, el elegido
+   */
+  const highlightedSegment = computed(() => {
+    const route = selectedRoute.value;
+    if (!route) return null;
+
+    const hoveredIndex =
+      hoveredSegment.value?.routeId === route.id
+        ? hoveredSegment.value.index
+        : null;
+    const index = hoveredIndex ?? activeSegmentIndex.value;
+
+    return index !== null ? route.segments[index] ?? null : null;
+  });
+
   /**
    * formattedDistance: Distancia formateada para mostrar
-   * Ejemplo: "2.5 km" o "450 m"
+   * Ejemplo: "2,5 km" o "450 m" (o en millas, según los ajustes)
    */
   const formattedDistance = computed(() => {
     if (!currentRoute.value) return "";
-
-    const meters = currentRoute.value.distance;
-    if (meters >= 1000) {
-      return `${(meters / 1000).toFixed(1)} km`;
-    }
-    return `${Math.round(meters)} m`;
+    return formatDistance(currentRoute.value.distance);
   });
 
   /**
    * formattedDuration: Duración formateada para mostrar
-   * Ejemplo: "25 min" o "1h 30min"
+   * Ejemplo: "25 min" o "1 h 30 min"
    */
   const formattedDuration = computed(() => {
     if (!currentRoute.value) return "";
-
-    const seconds = currentRoute.value.duration;
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}min`;
-    }
-    return `${minutes}min`;
+    return formatDuration(currentRoute.value.duration);
   });
 
   // ============================================
@@ -199,18 +340,64 @@ export const useRoutingStore = defineStore("routing", () => {
    *
    * @param mode - 'driving', 'cycling' o 'walking'
    *
-   * Cuando cambiamos el modo, deberíamos recalcular la ruta
-   * automáticamente si ya hay waypoints
+   * Si ya hay ruta:
+   * - Si el motor tiene el perfil del nuevo modo, pedimos la ruta real
+   *   (la geometría cambia: carriles bici, calles peatonales...)
+   * - Si no, recalculamos solo los tiempos (sin llamar a la API)
    */
   const setTravelMode = (mode: TravelMode) => {
     travelMode.value = mode;
-    // TODO: Recalcular ruta automáticamente si hay waypoints
-    // Si ya hay ruta, recalcular solo los tiempos (sin llamar a la API)
-    if (hasRoute) {
+
+    // Si hay una ruta en camino, se pide de nuevo con el modo nuevo
+    // (calculateRoute cancela la petición anterior)
+    if (isCalculatingRoute.value) {
+      calculateRoute();
+      return;
+    }
+
+    if (!currentRoute.value) return;
+
+    const routedMode = currentRoute.value.providerTravelMode ?? "driving";
+    if (routingService.hasRoutedProfile(mode) && mode !== routedMode) {
+      calculateRoute();
+    } else {
       recalculateRouteTimes(mode);
     }
   };
 
+  /**
+   * setRoutePreference: Cambia la preferencia de ruta
+   *
+   * @param preference - 'fastest', 'shortest' o 'balanced'
+   *
+   * No llama a la API: solo reordena las rutas que ya tenemos
+   * y elige como principal la mejor según la nueva preferencia.
+   */
+  const setRoutePreference = (preference: RoutePreference) => {
+    routePreference.value = preference;
+
+    if (currentRoute.value) {
+      applyRankedRoutes([currentRoute.value, ...alternativeRoutes.value]);
+    }
+  };
+
+  /**
+   * setAvoidOptions: Cambia los tipos de vía a evitar
+   *
+   * @param options - Opciones a cambiar (las demás se mantienen)
+   *
+   * Ejemplo: setAvoidOptions({ avoidTolls: true })
+   *
+   * Si ya hay ruta, se recalcula con las nuevas opciones
+   */
+  const setAvoidOptions = (options: RouteAvoidOptions) => {
+    avoidOptions.value = { ...avoidOptions.value, ...options };
+
+    if (currentRoute.value) {
+      calculateRoute();
+    }
+  };
+
   /**
    * addWaypoint: Añade un nuevo waypoint
    *
@@ -228,7 +415,7 @@ export const useRoutingStore = defineStore("routing", () => {
   const addWaypoint = (waypoint: Waypoint) => {
     waypoints.value.push(waypoint);
     // Reordenar waypoints por order
-    waypoints.value.sort((a, b) => a.order - b.order);
+    reorderWaypoints();
   };
 
   /**
@@ -270,6 +457,8 @@ export const useRoutingStore = defineStore("routing", () => {
     coordinates: [number, number],
     placeId?: number
   ) => {
+    tripOptimization.value = null;
+
     // Si ya existe un origen, lo actualizamos (siempre con order 0)
     const existingOrigin = originWaypoint.value;
     if (existingOrigin) {
@@ -289,12 +478,7 @@ export const useRoutingStore = defineStore("routing", () => {
         order: 0,
         placeId,
       });
-
-      // Si ya existe un destino, asegurarnos de que tenga order 1
-      const existingDestination = destinationWaypoint.value;
-      if (existingDestination) {
-        updateWaypoint(existingDestination.id, { order: 1 });
-      }
+      // addWaypoint ya deja el destino (y las paradas) detrás del origen
     }
     // Si ya hay destino, calcular ruta automáticamente
     if (destinationWaypoint.value) {
@@ -314,6 +498,8 @@ export const useRoutingStore = defineStore("routing", () => {
     coordinates: [number, number],
     placeId?: number
   ) => {
+    tripOptimization.value = null;
+
     // Si ya existe un destino, lo actualizamos (siempre con order 1 si solo hay 2 waypoints)
     const existingDestination = destinationWaypoint.value;
     if (existingDestination) {
@@ -344,12 +530,7 @@ export const useRoutingStore = defineStore("routing", () => {
         order,
         placeId,
       });
-
-      // Si ya existe un origen, asegurarnos de que tenga order 0
-      const existingOrigin = originWaypoint.value;
-      if (existingOrigin) {
-        updateWaypoint(existingOrigin.id, { order: 0 });
-      }
+      // addWaypoint ya deja el origen con order 0
     }
 
     // Si ya hay origen, calcular ruta automáticamente
@@ -358,6 +539,31 @@ export const useRoutingStore = defineStore("routing", () => {
     }
   };
 
+  /**
+   * replaceWaypoints: Sustituye todos los waypoints de una vez
+   *
+   * @param places - Lugares en orden: el primero es el origen, el último
+   *                 el destino y los de en medio, paradas
+   *
+   * No calcula la ruta: quien llama decide cuándo (ej: al abrir un
+   * enlace compartido se calcula después de elegir el modo de transporte)
+   */
+  const replaceWaypoints = (
+    places: { name: string; coordinates: [number, number] }[]
+  ) => {
+    clearRoute();
+
+    const lastIndex = places.length - 1;
+    waypoints.value = places.map((place, index) => ({
+      id: crypto.randomUUID(),
+      name: place.name,
+      coordinates: place.coordinates,
+      type:
+        index === 0 ? "origin" : index === lastIndex ? "destination" : "waypoint",
+      order: index,
+    }));
+  };
+
   /**
    * addIntermediateWaypoint: Añade una parada intermedia
    *
@@ -370,9 +576,11 @@ export const useRoutingStore = defineStore("routing", () => {
     coordinates: [number, number],
     placeId?: number
   ) => {
-    // Las paradas intermedias van entre el origen y el destino
-    const destination = destinationWaypoint.value;
-    const order = destination ? destination.order : waypoints.value.length;
+    // Las paradas intermedias van entre el origen y el destino:
+    // la nueva se coloca detrás de la última parada
+    const stops = intermediateWaypoints.value;
+    const lastStop = stops[stops.length - 1];
+    const order = lastStop ? lastStop.order + 1 : 1;
 
     addWaypoint({
       id: crypto.randomUUID(),
@@ -383,16 +591,198 @@ export const useRoutingStore = defineStore("routing", () => {
       placeId,
     });
 
-    // Si hay destino, incrementamos su order
-    if (destination) {
-      updateWaypoint(destination.id, { order: order + 1 });
+    recalculateIfReady();
+  };
+
+  /**
+   * moveWaypoint: Mueve un waypoint a otras coordenadas (arrastre en el mapa)
+   *
+   * @param id - ID del waypoint (origen, parada o destino)
+   * @param coordinates - Nuevas coordenadas [latitud, longitud]
+   *
+   * Actualiza las coordenadas al momento, busca el nombre del nuevo
+   * punto en segundo plano y recalcula la ruta con un pequeño retardo
+   */
+  const moveWaypoint = (id: string, coordinates: [number, number]) => {
+    updateWaypoint(id, {
+      coordinates,
+      name: getPendingWaypointName(),
+      placeId: undefined,
+    });
+
+    scheduleRouteCalculation();
+    resolveWaypointName(id, coordinates);
+  };
+
+  /**
+   * insertWaypointOnRoute: Añade una parada arrastrando la línea de la ruta
+   *
+   * @param coordinates - Dónde se soltó el punto [latitud, longitud]
+   * @param position - Posición entre las paradas (0 = antes de la primera)
+   * @param name - Nombre del punto (si no se pasa, se busca su dirección)
+   */
+  const insertWaypointOnRoute = (
+    coordinates: [number, number],
+    position: number,
+    name?: string
+  ) => {
+    // Las paradas tienen orders 1, 2, 3... así que p + 0.5 queda
+    // justo entre la parada p y la p + 1 (reorderWaypoints lo normaliza)
+    const id = crypto.randomUUID();
+    addWaypoint({
+      id,
+      name: name ?? getPendingWaypointName(),
+      coordinates,
+      type: "waypoint",
+      order: position + 0.5,
+    });
+
+    scheduleRouteCalculation();
+    if (!name) {
+      resolveWaypointName(id, coordinates);
+    }
+  };
+
+  /**
+   * setWaypointFromMap: Usa un punto del mapa como origen, destino o parada
+   *
+   * @param type - Qué será el punto (origin, destination o waypoint)
+   * @param coordinates - [latitud, longitud] del punto pulsado
+   * @param name - Nombre del punto si ya se conoce (ej: un lugar guardado)
+   *
+   * Pasa a modo direcciones si hace falta y, sin nombre, nombra el punto
+   * con geocodificación inversa. Como en "Cómo llegar", si el punto es
+   * el destino y no hay origen, se usa la ubicación del usuario.
+   */
+  const setWaypointFromMap = (
+    type: WaypointType,
+    coordinates: [number, number],
+    name?: string
+  ) => {
+    if (!isDirectionsMode.value) {
+      setDirectionsMode();
+    }
+
+    if (type === "waypoint") {
+      // Con ruta, la parada se coloca en el tramo más cercano;
+      // si no, al final de las paradas
+      const position = currentRoute.value
+        ? getStopInsertPosition(currentRoute.value, coordinates)
+        : intermediateWaypoints.value.length;
+      insertWaypointOnRoute(coordinates, position, name);
+      return;
+    }
+
+    if (type === "origin") {
+      setOrigin(name ?? getPendingWaypointName(), coordinates);
+    } else {
+      const placesStore = usePlacesStore();
+      if (!originWaypoint.value && placesStore.userLocation) {
+        setOrigin(placesStore.userLocationName, placesStore.userLocation);
+      }
+      setDestination(name ?? getPendingWaypointName(), coordinates);
+    }
+
+    if (name) return;
+
+    const waypoint =
+      type === "origin" ? originWaypoint.value : destinationWaypoint.value;
+    if (waypoint) {
+      resolveWaypointName(waypoint.id, coordinates);
     }
   };
 
+  /**
+   * resolveWaypointName: Pone al waypoint el nombre de sus coordenadas
+   *
+   * Si el waypoint se ha vuelto a mover (o se ha borrado) mientras
+   * esperábamos la respuesta, ignoramos el nombre
+   */
+  const resolveWaypointName = async (
+    id: string,
+    coordinates: [number, number]
+  ) => {
+    const placesStore = usePlacesStore();
+    const name = await placesStore.reverseGeocode(coordinates);
+
+    const waypoint = waypoints.value.find((wp) => wp.id === id);
+    if (
+      waypoint &&
+      waypoint.coordinates[0] === coordinates[0] &&
+      waypoint.coordinates[1] === coordinates[1]
+    ) {
+      updateWaypoint(id, { name });
+      useRouteHistoryStore().renameLatestWaypoint(coordinates, name);
+    }
+  };
+
+  /**
+   * updateIntermediateWaypoint: Cambia el lugar de una parada intermedia
+   *
+   * @param id - ID de la parada
+   * @param name - Nombre del nuevo lugar
+   * @param coordinates - [latitud, longitud]
+   * @param placeId - ID opcional del lugar
+   */
+  const updateIntermediateWaypoint = (
+    id: string,
+    name: string,
+    coordinates: [number, number],
+    placeId?: number
+  ) => {
+    updateWaypoint(id, { name, coordinates, placeId });
+    recalculateIfReady();
+  };
+
+  /**
+   * removeIntermediateWaypoint: Elimina una parada intermedia
+   *
+   * @param id - ID de la parada
+   *
+   * A diferencia de removeWaypoint, recalcula la ruta
+   */
+  const removeIntermediateWaypoint = (id: string) => {
+    removeWaypoint(id);
+    recalculateIfReady();
+  };
+
+  /**
+   * moveIntermediateWaypoint: Mueve una parada a otra posición
+   *
+   * @param fromIndex - Posición actual dentro de las paradas (0 = primera parada)
+   * @param toIndex - Posición nueva dentro de las paradas
+   *
+   * Ejemplo: con paradas [A, B, C], moveIntermediateWaypoint(2, 0) → [C, A, B]
+   */
+  const moveIntermediateWaypoint = (fromIndex: number, toIndex: number) => {
+    const stops = [...intermediateWaypoints.value];
+    if (
+      fromIndex === toIndex ||
+      fromIndex < 0 ||
+      fromIndex >= stops.length ||
+      toIndex < 0 ||
+      toIndex >= stops.length
+    ) {
+      return;
+    }
+
+    const [moved] = stops.splice(fromIndex, 1);
+    stops.splice(toIndex, 0, moved!);
+
+    // El origen tiene order 0, así que las paradas empiezan en 1
+    stops.forEach((stop, index) => {
+      stop.order = index + 1;
+    });
+
+    reorderWaypoints();
+    recalculateIfReady();
+  };
+
   /**
    * swapOriginDestination: Intercambia origen y destino
    *
-   * Esto es útil para "invertir" la ruta rápidamente
+   * Esto es útil para "invertir" la ruta rápidamente.
+   * Si hay paradas intermedias, también se invierte su orden.
    */
   const swapOriginDestination = () => {
     const origin = originWaypoint.value;
@@ -400,14 +790,18 @@ export const useRoutingStore = defineStore("routing", () => {
 
     if (!origin || !destination) return;
 
-    // Intercambiamos los tipos Y forzamos los orders correctos
-    // El nuevo origen SIEMPRE debe tener order 0
-    // El nuevo destino SIEMPRE debe tener order 1
-    updateWaypoint(origin.id, { type: "destination", order: 1 });
-    updateWaypoint(destination.id, { type: "origin", order: 0 });
+    // Invertimos el orden de todos los waypoints...
+    waypoints.value.forEach((wp) => {
+      wp.order = -wp.order;
+    });
+
+    // ...e intercambiamos los tipos de los extremos
+    updateWaypoint(origin.id, { type: "destination" });
+    updateWaypoint(destination.id, { type: "origin" });
 
-    // Reordenar el array por order
-    waypoints.value.sort((a, b) => a.order - b.order);
+    // Reordenar el array y dejar los orders en 0, 1, 2...
+    reorderWaypoints();
+    tripOptimization.value = null;
 
     // Si ya hay ruta, recalcular
     if (hasRoute.value) {
@@ -415,25 +809,172 @@ export const useRoutingStore = defineStore("routing", () => {
     }
   };
 
+  /**
+   * optimizeStopOrder: Reordena las paradas para tardar lo menos posible
+   *
+   * @param roundTrip - true: volver al origen al final. El destino
+   *                    actual pasa a ser una parada más y se añade
+   *                    un nuevo destino en el origen.
+   *
+   * El origen nunca se mueve y, sin ida y vuelta, tampoco el destino.
+   * Tras aplicar el nuevo orden se recalcula la ruta y queda en
+   * tripOptimization el tiempo ahorrado.
+   */
+  let optimizationController: AbortController | null = null;
+  const optimizeStopOrder = async (roundTrip: boolean = false) => {
+    const origin = originWaypoint.value;
+    const destination = destinationWaypoint.value;
+    if (!origin || !destination) return;
+
+    // Si ya es ida y vuelta, el destino (= origen) se queda fijo
+    const optimizeAsRoundTrip = roundTrip && !isRoundTrip.value;
+
+    // Cancelar una optimización anterior que siga en curso
+    optimizationController?.abort();
+    const controller = new AbortController();
+    optimizationController = controller;
+
+    isOptimizingOrder.value = true;
+    optimizationError.value = null;
+
+    try {
+      const sortedWaypoints = [...waypoints.value].sort(
+        (a, b) => a.order - b.order
+      );
+
+      const result = await routingService.optimizeWaypointOrder(
+        sortedWaypoints,
+        routingOptions.value,
+        optimizeAsRoundTrip,
+        controller.signal
+      );
+
+      // Cancelada mientras esperábamos: descartar el resultado
+      if (controller.signal.aborted) return;
+
+      // Aplicar el nuevo orden a través del campo "order"
+      result.order.forEach((waypointIndex, position) => {
+        sortedWaypoints[waypointIndex]!.order = position;
+      });
+
+      if (optimizeAsRoundTrip) {
+        // El antiguo destino es ahora una parada y volvemos al origen
+        updateWaypoint(destination.id, { type: "waypoint" });
+        addWaypoint({
+          id: crypto.randomUUID(),
+          name: origin.name,
+          coordinates: origin.coordinates,
+          type: "destination",
+          order: sortedWaypoints.length,
+          placeId: origin.placeId,
+        });
+      } else {
+        reorderWaypoints();
+      }
+
+      await calculateRoute();
+      if (controller.signal.aborted) return;
+      tripOptimization.value = result;
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      if (isRoutingError(error)) {
+        optimizationError.value = error;
+      } else {
+        console.error("❌ Error optimizando paradas:", error);
+        optimizationError.value = {
+          code: "API_ERROR",
+          message: t("errors.optimizationFailed"),
+          details: error,
+        };
+      }
+    } finally {
+      if (optimizationController === controller) {
+        optimizationController = null;
+        isOptimizingOrder.value = false;
+      }
+    }
+  };
+
   /**
    * reorderWaypoints: Reordena los waypoints secuencialmente
    *
-   * Asegura que los orders sean 0, 1, 2, 3... sin huecos
+   * Ordena el array (origen primero, paradas según su order y
+   * destino al final) y asegura que los orders sean 0, 1, 2, 3...
+   * sin huecos
    */
   const reorderWaypoints = () => {
+    const typeRank: Record<WaypointType, number> = {
+      origin: 0,
+      waypoint: 1,
+      destination: 2,
+    };
+
+    waypoints.value.sort(
+      (a, b) => typeRank[a.type] - typeRank[b.type] || a.order - b.order
+    );
     waypoints.value.forEach((wp, index) => {
       wp.order = index;
     });
   };
 
+  /**
+   * scheduleRouteCalculation: Recalcula la ruta tras un pequeño retardo
+   *
+   * Cada llamada reinicia la espera (debounce)
+   */
+  let recalculationTimer: ReturnType<typeof setTimeout> | null = null;
+  const scheduleRouteCalculation = () => {
+    if (recalculationTimer) {
+      clearTimeout(recalculationTimer);
+    }
+
+    recalculationTimer = setTimeout(() => {
+      recalculationTimer = null;
+      recalculateIfReady();
+    }, ROUTE_RECALCULATION_DELAY_MS);
+  };
+
+  /**
+   * recalculateIfReady: Recalcula la ruta si hay origen y destino
+   *
+   * Se usa tras cambiar las paradas, para que la ruta siempre
+   * refleje la lista actual de waypoints
+   */
+  const recalculateIfReady = () => {
+    // El orden cambió: el ahorro calculado ya no es válido
+    tripOptimization.value = null;
+
+    if (canCalculateRoute.value) {
+      calculateRoute();
+    }
+  };
+
   /**
    * clearRoute: Limpia la ruta y todos los waypoints
    */
   const clearRoute = () => {
+    // Cancelar lo que esté en camino: su resultado ya no sirve
+    routeController?.abort();
+    optimizationController?.abort();
+    elevationController?.abort();
+    if (recalculationTimer) {
+      clearTimeout(recalculationTimer);
+      recalculationTimer = null;
+    }
+
     waypoints.value = [];
     currentRoute.value = null;
     alternativeRoutes.value.splice(0); // Limpiar array de manera reactiva
     routingError.value = null;
+    tripOptimization.value = null;
+    optimizationError.value = null;
+    isCalculatingRoute.value = false;
+    isOptimizingOrder.value = false;
+    activeSegment.value = null;
+    hoveredSegment.value = null;
+    isLoadingElevation.value = false;
+    elevationHoverPoint.value = null;
   };
 
   /**
@@ -466,23 +1007,49 @@ export const useRoutingStore = defineStore("routing", () => {
   /**
    * calculateRoute: Calcula la ruta usando el servicio de routing
    *
+   * @param options - Opciones de la ruta (opcional). Si se pasan, se
+   *                  guardan en el store antes de calcular
+   * @param recordInHistory - ¿Apuntar la ruta en el historial? (por defecto sí;
+   *                          los recálculos de la navegación no se apuntan)
+   *
    * Esta función:
    * 1. Valida que haya al menos origen y destino
-   * 2. Llama al servicio de routing (OSRM) pidiendo alternativas
+   * 2. Llama al servicio de routing pidiendo alternativas
    * 3. Guarda la ruta principal y las alternativas en el estado
-   * 4. Maneja errores si algo falla
+   * 4. La apunta en el historial de rutas
+   * 5. Maneja errores si algo falla
+   *
+   * Si se llama otra vez antes de que llegue la respuesta, la petición
+   * anterior se cancela y su resultado se descarta: así nunca pisa
+   * una ruta más antigua a una más reciente.
    */
-  const calculateRoute = async () => {
+  let routeController: AbortController | null = null;
+  const calculateRoute = async (
+    options?: RoutingOptions,
+    recordInHistory: boolean = true
+  ) => {
+    if (options) {
+      const { travelMode: mode, preference, ...avoid } = options;
+      travelMode.value = mode;
+      routePreference.value = preference ?? routePreference.value;
+      avoidOptions.value = { ...avoidOptions.value, ...avoid };
+    }
+
     // Validación: necesitamos al menos origen y destino
     if (!canCalculateRoute.value) {
       console.warn("No se puede calcular la ruta: faltan waypoints");
       setRoutingError({
         code: "INVALID_WAYPOINTS",
-        message: "Necesitas al menos un origen y un destino",
+        message: t("errors.missingWaypoints"),
       });
       return;
     }
 
+    // Cancelar la petición anterior (si sigue en camino)
+    routeController?.abort();
+    const controller = new AbortController();
+    routeController = controller;
+
     // Activar estado de loading
     isCalculatingRoute.value = true;
     clearRoutingError();
@@ -499,30 +1066,42 @@ export const useRoutingStore = defineStore("routing", () => {
       // Llamar al servicio de routing pidiendo hasta 2 rutas alternativas
       const routes = await routingService.getRoutes(
         sortedWaypoints,
-        travelMode.value,
-        2 // Máximo 2 alternativas (total: 3 rutas)
+        routingOptions.value,
+        2, // Máximo 2 alternativas (total: 3 rutas)
+        controller.signal
       );
 
+      // Otra petición más reciente ha tomado el relevo
+      if (controller.signal.aborted) return;
+
       // Verificar que obtuvimos al menos una ruta
       if (!routes || routes.length === 0) {
         throw {
           code: "NO_ROUTE",
-          message: "No se encontró ninguna ruta",
+          message: t("errors.noRouteFound"),
         };
       }
 
-      // La primera ruta es la principal (más rápida)
-      const mainRoute = routes[0]!;
-      // El resto son alternativas
-      const alternatives = routes.slice(1);
+      // Ordenar según la preferencia: la mejor es la principal
+      // y el resto son alternativas
+      applyRankedRoutes(routes);
+
+      if (recordInHistory) {
+        useRouteHistoryStore().recordRoute(
+          sortedWaypoints,
+          routingOptions.value,
+          currentRoute.value!
+        );
+      }
 
-      // Guardar la ruta principal
-      setRoute(mainRoute);
-      // Guardar las alternativas
-      alternativeRoutes.value = alternatives;
+      // La elevación llega después: la ruta se muestra ya
+      loadRoutesElevation();
 
       // Rutas calculadas exitosamente
     } catch (error) {
+      // Petición cancelada: no es un error para el usuario
+      if (controller.signal.aborted) return;
+
       // Si el servicio devuelve un RoutingError, lo usamos directamente
       if (isRoutingError(error)) {
         setRoutingError(error);
@@ -531,22 +1110,59 @@ export const useRoutingStore = defineStore("routing", () => {
         console.error("❌ Error calculando ruta:", error);
         setRoutingError({
           code: "API_ERROR",
-          message: "No se pudo calcular la ruta",
+          message: t("errors.routeFailed"),
           details: error,
         });
       }
     } finally {
-      // Desactivar estado de loading
-      isCalculatingRoute.value = false;
+      // Desactivar estado de loading (solo si nadie ha tomado el relevo)
+      if (routeController === controller) {
+        routeController = null;
+        isCalculatingRoute.value = false;
+      }
+    }
+  };
+
+  /**
+   * rerouteFrom: Recalcula la ruta desde la posición actual (modo navegación)
+   *
+   * @param coordinates - [latitud, longitud] donde está el usuario
+   * @param passedStops - Paradas intermedias ya visitadas (se quitan de la ruta)
+   *
+   * El origen pasa a ser la posición del usuario; el destino y las
+   * paradas que faltan no cambian.
+   */
+  const rerouteFrom = async (
+    coordinates: [number, number],
+    passedStops: number = 0
+  ) => {
+    const origin = originWaypoint.value;
+    if (!origin || !destinationWaypoint.value) return;
+
+    const passedIds = new Set(
+      intermediateWaypoints.value.slice(0, passedStops).map((wp) => wp.id)
+    );
+    if (passedIds.size > 0) {
+      waypoints.value = waypoints.value.filter((wp) => !passedIds.has(wp.id));
+      reorderWaypoints();
     }
+
+    tripOptimization.value = null;
+    updateWaypoint(origin.id, {
+      name: t("map.myLocation"),
+      coordinates,
+      placeId: undefined,
+    });
+
+    await calculateRoute(undefined, false);
   };
 
   /**
    * recalculateRouteTimes: Recalcula los tiempos de la ruta actual y alternativas
    *
    * Esta función NO llama a la API. Solo recalcula las duraciones:
-   * - Para driving: restaura los tiempos precisos de OSRM
-   * - Para cycling/walking: calcula basándose en velocidades promedio
+   * - Para el perfil con el que se calculó la ruta: restaura los tiempos del motor
+   * - Para otros modos: calcula basándose en velocidades promedio
    *
    * Es instantánea porque no hace peticiones HTTP.
    *
@@ -573,21 +1189,124 @@ export const useRoutingStore = defineStore("routing", () => {
         routingService.recalculateRouteTimes(altRoute, newTravelMode)
       );
 
-      // 3. Actualizar el estado
-      setRoute(updatedRoute);
-      alternativeRoutes.value = updatedAlternatives;
+      // 3. Actualizar el estado (los tiempos cambian, así que reordenamos)
+      applyRankedRoutes([updatedRoute, ...updatedAlternatives]);
 
       // Tiempos recalculados
     } catch (error) {
       console.error("❌ Error recalculando tiempos:", error);
       setRoutingError({
         code: "API_ERROR",
-        message: "No se pudieron recalcular los tiempos",
+        message: t("errors.durationsFailed"),
         details: error,
       });
     }
   };
 
+  /**
+   * loadRoutesElevation: Pide el perfil de elevación de las rutas mostradas
+   *
+   * No bloquea: las rutas ya están en pantalla y el perfil se añade
+   * al llegar (los tiempos estimados en bici y a pie se corrigen con
+   * la pendiente). Si falla, las rutas se quedan sin perfil.
+   *
+   * Los perfiles se asocian por los puntos de la geometría y no por ID:
+   * si mientras tanto se cambia de modo de transporte, las rutas
+   * recalculadas (con otro ID y una copia de la geometría) conservan
+   * los puntos y reciben igualmente su perfil.
+   */
+  let elevationController: AbortController | null = null;
+  const loadRoutesElevation = async () => {
+    elevationController?.abort();
+    elevationController = null;
+
+    const routes = [currentRoute.value, ...alternativeRoutes.value].filter(
+      (route): route is Route => route !== null && !route.elevation
+    );
+    if (routes.length === 0 || !elevationService.isEnabled()) return;
+
+    const controller = new AbortController();
+    elevationController = controller;
+    isLoadingElevation.value = true;
+
+    try {
+      const profiles = await Promise.all(
+        routes.map((route) =>
+          elevationService
+            .getProfile(route.geometry, controller.signal)
+            .catch((error) => {
+              if (!controller.signal.aborted) {
+                console.warn("⚠️ No se pudo obtener la elevación:", error);
+              }
+              return null;
+            })
+        )
+      );
+
+      if (controller.signal.aborted) return;
+
+      const profilesByGeometry = new Map<string, ElevationProfile>();
+      routes.forEach((route, index) => {
+        const profile = profiles[index];
+        if (profile) {
+          profilesByGeometry.set(getGeometryKey(route.geometry), profile);
+        }
+      });
+
+      const withElevation = (route: Route): Route => {
+        const profile = profilesByGeometry.get(getGeometryKey(route.geometry));
+        return profile && !route.elevation
+          ? routingService.applyElevation(route, profile)
+          : route;
+      };
+
+      if (currentRoute.value) {
+        currentRoute.value = withElevation(currentRoute.value);
+      }
+      alternativeRoutes.value = alternativeRoutes.value.map(withElevation);
+    } catch (error) {
+      // Ej: falla la corrección de tiempos por la pendiente
+      if (!controller.signal.aborted) {
+        console.warn("⚠️ No se pudo aplicar la elevación:", error);
+      }
+    } finally {
+      if (elevationController === controller) {
+        elevationController = null;
+        isLoadingElevation.value = false;
+      }
+    }
+  };
+
+  /**
+   * setElevationHoverPoint: Marca en el mapa un punto del perfil de elevación
+   *
+   * @param coordinates - [lat, lon] del punto (null = quitar la marca)
+   */
+  const setElevationHoverPoint = (coordinates: [number, number] | null) => {
+    elevationHoverPoint.value = coordinates;
+  };
+
+  /**
+   * applyRankedRoutes: Ordena las rutas y las guarda en el estado
+   *
+   * @param routes - Ruta principal y alternativas (en cualquier orden)
+   *
+   * La mejor según routePreference pasa a ser la principal (seleccionada)
+   * y el resto quedan como alternativas con su alternativeIndex actualizado.
+   */
+  const applyRankedRoutes = (routes: Route[]) => {
+    const ranked = sortRoutesByPreference(routes, routePreference.value).map(
+      (route, index) => ({
+        ...route,
+        alternativeIndex: index,
+        isSelected: index === 0,
+      })
+    );
+
+    setRoute(ranked[0]!);
+    alternativeRoutes.value = ranked.slice(1);
+  };
+
   /**
    * isRoutingError: Verifica si un error es un RoutingError
    *
@@ -652,6 +1371,56 @@ export const useRoutingStore = defineStore("routing", () => {
     // Ruta seleccionada (sin intercambio)
   };
 
+  /**
+   * setActiveSegment: Elige un paso de las instrucciones de la ruta seleccionada
+   *
+   * @param index - Índice del paso (null = ninguno)
+   */
+  const setActiveSegment = (index: number | null) => {
+    const route = selectedRoute.value;
+    if (!route || index === null || !route.segments[index]) {
+      activeSegment.value = null;
+      return;
+    }
+    activeSegment.value = { routeId: route.id, index };
+  };
+
+  /**
+   * setHoveredSegment: Marca el paso que está bajo el ratón
+   *
+   * @param index - Índice del paso (null = ninguno)
+   */
+  const setHoveredSegment = (index: number | null) => {
+    const route = selectedRoute.value;
+    hoveredSegment.value =
+      route && index !== null ? { routeId: route.id, index } : null;
+  };
+
+  /**
+   * stepActiveSegment: Pasa al paso siguiente o al anterior
+   * Como una vista previa de la navegación, paso a paso
+   *
+   * @param direction - 1 = siguiente, -1 = anterior
+   *
+   * Sin paso elegido, "siguiente" empieza por el primero
+   * y "anterior" por el último.
+   */
+  const stepActiveSegment = (direction: 1 | -1) => {
+    const route = selectedRoute.value;
+    if (!route || route.segments.length === 0) return;
+
+    const lastIndex = route.segments.length - 1;
+    const current = activeSegmentIndex.value;
+    const next =
+      current === null
+        ? direction === 1
+          ? 0
+          : lastIndex
+        : Math.min(lastIndex, Math.max(0, current + direction));
+
+    setActiveSegment(next);
+  };
+
   // ============================================
   // RETURN (EXPORTAR)
   // ============================================
@@ -664,8 +1433,17 @@ export const useRoutingStore = defineStore("routing", () => {
     currentRoute,
     alternativeRoutes, // 🆕 Rutas alternativas
     travelMode,
+    routePreference,
+    avoidOptions,
     isCalculatingRoute,
     routingError,
+    isOptimizingOrder,
+    tripOptimization,
+    optimizationError,
+    activeSegment,
+    hoveredSegment,
+    isLoadingElevation,
+    elevationHoverPoint,
 
     // Getters
     isDirectionsMode,
@@ -675,6 +1453,12 @@ export const useRoutingStore = defineStore("routing", () => {
     destinationWaypoint,
     intermediateWaypoints,
     canCalculateRoute,
+    isRoundTrip,
+    canOptimizeOrder,
+    routingOptions,
+    selectedRoute,
+    activeSegmentIndex,
+    highlightedSegment,
     formattedDistance,
     formattedDuration,
 
@@ -682,19 +1466,35 @@ export const useRoutingStore = defineStore("routing", () => {
     setDirectionsMode,
     setSearchMode,
     setTravelMode,
+    setRoutePreference,
+    setAvoidOptions,
     addWaypoint,
     removeWaypoint,
     updateWaypoint,
     setOrigin,
     setDestination,
+    replaceWaypoints,
     addIntermediateWaypoint,
+    updateIntermediateWaypoint,
+    removeIntermediateWaypoint,
+    moveIntermediateWaypoint,
+    moveWaypoint,
+    insertWaypointOnRoute,
+    setWaypointFromMap,
     swapOriginDestination,
+    optimizeStopOrder,
     clearRoute,
     setRoute,
     setRoutingError,
     clearRoutingError,
     calculateRoute,
+    rerouteFrom,
     recalculateRouteTimes,
     selectAlternativeRoute, // Seleccionar una ruta alternativa
+    setActiveSegment,
+    setHoveredSegment,
+    stepActiveSegment,
+    loadRoutesElevation,
+    setElevationHoverPoint,
   };
 });
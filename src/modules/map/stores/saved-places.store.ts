@@ -0,0 +1,286 @@
+/**
+ * SAVED PLACES STORE
+ *
+ * Este store gestiona los lugares guardados por el usuario:
+ * - Casa, Trabajo y favoritos, guardados en el navegador
+ * - Guardar un resultado de búsqueda, un punto del mapa o un waypoint
+ *   (pasando por el diálogo para elegir nombre y tipo)
+ * - Editar y borrar lugares (panel de lugares guardados)
+ * - Importar y exportar como GeoJSON
+ */
+
+import { defineStore } from "pinia";
+import { ref, computed } from "vue";
+import type {
+  SavedPlace,
+  SavedPlaceCategory,
+  SavedPlaceDraft,
+} from "../interfaces/saved-place.interfaces";
+import {
+  SAVED_PLACE_CATEGORIES,
+  loadSavedPlaces,
+  matchSavedPlaces,
+  parseSavedPlacesGeoJson,
+  savedPlacesToGeoJson,
+  storeSavedPlaces,
+} from "../services/saved-places";
+import { t } from "@/modules/i18n/i18n";
+
+/**
+ * Categorías de las que solo puede haber un lugar
+ */
+const UNIQUE_CATEGORIES: SavedPlaceCategory[] = ["home", "work"];
+
+export const useSavedPlacesStore = defineStore("savedPlaces", () => {
+  // ============================================
+  // ESTADO (STATE)
+  // ============================================
+
+  /**
+   * places: Lugares guardados (en el orden en que se guardaron)
+   */
+  const places = ref<SavedPlace[]>(loadSavedPlaces());
+
+  /**
+   * draft: Lugar que se está guardando o editando en el diálogo
+   * null = diálogo cerrado
+   */
+  const draft = ref<SavedPlaceDraft | null>(null);
+
+  /**
+   * isPanelOpen: ¿Se muestra el panel de lugares guardados?
+   */
+  const isPanelOpen = ref<boolean>(false);
+
+  // ============================================
+  // GETTERS (COMPUTADOS)
+  // ============================================
+
+  /**
+   * sortedPlaces: Casa, Trabajo y después los favoritos por nombre
+   */
+  const sortedPlaces = computed(() => {
+    return [...places.value].sort(
+      (a, b) =>
+        SAVED_PLACE_CATEGORIES.indexOf(a.category) -
+          SAVED_PLACE_CATEGORIES.indexOf(b.category) ||
+        a.label.localeCompare(b.label)
+    );
+  });
+
+  /**
+   * hasPlaces: ¿Hay algún lugar guardado?
+   */
+  const hasPlaces = computed(() => places.value.length > 0);
+
+  // ============================================
+  // ACCIONES (ACTIONS)
+  // ============================================
+
+  /**
+   * findPlaces: Lugares que coinciden con lo que se está escribiendo
+   *
+   * @param query - Texto escrito (vacío = todos)
+   * @param limit - Máximo de lugares (por defecto, todos)
+   */
+  const findPlaces = (query: string, limit?: number): SavedPlace[] => {
+    return matchSavedPlaces(sortedPlaces.value, query).slice(0, limit);
+  };
+
+  /**
+   * findPlaceAt: Lugar guardado en unas coordenadas (o undefined)
+   */
+  const findPlaceAt = (coordinates: [number, number]) => {
+    return places.value.find(
+      (place) =>
+        place.coordinates[0] === coordinates[0] &&
+        place.coordinates[1] === coordinates[1]
+    );
+  };
+
+  /**
+   * startSaving: Abre el diálogo para guardar un lugar
+   *
+   * @param name - Dirección o nombre del lugar
+   * @param coordinates - [latitud, longitud]
+   * @param placeId - ID del lugar en Nominatim (opcional)
+   *
+   * Si ya hay un lugar guardado en esas coordenadas, se edita ese
+   */
+  const startSaving = (
+    name: string,
+    coordinates: [number, number],
+    placeId?: number
+  ) => {
+    const existing = findPlaceAt(coordinates);
+    if (existing) {
+      startEditing(existing.id);
+      return;
+    }
+
+    draft.value = {
+      label: name.split(",")[0]!.trim() || name,
+      category: "favorite",
+      name,
+      coordinates,
+      placeId,
+    };
+  };
+
+  /**
+   * startEditing: Abre el diálogo para cambiar un lugar guardado
+   *
+   * @param id - ID del lugar
+   */
+  const startEditing = (id: string) => {
+    const place = places.value.find((item) => item.id === id);
+    if (!place) return;
+
+    draft.value = {
+      id: place.id,
+      label: place.label,
+      category: place.category,
+      name: place.name,
+      coordinates: place.coordinates,
+      placeId: place.placeId,
+    };
+  };
+
+  /**
+   * cancelDraft: Cierra el diálogo sin guardar
+   */
+  const cancelDraft = () => {
+    draft.value = null;
+  };
+
+  /**
+   * saveDraft: Guarda el lugar del diálogo y lo cierra
+   *
+   * @param label - Nombre elegido por el usuario
+   * @param category - Tipo elegido
+   *
+   * Casa y Trabajo son únicos: si ya había uno, pasa a ser favorito
+   */
+  const saveDraft = (label: string, category: SavedPlaceCategory) => {
+    const current = draft.value;
+    if (!current) return;
+
+    const finalLabel = label.trim() || t(`savedPlaces.categories.${category}`);
+
+    if (UNIQUE_CATEGORIES.includes(category)) {
+      places.value = places.value.map((place) =>
+        place.category === category && place.id !== current.id
+          ? { ...place, category: "favorite" }
+          : place
+      );
+    }
+
+    if (current.id) {
+      places.value = places.value.map((place) =>
+        place.id === current.id
+          ? { ...place, label: finalLabel, category }
+          : place
+      );
+    } else {
+      places.value = [
+        ...places.value,
+        {
+          id: crypto.randomUUID(),
+          label: finalLabel,
+          category,
+          name: current.name,
+          coordinates: current.coordinates,
+          placeId: current.placeId,
+          createdAt: Date.now(),
+        },
+      ];
+    }
+
+    storeSavedPlaces(places.value);
+    draft.value = null;
+  };
+
+  /**
+   * removePlace: Borra un lugar guardado
+   *
+   * @param id - ID del lugar
+   */
+  const removePlace = (id: string) => {
+    places.value = places.value.filter((place) => place.id !== id);
+    storeSavedPlaces(places.value);
+  };
+
+  /**
+   * importGeoJson: Añade los lugares de un archivo GeoJSON
+   *
+   * @param text - Contenido del archivo
+   * @returns Cuántos lugares se añadieron (los repetidos se saltan)
+   * @throws Error si el archivo no es GeoJSON o no tiene puntos
+   *
+   * Si el archivo trae Casa o Trabajo, sustituyen a los actuales
+   */
+  const importGeoJson = (text: string): number => {
+    const imported = parseSavedPlacesGeoJson(text);
+
+    let added = 0;
+    let merged = [...places.value];
+    for (const place of imported) {
+      const isDuplicate = merged.some(
+        (item) =>
+          item.label === place.label &&
+          item.coordinates[0] === place.coordinates[0] &&
+          item.coordinates[1] === place.coordinates[1]
+      );
+      if (isDuplicate) continue;
+
+      if (UNIQUE_CATEGORIES.includes(place.category)) {
+        merged = merged.map((item) =>
+          item.category === place.category
+            ? { ...item, category: "favorite" }
+            : item
+        );
+      }
+      merged.push(place);
+      added++;
+    }
+
+    places.value = merged;
+    storeSavedPlaces(places.value);
+    return added;
+  };
+
+  /**
+   * exportGeoJson: Lugares guardados como texto GeoJSON
+   */
+  const exportGeoJson = (): string => {
+    return savedPlacesToGeoJson(sortedPlaces.value);
+  };
+
+  /**
+   * setPanelOpen: Muestra u oculta el panel de lugares guardados
+   */
+  const setPanelOpen = (open: boolean) => {
+    isPanelOpen.value = open;
+  };
+
+  return {
+    // State
+    places,
+    draft,
+    isPanelOpen,
+    // Getters
+    sortedPlaces,
+    hasPlaces,
+    // Actions
+    findPlaces,
+    findPlaceAt,
+    startSaving,
+    startEditing,
+    cancelDraft,
+    saveDraft,
+    removePlace,
+    importGeoJson,
+    exportGeoJson,
+    setPanelOpen,
+  };
+});
@@ -0,0 +1,93 @@
+/**
+ * SEARCH HISTORY STORE
+ *
+ * Este store recuerda los lugares elegidos en búsquedas anteriores:
+ * - Se apuntan al elegir un resultado (buscador, origen, destino, paradas)
+ * - Se ofrecen al instante en el autocompletado (sección "Recientes")
+ * - Se guardan en el navegador y se pueden borrar
+ */
+
+import { defineStore } from "pinia";
+import { ref } from "vue";
+import type { Place } from "../interfaces/place.interfaces";
+import type { RecentSearch } from "../interfaces/search.interfaces";
+import {
+  MAX_RECENT_SEARCHES,
+  isSameRecentSearch,
+  loadSearchHistory,
+  matchSearchHistory,
+  placeToRecentSearch,
+  storeSearchHistory,
+} from "../services/search-history";
+
+export const useSearchHistoryStore = defineStore("searchHistory", () => {
+  // ============================================
+  // ESTADO (STATE)
+  // ============================================
+
+  /**
+   * entries: Lugares elegidos, el más reciente primero
+   */
+  const entries = ref<RecentSearch[]>(loadSearchHistory());
+
+  // ============================================
+  // ACCIONES (ACTIONS)
+  // ============================================
+
+  /**
+   * findEntries: Búsquedas recientes que coinciden con lo escrito
+   *
+   * @param query - Texto escrito (vacío = todas)
+   * @param limit - Máximo de entradas (por defecto, todas)
+   */
+  const findEntries = (query: string, limit?: number): RecentSearch[] => {
+    return matchSearchHistory(entries.value, query).slice(0, limit);
+  };
+
+  /**
+   * addPlace: Apunta un lugar elegido en el historial
+   *
+   * @param place - Lugar elegido
+   *
+   * Si ya estaba, sube al principio
+   */
+  const addPlace = (place: Place) => {
+    const entry = placeToRecentSearch(place);
+    const others = entries.value.filter(
+      (item) => !isSameRecentSearch(item, entry)
+    );
+
+    entries.value = [entry, ...others].slice(0, MAX_RECENT_SEARCHES);
+    storeSearchHistory(entries.value);
+  };
+
+  /**
+   * removeEntry: Borra una búsqueda reciente
+   *
+   * @param entry - Entrada a borrar
+   */
+  const removeEntry = (entry: RecentSearch) => {
+    entries.value = entries.value.filter(
+      (item) => !isSameRecentSearch(item, entry)
+    );
+    storeSearchHistory(entries.value);
+  };
+
+  /**
+   * clearHistory: Borra todas las búsquedas recientes
+   */
+  const clearHistory = () => {
+    entries.value = [];
+    storeSearchHistory(entries.value);
+  };
+
+  return {
+    // State
+    entries,
+    // Actions
+    findEntries,
+    addPlace,
+    removeEntry,
+    clearHistory,
+  };
+});